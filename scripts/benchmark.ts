@@ -0,0 +1,112 @@
+/**
+ * Detector benchmark report - `npm run benchmark [-- options]`
+ *
+ *   --datasets=6                      Simulated campaigns to score on
+ *   --seed=1                          Seed of the first campaign
+ *   --now=2026-03-20T00:00:00Z        Clock the datasets end at (default: now)
+ *   --metrics=impressions,clicks|all  Metrics monitored on each campaign
+ *   --detectors=THRESHOLD,SEASONAL    Detectors to score (default: all)
+ *   --sensitivities=Strict,Balanced   Sensitivities to score each at
+ */
+
+import type { BenchmarkDetector, DetectorScore, Sensitivity } from '@/types';
+import {
+  BENCHMARK_DETECTORS,
+  BENCHMARK_METRIC_IDS,
+  generateBenchmarkDatasets,
+  runDetectorBenchmark,
+} from '@/services/benchmark';
+
+const SENSITIVITIES: Sensitivity[] = ['Strict', 'Balanced', 'Loose'];
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  argv.forEach((arg) => {
+    const match = arg.match(/^--([\w-]+)=(.*)$/);
+    if (!match) throw new Error(`Unrecognised argument "${arg}" - expected --name=value`);
+    args.set(match[1], match[2]);
+  });
+  return args;
+}
+
+// Comma-separated values, each checked against what's allowed
+function parseList<T extends string>(value: string | undefined, allowed: T[], name: string): T[] | undefined {
+  if (value === undefined) return undefined;
+  if (value === 'all') return allowed;
+  const items = value.split(',').map((item) => item.trim());
+  const unknown = items.filter((item) => !allowed.includes(item as T));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ${name}: ${unknown.join(', ')} (expected ${allowed.join(', ')} or all)`);
+  }
+  return items as T[];
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) throw new Error(`--${name} must be a positive whole number`);
+  return number;
+}
+
+const percent = (value?: number) => (value === undefined ? '-' : `${(value * 100).toFixed(0)}%`);
+
+function formatRow(score: DetectorScore): string[] {
+  return [
+    score.detector,
+    score.sensitivity,
+    `${score.detectedWindows}/${score.labeledWindows}`,
+    String(score.alarms),
+    String(score.falseAlarms),
+    percent(score.precision),
+    percent(score.recall),
+    score.falseAlarmsPerDay.toFixed(2),
+    score.meanTimeToDetectHours === undefined ? '-' : `${score.meanTimeToDetectHours.toFixed(1)}h`,
+  ];
+}
+
+function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+  console.log(line(header));
+  console.log(line(widths.map((width) => '-'.repeat(width))));
+  rows.forEach((row) => console.log(line(row)));
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const now = args.has('now') ? new Date(args.get('now')!) : new Date();
+  if (Number.isNaN(now.getTime())) throw new Error('--now must be an ISO timestamp');
+
+  const started = Date.now();
+  const datasets = generateBenchmarkDatasets(
+    parseNumber(args.get('datasets'), 'datasets'),
+    parseNumber(args.get('seed'), 'seed'),
+    now
+  );
+  const report = runDetectorBenchmark({
+    datasets,
+    metricIds: parseList(args.get('metrics'), BENCHMARK_METRIC_IDS, 'metrics'),
+    detectors: parseList(
+      args.get('detectors'),
+      Object.keys(BENCHMARK_DETECTORS) as BenchmarkDetector[],
+      'detectors'
+    ),
+    sensitivities: parseList(args.get('sensitivities'), SENSITIVITIES, 'sensitivities'),
+  });
+
+  console.log(
+    `${report.datasets} datasets, ${report.metricIds.length} metrics (${report.metricIds.join(', ')}), ` +
+      `${report.evaluatedDays.toFixed(1)} days scored each, in ${((Date.now() - started) / 1000).toFixed(1)}s\n`
+  );
+  printTable(
+    ['Detector', 'Sensitivity', 'Found', 'Alarms', 'False', 'Precision', 'Recall', 'False/day', 'Detect'],
+    report.scores.map(formatRow)
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
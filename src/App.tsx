@@ -7,11 +7,12 @@ import { CampaignList } from '@/pages/CampaignList';
 import { AlarmDetail } from '@/pages/AlarmDetail';
 import { CampaignDetail } from '@/pages/CampaignDetail';
 import { Settings as SettingsPage } from '@/pages/Settings';
+import { MaintenanceWindows } from '@/pages/MaintenanceWindows';
 import { WelcomeModal } from '@/components/onboarding/WelcomeModal';
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
 import { NetworkErrorHandler } from '@/components/ui/NetworkError';
 import { StaleDataBanner, StorageWarning } from '@/components/ui/StaleDataBanner';
-import { Bell, BarChart3, LayoutDashboard, FolderOpen, Settings } from 'lucide-react';
+import { Bell, BarChart3, LayoutDashboard, FolderOpen, Settings, Wrench } from 'lucide-react';
 
 function AppLayout({ children }: { children: React.ReactNode }) {
   const location = useLocation();
@@ -65,6 +66,17 @@ function AppLayout({ children }: { children: React.ReactNode }) {
                   <FolderOpen className="w-4 h-4" />
                   Campaigns
                 </Link>
+                <Link
+                  to="/maintenance"
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isActive('/maintenance')
+                      ? 'bg-blue-50 text-blue-600'
+                      : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                  }`}
+                >
+                  <Wrench className="w-4 h-4" />
+                  Maintenance
+                </Link>
                 <Link
                   to="/settings"
                   className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
@@ -155,6 +167,7 @@ function App() {
                 <Route path="/campaigns/new" element={<CreateCampaign />} />
                 <Route path="/campaigns/:campaignId" element={<CampaignDetail />} />
                 <Route path="/alarms/:alarmId" element={<AlarmDetail />} />
+                <Route path="/maintenance" element={<MaintenanceWindows />} />
                 <Route path="/settings" element={<SettingsPage />} />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
@@ -17,6 +17,7 @@ import {
   CheckCircle,
   Undo,
 } from 'lucide-react';
+import { getTimeToAcknowledge, getTimeToResolve } from '@/services/response';
 import type { Alarm } from '@/types';
 
 interface BulkActionsModalProps {
@@ -86,7 +87,8 @@ export function BulkActionsModal({ isOpen, onClose, selectedAlarms, onApplyActio
     setLoading(true);
     try {
       await onApplyAction(action);
-      setLastAction(action);
+      // Remember which alarms it applied to, so undo still reaches them once the selection clears
+      setLastAction({ ...action, params: { ...action.params, alarmIds: selectedAlarms.map((a) => a.id) } });
       setShowUndoToast(true);
       
       // Auto-hide undo toast after 30 seconds
@@ -107,10 +109,13 @@ export function BulkActionsModal({ isOpen, onClose, selectedAlarms, onApplyActio
     
     switch (lastAction.type) {
       case 'turnOff':
-        reverseAction = { type: 'turnOn' };
+        reverseAction = { type: 'turnOn', params: { alarmIds: lastAction.params.alarmIds } };
         break;
       case 'turnOn':
-        reverseAction = { type: 'turnOff', params: { duration: '1h' } };
+        reverseAction = {
+          type: 'turnOff',
+          params: { duration: '1h', alarmIds: lastAction.params.alarmIds },
+        };
         break;
       case 'dismiss':
         // Can't undo dismiss easily
@@ -137,6 +142,10 @@ export function BulkActionsModal({ isOpen, onClose, selectedAlarms, onApplyActio
       expectedValue: alarm.expectedValue,
       deviation: `${alarm.deviationPercent.toFixed(2)}%`,
       estimatedImpact: alarm.estimatedImpactUSD,
+      acknowledgedBy: alarm.acknowledgedBy,
+      assignee: alarm.assignee,
+      timeToAcknowledgeMinutes: getTimeToAcknowledge(alarm),
+      timeToResolveMinutes: getTimeToResolve(alarm),
       ...(includeDetails.recommendations && alarm.insights ? {
         recommendations: alarm.insights.recommendations.map(r => r.action).join('; '),
       } : {}),
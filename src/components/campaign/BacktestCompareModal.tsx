@@ -0,0 +1,327 @@
+/**
+ * Backtest Compare Modal - Replay two monitor configurations over the last
+ * days of stored data and compare the alarms each would have opened
+ */
+
+import React, { useState } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { History } from 'lucide-react';
+import { getAlarmPolicy } from '@/services/anomaly';
+import { compareMonitorConfigs, getBacktestWindow } from '@/services/backtest';
+import { formatDateTime, formatDuration } from '@/utils/helpers';
+import type { AlarmSeverity, BacktestAlarm, BacktestResult, Campaign, Monitor, Sensitivity } from '@/types';
+
+interface BacktestCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  campaign: Campaign;
+  monitors: Monitor[];
+}
+
+interface BacktestConfig {
+  sensitivity: Sensitivity;
+  minBreachMinutes: number;
+  cooldownMinutes: number;
+}
+
+interface ConfigSummary {
+  label: string;
+  results: BacktestResult[];
+}
+
+const ALL_MONITORS = 'all';
+const WINDOW_DAYS = [1, 3, 7];
+const SEVERITIES: AlarmSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+function applyConfig(monitor: Monitor, config: BacktestConfig): Monitor {
+  return {
+    ...monitor,
+    sensitivity: config.sensitivity,
+    alarmPolicy: {
+      ...monitor.alarmPolicy,
+      minBreachMinutes: config.minBreachMinutes,
+      cooldownMinutes: config.cooldownMinutes,
+    },
+  };
+}
+
+function getCurrentConfig(monitor: Monitor | undefined, campaign: Campaign): BacktestConfig {
+  const policy = monitor ? getAlarmPolicy(monitor) : undefined;
+  return {
+    sensitivity: monitor?.sensitivity ?? campaign.sensitivity,
+    minBreachMinutes: policy?.minBreachMinutes ?? 0,
+    cooldownMinutes: policy?.cooldownMinutes ?? 30,
+  };
+}
+
+interface ConfigEditorProps {
+  title: string;
+  config: BacktestConfig;
+  onChange: (config: BacktestConfig) => void;
+}
+
+function ConfigEditor({ title, config, onChange }: ConfigEditorProps) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <h4 className="font-semibold text-gray-900">{title}</h4>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Sensitivity</label>
+        <select
+          value={config.sensitivity}
+          onChange={(e) => onChange({ ...config, sensitivity: e.target.value as Sensitivity })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {['Strict', 'Balanced', 'Loose'].map((level) => (
+            <option key={level} value={level}>
+              {level}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Minimum breach (min)</label>
+          <input
+            type="number"
+            min={0}
+            value={config.minBreachMinutes}
+            onChange={(e) => onChange({ ...config, minBreachMinutes: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Cooldown (min)</label>
+          <input
+            type="number"
+            min={0}
+            value={config.cooldownMinutes}
+            onChange={(e) => onChange({ ...config, cooldownMinutes: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ResultColumnProps {
+  summary: ConfigSummary;
+  compareTo?: ConfigSummary;
+  showMonitorNames: boolean;
+}
+
+function ResultColumn({ summary, compareTo, showMonitorNames }: ResultColumnProps) {
+  const alarms = summary.results
+    .flatMap((result) => result.alarms.map((alarm) => ({ alarm, result })))
+    .sort((a, b) => new Date(b.alarm.triggeredAt).getTime() - new Date(a.alarm.triggeredAt).getTime());
+  const alarmCount = alarms.length;
+  const hoursInAlarm = summary.results.reduce((sum, r) => sum + r.hoursInAlarm, 0);
+  const bySeverity = (severity: AlarmSeverity) =>
+    summary.results.reduce((sum, r) => sum + r.alarmsBySeverity[severity], 0);
+  const countDelta = compareTo
+    ? alarmCount - compareTo.results.reduce((sum, r) => sum + r.alarms.length, 0)
+    : 0;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <h4 className="font-semibold text-gray-900">{summary.label}</h4>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs text-gray-500">Alarms Opened</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {alarmCount}
+            {compareTo && countDelta !== 0 && (
+              <span className={`ml-2 text-sm font-medium ${countDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {countDelta > 0 ? '+' : ''}
+                {countDelta}
+              </span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Hours in Alarm</p>
+          <p className="text-2xl font-bold text-gray-900">{hoursInAlarm}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {SEVERITIES.map((severity) => (
+          <Badge key={severity} severity={severity} size="sm">
+            {severity} {bySeverity(severity)}
+          </Badge>
+        ))}
+      </div>
+
+      {alarms.length === 0 ? (
+        <p className="text-sm text-gray-500">No alarms would have opened</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+          {alarms.map(({ alarm, result }, i) => (
+            <BacktestAlarmRow
+              key={`${result.monitor.id}-${i}`}
+              alarm={alarm}
+              windowEnd={result.to}
+              monitorName={showMonitorNames ? result.monitor.metricName : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BacktestAlarmRowProps {
+  alarm: BacktestAlarm;
+  windowEnd: string;
+  monitorName?: string;
+}
+
+function BacktestAlarmRow({ alarm, windowEnd, monitorName }: BacktestAlarmRowProps) {
+  return (
+    <div className="py-2 flex items-center justify-between gap-2 text-sm">
+      <div>
+        {monitorName && <div className="font-medium text-gray-900">{monitorName}</div>}
+        <div className="text-gray-600">{formatDateTime(alarm.triggeredAt)}</div>
+        <div className="text-xs text-gray-500">
+          {formatDuration(alarm.triggeredAt, alarm.resolvedAt ?? windowEnd)}
+          {!alarm.resolvedAt && ' (still open)'} • peak {alarm.peakDeviationPercent > 0 ? '+' : ''}
+          {alarm.peakDeviationPercent.toFixed(1)}%
+        </div>
+      </div>
+      <Badge severity={alarm.severity} size="sm">
+        {alarm.severity}
+      </Badge>
+    </div>
+  );
+}
+
+export function BacktestCompareModal({ isOpen, onClose, campaign, monitors }: BacktestCompareModalProps) {
+  const [monitorId, setMonitorId] = useState<string>(ALL_MONITORS);
+  const [windowDays, setWindowDays] = useState(7);
+  const selected = monitors.find((m) => m.id === monitorId);
+  const [configA, setConfigA] = useState<BacktestConfig>(() => getCurrentConfig(undefined, campaign));
+  const [configB, setConfigB] = useState<BacktestConfig>(() => ({
+    ...getCurrentConfig(undefined, campaign),
+    sensitivity: 'Strict',
+  }));
+  const [results, setResults] = useState<[ConfigSummary, ConfigSummary] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSelectMonitor = (id: string) => {
+    const monitor = monitors.find((m) => m.id === id);
+    setMonitorId(id);
+    setConfigA(getCurrentConfig(monitor, campaign));
+    setResults(null);
+  };
+
+  const handleRun = () => {
+    setLoading(true);
+    // Let the spinner render before the (synchronous) replay
+    setTimeout(() => {
+      const period = getBacktestWindow(windowDays);
+      const targets = selected ? [selected] : monitors.filter((m) => m.enabled);
+      const pairs = targets.map((monitor) =>
+        compareMonitorConfigs(applyConfig(monitor, configA), applyConfig(monitor, configB), campaign, period)
+      );
+      setResults([
+        { label: `A: ${configA.sensitivity}`, results: pairs.map(([a]) => a) },
+        { label: `B: ${configB.sensitivity}`, results: pairs.map(([, b]) => b) },
+      ]);
+      setLoading(false);
+    }, 0);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl">
+      <ModalHeader onClose={onClose}>Compare Monitor Configurations</ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Replays stored data hour by hour to show the alarms each configuration would have
+            opened. Nothing is saved and live alarms are untouched.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Monitor</label>
+              <select
+                value={monitorId}
+                onChange={(e) => handleSelectMonitor(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={ALL_MONITORS}>All enabled monitors</option>
+                {monitors.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.metricName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Period</label>
+              <select
+                value={windowDays}
+                onChange={(e) => {
+                  setWindowDays(Number(e.target.value));
+                  setResults(null);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {WINDOW_DAYS.map((days) => (
+                  <option key={days} value={days}>
+                    Last {days === 1 ? 'day' : `${days} days`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <ConfigEditor
+              title={selected ? 'A: Current settings' : 'A: Campaign settings'}
+              config={configA}
+              onChange={(config) => {
+                setConfigA(config);
+                setResults(null);
+              }}
+            />
+            <ConfigEditor
+              title="B: Alternative"
+              config={configB}
+              onChange={(config) => {
+                setConfigB(config);
+                setResults(null);
+              }}
+            />
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : (
+            results && (
+              <div className="grid grid-cols-2 gap-4">
+                <ResultColumn summary={results[0]} showMonitorNames={!selected} />
+                <ResultColumn summary={results[1]} compareTo={results[0]} showMonitorNames={!selected} />
+              </div>
+            )
+          )}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+        <Button onClick={handleRun} disabled={loading}>
+          <History className="w-4 h-4 mr-1" />
+          Run Backtest
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Calendar Card - Retail events and holidays in a campaign's markets, plus
+ * its own events such as promo launches
+ */
+
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Plus, Trash2 } from 'lucide-react';
+import { getCampaignEvents } from '@/services/calendar';
+import { getCountryName } from '@/utils/helpers';
+import type { Campaign, CalendarEvent } from '@/types';
+
+interface CalendarCardProps {
+  campaign: Campaign;
+  onUpdate: (campaign: Campaign) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Window of events listed around today
+const PAST_DAYS = 7;
+const UPCOMING_DAYS = 90;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const EMPTY_FORM = {
+  name: '',
+  startDate: '',
+  endDate: '',
+  geos: [] as string[],
+  trafficMultiplier: '1.5',
+};
+
+function formatEventDates(event: CalendarEvent): string {
+  return event.startDate === event.endDate ? event.startDate : `${event.startDate} – ${event.endDate}`;
+}
+
+function validateEvent(form: typeof EMPTY_FORM): string[] {
+  const errors: string[] = [];
+  if (!form.name.trim()) errors.push('Name is required');
+  if (!DATE_PATTERN.test(form.startDate)) errors.push('Start date is required');
+  if (!DATE_PATTERN.test(form.endDate)) errors.push('End date is required');
+  else if (form.endDate < form.startDate) errors.push('End date must be on or after the start date');
+  const multiplier = Number(form.trafficMultiplier);
+  if (!(multiplier > 0)) errors.push('Traffic multiplier must be greater than 0');
+  return errors;
+}
+
+export function CalendarCard({ campaign, onUpdate }: CalendarCardProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const now = Date.now();
+  const events = getCampaignEvents(
+    campaign,
+    new Date(now - PAST_DAYS * DAY_MS),
+    new Date(now + UPCOMING_DAYS * DAY_MS)
+  );
+
+  const handleAdd = () => {
+    const validationErrors = validateEvent(form);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    const event: CalendarEvent = {
+      id: uuidv4(),
+      name: form.name.trim(),
+      category: 'PROMO',
+      startDate: form.startDate,
+      endDate: form.endDate,
+      geos: form.geos.length > 0 ? form.geos : undefined,
+      trafficMultiplier: Number(form.trafficMultiplier),
+    };
+    onUpdate({ ...campaign, calendarEvents: [...(campaign.calendarEvents ?? []), event] });
+    setForm(EMPTY_FORM);
+  };
+
+  const handleRemove = (id: string) => {
+    onUpdate({
+      ...campaign,
+      calendarEvents: (campaign.calendarEvents ?? []).filter((event) => event.id !== id),
+    });
+  };
+
+  const toggleGeo = (geo: string) => {
+    setForm((prev) => ({
+      ...prev,
+      geos: prev.geos.includes(geo) ? prev.geos.filter((g) => g !== geo) : [...prev.geos, geo],
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Event Calendar</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Expected traffic moves with these events, so a Black Friday spike reads as normal. Each
+          monitor chooses how it treats event days in its configuration.
+        </p>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500">No events in the next {UPCOMING_DAYS} days.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-center justify-between gap-3 p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{event.name}</span>
+                    <Badge variant={event.builtIn ? 'default' : 'info'}>
+                      {event.builtIn ? event.category : 'CUSTOM'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatEventDates(event)} ·{' '}
+                    {event.geos
+                      ? event.geos
+                          .filter((geo) => campaign.targeting.geos.includes(geo))
+                          .map(getCountryName)
+                          .join(', ')
+                      : 'All markets'}{' '}
+                    · ×{event.trafficMultiplier} traffic
+                  </p>
+                </div>
+                {!event.builtIn && (
+                  <Button size="sm" variant="outline" onClick={() => handleRemove(event.id)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 pt-2">
+          <h4 className="text-sm font-semibold text-gray-900">Add an event</h4>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Spring promo launch"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Start</label>
+              <input
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">End</label>
+              <input
+                type="date"
+                value={form.endDate}
+                min={form.startDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Traffic ×</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={form.trafficMultiplier}
+                onChange={(e) => setForm({ ...form, trafficMultiplier: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          {campaign.targeting.geos.length > 1 && (
+            <div className="flex flex-wrap gap-3">
+              {campaign.targeting.geos.map((geo) => (
+                <label key={geo} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.geos.includes(geo)}
+                    onChange={() => toggleGeo(geo)}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  {getCountryName(geo)}
+                </label>
+              ))}
+              <span className="text-xs text-gray-500 self-center">None selected: all markets</span>
+            </div>
+          )}
+          {errors.length > 0 && (
+            <ul className="space-y-1 text-sm text-red-600">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <Button onClick={handleAdd}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Event
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
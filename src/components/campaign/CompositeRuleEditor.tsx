@@ -0,0 +1,194 @@
+/**
+ * Composite Rule Editor - Build a multi-metric rule from conditions on
+ * existing metrics, combined with AND / OR and negated with NOT
+ */
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { RULE_METRICS } from '@/services/composite';
+import type { CompositeRule, MetricCondition, MonitorDirection } from '@/types';
+
+interface CompositeRuleEditorProps {
+  rule: CompositeRule;
+  onChange: (rule: CompositeRule) => void;
+}
+
+const MOVEMENT_OPTIONS: Array<{ value: MonitorDirection; label: string }> = [
+  { value: 'UP', label: 'goes up' },
+  { value: 'DOWN', label: 'goes down' },
+  { value: 'BOTH', label: 'moves either way' },
+];
+
+const SELECT_CLASS =
+  'px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+function newCondition(): MetricCondition {
+  const metric = RULE_METRICS[0];
+  return { type: 'CONDITION', metricId: metric.id, direction: metric.alarmDirection };
+}
+
+// A NOT wraps the node it negates; the editor shows it as a checkbox on that node
+function unwrapNot(rule: CompositeRule): { negated: boolean; node: CompositeRule } {
+  return rule.type === 'NOT' ? { negated: true, node: rule.condition } : { negated: false, node: rule };
+}
+
+function ConditionFields({
+  condition,
+  onChange,
+}: {
+  condition: MetricCondition;
+  onChange: (condition: MetricCondition) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.metricId}
+        onChange={(e) => onChange({ ...condition, metricId: e.target.value })}
+        className={SELECT_CLASS}
+      >
+        {RULE_METRICS.map((metric) => (
+          <option key={metric.id} value={metric.id}>
+            {metric.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.direction}
+        onChange={(e) => onChange({ ...condition, direction: e.target.value as MonitorDirection })}
+        className={SELECT_CLASS}
+      >
+        {MOVEMENT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <span className="text-sm text-gray-600">by more than</span>
+      <input
+        type="number"
+        min={0}
+        placeholder="sensitivity"
+        value={condition.thresholdPercent ?? ''}
+        onChange={(e) =>
+          onChange({
+            ...condition,
+            thresholdPercent: e.target.value === '' ? undefined : Number(e.target.value),
+          })
+        }
+        className={`${SELECT_CLASS} w-28`}
+      />
+      <span className="text-sm text-gray-600">%</span>
+    </div>
+  );
+}
+
+function RuleNode({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: CompositeRule;
+  onChange: (rule: CompositeRule) => void;
+  onRemove?: () => void;
+}) {
+  const { negated, node } = unwrapNot(rule);
+  const update = (next: CompositeRule) => onChange(negated ? { type: 'NOT', condition: next } : next);
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg bg-white space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+          <input
+            type="checkbox"
+            checked={negated}
+            onChange={(e) => onChange(e.target.checked ? { type: 'NOT', condition: node } : node)}
+            className="w-4 h-4 text-blue-600 rounded"
+          />
+          NOT
+        </label>
+        {onRemove && (
+          <Button size="sm" variant="outline" onClick={onRemove}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {node.type === 'AND' || node.type === 'OR' ? (
+        <div className="space-y-2">
+          <select
+            value={node.type}
+            onChange={(e) => update({ ...node, type: e.target.value as 'AND' | 'OR' })}
+            className={SELECT_CLASS}
+          >
+            <option value="AND">All of (AND)</option>
+            <option value="OR">Any of (OR)</option>
+          </select>
+          <div className="pl-3 border-l-2 border-gray-200 space-y-2">
+            {node.conditions.map((child, i) => (
+              <RuleNode
+                key={i}
+                rule={child}
+                onChange={(next) =>
+                  update({ ...node, conditions: node.conditions.map((c, j) => (j === i ? next : c)) })
+                }
+                onRemove={() =>
+                  update({ ...node, conditions: node.conditions.filter((_, j) => j !== i) })
+                }
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => update({ ...node, conditions: [...node.conditions, newCondition()] })}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Condition
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                update({
+                  ...node,
+                  conditions: [
+                    ...node.conditions,
+                    { type: node.type === 'AND' ? 'OR' : 'AND', conditions: [newCondition(), newCondition()] },
+                  ],
+                })
+              }
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Group
+            </Button>
+          </div>
+        </div>
+      ) : node.type === 'CONDITION' ? (
+        <ConditionFields condition={node} onChange={update} />
+      ) : (
+        // NOT of a NOT - edit the inner rule directly
+        <RuleNode rule={node} onChange={update} />
+      )}
+    </div>
+  );
+}
+
+export function CompositeRuleEditor({ rule, onChange }: CompositeRuleEditorProps) {
+  return (
+    <div className="space-y-2">
+      <RuleNode rule={rule} onChange={onChange} />
+      {unwrapNot(rule).node.type === 'CONDITION' && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange({ type: 'AND', conditions: [rule, newCondition()] })}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Condition
+        </Button>
+      )}
+    </div>
+  );
+}
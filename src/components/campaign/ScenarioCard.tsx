@@ -0,0 +1,120 @@
+/**
+ * Scenario Card - Script anomalies into a campaign's simulated data for
+ * demos, analyst training and detector regression tests
+ */
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Play, X } from 'lucide-react';
+import { parseScenario, SCENARIO_EXAMPLES } from '@/services/scenario';
+import { formatDateTime } from '@/utils/helpers';
+import type { Campaign, Scenario } from '@/types';
+
+interface ScenarioCardProps {
+  campaign: Campaign;
+  onRun: (scenario: Scenario | undefined) => Promise<void>;
+}
+
+function toJson(scenario: Scenario): string {
+  // T is stamped when a scenario is run, so leave it out of the editable JSON
+  return JSON.stringify({ ...scenario, startsAt: undefined }, null, 2);
+}
+
+export function ScenarioCard({ campaign, onRun }: ScenarioCardProps) {
+  const [text, setText] = useState(() => toJson(campaign.scenario ?? SCENARIO_EXAMPLES[0]));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const handleRun = async (scenario: Scenario | undefined) => {
+    setRunning(true);
+    try {
+      await onRun(scenario);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleApply = () => {
+    const { scenario, errors: parseErrors } = parseScenario(text);
+    setErrors(parseErrors);
+    if (scenario) handleRun(scenario);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Demo Scenario</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Script anomalies on a timeline. Times are 'T+30h' from the start of the simulated week,
+          'HH:mm' today in the reporting timezone, or ISO timestamps. Running a scenario regenerates
+          this campaign's data.
+        </p>
+
+        {campaign.scenario && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+            Running <span className="font-semibold">{campaign.scenario.name}</span>
+            {campaign.scenario.startsAt && <> (T = {formatDateTime(campaign.scenario.startsAt)})</>}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Start from an example</label>
+          <select
+            defaultValue=""
+            onChange={(e) => {
+              const example = SCENARIO_EXAMPLES.find((s) => s.name === e.target.value);
+              if (example) {
+                setText(toJson(example));
+                setErrors([]);
+              }
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="" disabled>
+              Choose an example...
+            </option>
+            {SCENARIO_EXAMPLES.map((example) => (
+              <option key={example.name} value={example.name}>
+                {example.name} - {example.description}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Scenario JSON</label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={14}
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          {errors.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm text-red-600">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleApply} disabled={running}>
+            <Play className="w-4 h-4 mr-2" />
+            Run Scenario
+          </Button>
+          {campaign.scenario && (
+            <Button variant="outline" onClick={() => handleRun(undefined)} disabled={running}>
+              <X className="w-4 h-4 mr-2" />
+              Clear Scenario
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,9 +15,19 @@ export interface FilterState {
   customDateStart?: string;
   customDateEnd?: string;
   metricCategories: string[];
-  actionStatus: string[];
+  actionStatus: ActionStatusFilter[];
 }
 
+// Who is on an alarm; an alarm passes when it matches any checked status
+export type ActionStatusFilter = 'UNACKNOWLEDGED' | 'ACKNOWLEDGED' | 'ASSIGNED_TO_ME' | 'UNASSIGNED';
+
+const ACTION_STATUS_OPTIONS: Array<{ value: ActionStatusFilter; label: string }> = [
+  { value: 'UNACKNOWLEDGED', label: 'Unacknowledged' },
+  { value: 'ACKNOWLEDGED', label: 'Acknowledged' },
+  { value: 'ASSIGNED_TO_ME', label: 'Assigned to me' },
+  { value: 'UNASSIGNED', label: 'Unassigned' },
+];
+
 interface FiltersDropdownProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
@@ -49,7 +59,7 @@ export function FiltersDropdown({ filters, onFiltersChange, availableCampaigns }
     onFiltersChange({ ...filters, metricCategories: newCategories });
   };
 
-  const toggleActionStatus = (status: string) => {
+  const toggleActionStatus = (status: ActionStatusFilter) => {
     const newStatuses = filters.actionStatus.includes(status)
       ? filters.actionStatus.filter((s) => s !== status)
       : [...filters.actionStatus, status];
@@ -269,23 +279,18 @@ export function FiltersDropdown({ filters, onFiltersChange, availableCampaigns }
                   Action Status
                 </label>
                 <div className="space-y-2">
-                  {[
-                    'Pending',
-                    'Applied',
-                    'Dismissed',
-                    'Auto-resolved',
-                  ].map((status) => (
+                  {ACTION_STATUS_OPTIONS.map((option) => (
                     <label
-                      key={status}
+                      key={option.value}
                       className="flex items-center gap-3 p-2 rounded hover:bg-gray-50 cursor-pointer"
                     >
                       <input
                         type="checkbox"
-                        checked={filters.actionStatus.includes(status)}
-                        onChange={() => toggleActionStatus(status)}
+                        checked={filters.actionStatus.includes(option.value)}
+                        onChange={() => toggleActionStatus(option.value)}
                         className="w-4 h-4 text-blue-600 rounded"
                       />
-                      <span className="text-sm text-gray-700">{status}</span>
+                      <span className="text-sm text-gray-700">{option.label}</span>
                     </label>
                   ))}
                 </div>
@@ -0,0 +1,148 @@
+/**
+ * Incident List - Open alarms grouped into incidents, each led by its probable
+ * source alarm with one AI insight for the whole group
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/Badge';
+import { Clock, DollarSign, GitBranch, Layers, Lightbulb } from 'lucide-react';
+import { generateIncidentInsights } from '@/services/gemini';
+import {
+  formatCurrency,
+  formatRelativeTime,
+  formatSliceLabel,
+  getSeverityColor,
+  parseSliceKey,
+} from '@/utils/helpers';
+import type { Alarm, AlarmInsights, Campaign, Incident } from '@/types';
+
+interface IncidentListProps {
+  incidents: Incident[];
+  alarms: Alarm[];
+  campaigns: Campaign[];
+  onViewAlarm: (alarm: Alarm) => void;
+}
+
+// Insights are regenerated when an incident gains or loses alarms
+function getInsightKey(incident: Incident): string {
+  return incident.alarmIds.join('|');
+}
+
+function getIncidentAlarms(incident: Incident, alarms: Alarm[]): Alarm[] {
+  return incident.alarmIds
+    .map((id) => alarms.find((a) => a.id === id))
+    .filter((a): a is Alarm => a !== undefined);
+}
+
+export function IncidentList({ incidents, alarms, campaigns, onViewAlarm }: IncidentListProps) {
+  const [insights, setInsights] = useState<Record<string, AlarmInsights>>({});
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    incidents
+      .filter((incident) => incident.alarmIds.length > 1)
+      .filter((incident) => !requested.current.has(getInsightKey(incident)))
+      .forEach(async (incident) => {
+        const campaign = campaigns.find((c) => c.id === incident.campaignId);
+        if (!campaign) return;
+
+        const key = getInsightKey(incident);
+        requested.current.add(key);
+        const generated = await generateIncidentInsights(
+          incident,
+          getIncidentAlarms(incident, alarms),
+          campaign
+        );
+        setInsights((prev) => ({ ...prev, [key]: generated }));
+      });
+  }, [incidents, alarms, campaigns]);
+
+  return (
+    <div className="space-y-3">
+      {incidents.map((incident) => {
+        const [primary, ...related] = getIncidentAlarms(incident, alarms);
+        if (!primary) return null;
+
+        // A lone alarm keeps its own insight
+        const insight = related.length > 0 ? insights[getInsightKey(incident)] : primary.insights;
+
+        return (
+          <div
+            key={incident.id}
+            className={`border-l-4 ${
+              getSeverityColor(incident.severity).border
+            } bg-white rounded-r-lg shadow-sm p-4`}
+          >
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge severity={incident.severity}>{incident.severity}</Badge>
+                <button
+                  onClick={() => onViewAlarm(primary)}
+                  className="font-semibold text-gray-900 hover:text-blue-600"
+                >
+                  {primary.metricName}
+                </button>
+                {related.length > 0 && (
+                  <span className="text-xs text-gray-500">
+                    probable source · {related.length} related alarm{related.length === 1 ? '' : 's'}
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{incident.campaignName}</span>
+            </div>
+
+            {insight ? (
+              <p className="text-sm text-gray-600 mb-2">{insight.summary}</p>
+            ) : (
+              related.length > 0 && <p className="text-sm text-gray-400 mb-2">Analyzing incident…</p>
+            )}
+
+            {related.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {related.map((alarm) => (
+                  <button key={alarm.id} onClick={() => onViewAlarm(alarm)}>
+                    <Badge severity={alarm.severity} size="sm">
+                      {alarm.metricName}
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-4 text-xs text-gray-500 flex-wrap">
+              <span className="flex items-center">
+                <Clock className="w-3 h-3 mr-1" />
+                Started {formatRelativeTime(incident.startedAt)}
+              </span>
+              {incident.links.includes('DEPENDENCY') && (
+                <span className="flex items-center">
+                  <GitBranch className="w-3 h-3 mr-1" />
+                  Related metrics
+                </span>
+              )}
+              {incident.sharedSlices && (
+                <span className="flex items-center">
+                  <Layers className="w-3 h-3 mr-1" />
+                  {incident.sharedSlices.map((key) => formatSliceLabel(parseSliceKey(key))).join(', ')}
+                </span>
+              )}
+              {incident.estimatedImpactUSD !== undefined && (
+                <span className="flex items-center">
+                  <DollarSign className="w-3 h-3 mr-1" />
+                  Est. impact: {formatCurrency(incident.estimatedImpactUSD)}
+                </span>
+              )}
+            </div>
+
+            {insight && insight.recommendations.length > 0 && (
+              <p className="flex items-center text-xs text-blue-600 mt-3 pt-3 border-t border-gray-200">
+                <Lightbulb className="w-3 h-3 mr-1 flex-shrink-0" />
+                {insight.recommendations[0].action}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Response Times Card - How quickly last week's alarms were acknowledged and
+ * resolved, for the weekly ops review
+ */
+
+import React from 'react';
+import { summarizeResponseTimes } from '@/services/response';
+import { formatMinutes } from '@/utils/helpers';
+import type { Alarm } from '@/types';
+
+interface ResponseTimesCardProps {
+  alarms: Alarm[];
+  days?: number;
+  className?: string;
+}
+
+export function ResponseTimesCard({ alarms, days = 7, className = '' }: ResponseTimesCardProps) {
+  const now = new Date();
+  const summary = summarizeResponseTimes(
+    alarms,
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000),
+    now
+  );
+
+  const stats = [
+    { label: 'Alarms raised', value: String(summary.alarms) },
+    { label: 'Acknowledged', value: `${summary.acknowledged} of ${summary.alarms}` },
+    {
+      label: 'Median time to acknowledge',
+      value:
+        summary.medianTimeToAcknowledge !== undefined
+          ? formatMinutes(summary.medianTimeToAcknowledge)
+          : '—',
+      detail:
+        summary.meanTimeToAcknowledge !== undefined
+          ? `mean ${formatMinutes(summary.meanTimeToAcknowledge)}`
+          : undefined,
+    },
+    {
+      label: 'Median time to resolve',
+      value:
+        summary.medianTimeToResolve !== undefined ? formatMinutes(summary.medianTimeToResolve) : '—',
+      detail:
+        summary.meanTimeToResolve !== undefined
+          ? `mean ${formatMinutes(summary.meanTimeToResolve)}`
+          : undefined,
+    },
+  ];
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-lg p-6 ${className}`}>
+      <div className="mb-4">
+        <h3 className="text-lg font-bold text-gray-900 mb-1">Response Times ({days} Days)</h3>
+        <p className="text-sm text-gray-600">
+          How quickly alarms raised in the period were picked up and resolved
+        </p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <p className="text-xs font-medium text-gray-500">{stat.label}</p>
+            <p className="text-xl font-bold text-gray-900">{stat.value}</p>
+            {stat.detail && <p className="text-xs text-gray-500">{stat.detail}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
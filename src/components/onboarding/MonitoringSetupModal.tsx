@@ -56,21 +56,21 @@ const SENSITIVITY_OPTIONS = [
   {
     value: 'Strict' as Sensitivity,
     label: 'Strict',
-    tolerance: '±15%',
+    tolerance: '±2.5σ',
     description: 'Detect small deviations. More alerts, higher precision.',
     color: 'red',
   },
   {
     value: 'Balanced' as Sensitivity,
     label: 'Balanced',
-    tolerance: '±25%',
+    tolerance: '±3.5σ',
     description: 'Detect moderate deviations. Recommended for most campaigns.',
     color: 'yellow',
   },
   {
     value: 'Loose' as Sensitivity,
     label: 'Loose',
-    tolerance: '±40%',
+    tolerance: '±5σ',
     description: 'Detect large deviations only. Fewer alerts, major issues only.',
     color: 'green',
   },
@@ -211,6 +211,14 @@ export function MonitoringSetupModal({ isOpen, onComplete }: MonitoringSetupModa
               <p className="text-gray-600">
                 Choose how sensitive the anomaly detection should be for your campaign.
               </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Thresholds are measured against each metric's own normal variation. Until enough
+                history exists, ±15% / ±25% / ±40% bands are used instead.
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Each metric alerts only in the direction that hurts (e.g. CPA rising, CVR
+                falling). You can change this per monitor from the campaign's Monitors tab.
+              </p>
             </div>
 
             <div className="grid grid-cols-3 gap-4">
@@ -35,6 +35,8 @@ export function Badge({
   if (state) {
     const stateMap: Record<AlarmState | MonitorState, BadgeProps['variant']> = {
       ACTIVE: 'danger',
+      ACKNOWLEDGED: 'info',
+      SNOOZED: 'warning',
       RESOLVED: 'success',
       DISMISSED: 'default',
       IN_ALARM: 'danger',
@@ -1,10 +1,14 @@
 /**
- * Stale Data Banner - Warn users when data is outdated
+ * Stale Data Banner - Warn users when data is outdated: a campaign's metric
+ * feed has stopped arriving, or the page hasn't been refreshed in a while
  */
 
 import React, { useState, useEffect } from 'react';
 import { AlertCircle, RefreshCw, X } from 'lucide-react';
 import { Button } from './Button';
+import { useApp } from '@/contexts/AppContext';
+import { findStaleFeeds, formatLateness } from '@/services/freshness';
+import { formatRelativeTime } from '@/utils/helpers';
 
 interface StaleDataBannerProps {
   lastRefreshTime: Date | null;
@@ -17,18 +21,22 @@ export function StaleDataBanner({
   onRefresh,
   staleThresholdHours = 24,
 }: StaleDataBannerProps) {
+  const { campaigns } = useApp();
   const [isStale, setIsStale] = useState(false);
   const [dismissed, setDismissed] = useState(false);
   const [hoursOld, setHoursOld] = useState(0);
+  const [staleFeeds, setStaleFeeds] = useState<ReturnType<typeof findStaleFeeds>>([]);
 
   useEffect(() => {
-    if (!lastRefreshTime) {
-      setIsStale(true);
-      return;
-    }
-
     const checkStale = () => {
       const now = new Date();
+      setStaleFeeds(findStaleFeeds(campaigns, now));
+
+      if (!lastRefreshTime) {
+        setIsStale(true);
+        return;
+      }
+
       const diff = now.getTime() - lastRefreshTime.getTime();
       const hours = diff / (1000 * 60 * 60);
       
@@ -40,9 +48,27 @@ export function StaleDataBanner({
     const interval = setInterval(checkStale, 60000); // Check every minute
 
     return () => clearInterval(interval);
-  }, [lastRefreshTime, staleThresholdHours]);
+  }, [campaigns, lastRefreshTime, staleThresholdHours]);
 
-  if (!isStale || dismissed) return null;
+  if ((!isStale && staleFeeds.length === 0) || dismissed) return null;
+
+  let title = 'Data May Be Outdated';
+  let message = lastRefreshTime
+    ? `Last refreshed ${hoursOld} hours ago. Consider refreshing for latest updates.`
+    : 'Unable to determine last refresh time. Please refresh to ensure data accuracy.';
+
+  if (staleFeeds.length > 0) {
+    // Longest-silent feed across the affected campaigns
+    const oldest = staleFeeds
+      .flatMap(({ stale }) => stale)
+      .reduce((worst, f) => (f.lateByMinutes > worst.lateByMinutes ? f : worst));
+    const affected = staleFeeds
+      .map(({ campaign, stale }) => `${campaign.name} (${stale.length} ${stale.length === 1 ? 'metric' : 'metrics'})`)
+      .join(', ');
+
+    title = 'Campaign Data Has Stopped Arriving';
+    message = `No new data for ${affected}. Last received ${formatRelativeTime(oldest.lastReceivedAt!)} (${formatLateness(oldest.lateByMinutes)} late). Monitors on these metrics are holding their last state.`;
+  }
 
   return (
     <div className="bg-amber-50 border-b border-amber-200">
@@ -52,13 +78,9 @@ export function StaleDataBanner({
             <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0" />
             <div>
               <p className="text-sm font-semibold text-amber-900">
-                Data May Be Outdated
-              </p>
-              <p className="text-xs text-amber-700">
-                {lastRefreshTime
-                  ? `Last refreshed ${hoursOld} hours ago. Consider refreshing for latest updates.`
-                  : 'Unable to determine last refresh time. Please refresh to ensure data accuracy.'}
+                {title}
               </p>
+              <p className="text-xs text-amber-700">{message}</p>
             </div>
           </div>
           <div className="flex items-center gap-2">
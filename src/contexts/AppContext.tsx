@@ -6,8 +6,12 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import type {
   Campaign,
   Monitor,
+  Scenario,
   MonitorStateData,
   Alarm,
+  AlarmEvent,
+  DimensionalBreakdown,
+  MaintenanceWindow,
   OnboardingState,
   UserPreferences,
   DashboardSummary,
@@ -16,18 +20,37 @@ import {
   getCampaigns,
   saveCampaign as saveToStorage,
   deleteCampaign as deleteFromStorage,
+  getMonitors,
   getMonitorsByCampaign,
   saveMonitor as saveMonitorToStorage,
   getMonitorStates,
   getAlarms,
+  getAlarmEvents,
+  getAlarmBreakdown,
+  getMaintenanceWindows,
+  saveMaintenanceWindow as saveWindowToStorage,
+  deleteMaintenanceWindow as deleteWindowFromStorage,
   getOnboardingState,
   updateOnboardingState as updateOnboardingInStorage,
   getUserPreferences,
   saveUserPreferences as savePreferencesToStorage,
   bulkSaveMetricValues,
+  replaceMetricValuesByCampaign,
 } from '@/utils/storage';
-import { createDefaultMonitors, evaluateAllMonitors, getAlarmSummary } from '@/services/anomaly';
-import { generateHistoricalData } from '@/services/simulation';
+import {
+  createDefaultMonitors,
+  evaluateAllMonitors,
+  getAlarmSummary,
+  snoozeAlarm as snoozeAlarmInStorage,
+  acknowledgeAlarm as acknowledgeAlarmInStorage,
+  unacknowledgeAlarm as unacknowledgeAlarmInStorage,
+  assignAlarm as assignAlarmInStorage,
+  dismissAlarm as dismissAlarmInStorage,
+} from '@/services/anomaly';
+import { addAlarmComment as addCommentToLog, recordAlarmEvent } from '@/services/activity';
+import { getCurrentUser, isOpenAlarm } from '@/utils/helpers';
+import { generateHistoricalData, getHistoryStart, setSimulationSeed } from '@/services/simulation';
+import { getCampaignTimezone } from '@/utils/timezone';
 
 interface AppContextType {
   // Campaigns
@@ -43,15 +66,35 @@ interface AppContextType {
     sensitivity: string,
     notificationPrefs: Partial<UserPreferences['notificationPreferences']>
   ) => Promise<{ success: boolean; error?: string }>;
+  runScenario: (campaignId: string, scenario: Scenario | undefined) => Promise<void>;
 
   // Monitors
   monitors: Monitor[];
+  allMonitors: Monitor[]; // Monitors of every campaign
   monitorStates: MonitorStateData[];
+  updateMonitor: (monitor: Monitor) => void;
+
+  // Maintenance windows
+  maintenanceWindows: MaintenanceWindow[];
+  saveMaintenanceWindow: (window: MaintenanceWindow) => void;
+  deleteMaintenanceWindow: (id: string) => void;
 
   // Alarms
   alarms: Alarm[];
   activeAlarms: Alarm[];
+  snoozedAlarms: Alarm[];
   dashboardSummary: DashboardSummary;
+  snoozeAlarm: (alarmId: string, until: Date, reason: string) => void;
+  acknowledgeAlarm: (alarmId: string) => void;
+  unacknowledgeAlarm: (alarmId: string) => void;
+  assignAlarm: (alarmId: string, assignee: string | undefined) => void;
+  dismissAlarm: (alarmId: string) => void;
+  getAlarmBreakdown: (alarmId: string) => DimensionalBreakdown | undefined; // Attribution across slices
+
+  // Alarm activity
+  alarmEvents: AlarmEvent[];
+  addAlarmComment: (alarmId: string, text: string) => void;
+  applyRecommendation: (alarmId: string, action: string) => void;
 
   // Onboarding
   onboarding: OnboardingState;
@@ -60,6 +103,7 @@ interface AppContextType {
 
   // User preferences
   preferences: UserPreferences;
+  currentUser: string; // Who acknowledges and is assigned alarms from this browser
   updatePreferences: (updates: Partial<UserPreferences>) => void;
 
   // UI state
@@ -76,9 +120,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [activeCampaign, setActiveCampaign] = useState<Campaign | null>(null);
   const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [allMonitors, setAllMonitors] = useState<Monitor[]>([]);
   const [monitorStates, setMonitorStates] = useState<MonitorStateData[]>([]);
   const [alarms, setAlarms] = useState<Alarm[]>([]);
+  const [alarmEvents, setAlarmEvents] = useState<AlarmEvent[]>([]);
+  const [maintenanceWindows, setMaintenanceWindows] = useState<MaintenanceWindow[]>([]);
   const [activeAlarms, setActiveAlarms] = useState<Alarm[]>([]);
+  const [snoozedAlarms, setSnoozedAlarms] = useState<Alarm[]>([]);
   const [dashboardSummary, setDashboardSummary] = useState<DashboardSummary>({
     critical: 0,
     high: 0,
@@ -113,23 +161,31 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   // Update active alarms and summary when alarms change
   useEffect(() => {
-    const active = alarms.filter((a) => a.state === 'ACTIVE');
+    const active = alarms.filter(isOpenAlarm);
     setActiveAlarms(active);
+    setSnoozedAlarms(alarms.filter((a) => a.state === 'SNOOZED'));
     setDashboardSummary(getAlarmSummary(alarms));
   }, [alarms]);
 
   const loadData = () => {
     const loadedCampaigns = getCampaigns();
+    const loadedMonitors = getMonitors();
     const loadedStates = getMonitorStates();
     const loadedAlarms = getAlarms();
+    const loadedEvents = getAlarmEvents();
+    const loadedWindows = getMaintenanceWindows();
     const loadedOnboarding = getOnboardingState();
     const loadedPreferences = getUserPreferences();
 
     setCampaigns(loadedCampaigns);
+    setAllMonitors(loadedMonitors);
     setMonitorStates(loadedStates);
     setAlarms(loadedAlarms);
+    setAlarmEvents(loadedEvents);
+    setMaintenanceWindows(loadedWindows);
     setOnboarding(loadedOnboarding);
     setPreferences(loadedPreferences);
+    setSimulationSeed(loadedPreferences.simulationSeed ?? 0);
 
     // Set active campaign if there's only one
     if (loadedCampaigns.length === 1 && !activeCampaign) {
@@ -258,12 +314,14 @@ export function AppProvider({ children }: { children: ReactNode }) {
       const campaignMonitors = getMonitorsByCampaign(campaignId);
       setMonitors(campaignMonitors);
 
-      // Generate historical data (already generated in createCampaign, but ensure it exists)
-      const historicalData = generateHistoricalData(updatedCampaign);
+      // Fill in history since the campaign was created (points already stored
+      // are kept) and evaluate against it on the same clock, so a seed replays exactly
+      const now = new Date();
+      const historicalData = generateHistoricalData(updatedCampaign, now);
       bulkSaveMetricValues(historicalData);
 
       // Evaluate monitors to calculate baselines and generate initial alarms
-      await evaluateAllMonitors(updatedCampaign, campaignMonitors);
+      await evaluateAllMonitors(updatedCampaign, campaignMonitors, now);
 
       // Reload all data
       loadData();
@@ -280,6 +338,99 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Apply a simulator scenario (or clear it) and regenerate the campaign's history around it
+  const runScenario = async (campaignId: string, scenario: Scenario | undefined) => {
+    setLoading(true);
+    try {
+      const campaign = campaigns.find((c) => c.id === campaignId);
+      if (!campaign) return;
+
+      // Pin T to this run's history so the timeline stays put as time moves on
+      const now = new Date();
+      const updatedCampaign: Campaign = {
+        ...campaign,
+        scenario: scenario && {
+          ...scenario,
+          startsAt: getHistoryStart(now, getCampaignTimezone(campaign)).toISOString(),
+        },
+        updatedAt: now.toISOString(),
+      };
+      saveToStorage(updatedCampaign);
+      replaceMetricValuesByCampaign(campaignId, generateHistoricalData(updatedCampaign, now));
+
+      if (updatedCampaign.monitoringEnabled) {
+        await evaluateAllMonitors(updatedCampaign, getMonitorsByCampaign(campaignId), now);
+      }
+
+      loadData();
+      if (activeCampaign?.id === campaignId) {
+        setActiveCampaign(updatedCampaign);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateMonitor = (monitor: Monitor) => {
+    saveMonitorToStorage(monitor);
+    setMonitors((prev) => prev.map((m) => (m.id === monitor.id ? monitor : m)));
+    setAllMonitors(getMonitors());
+  };
+
+  const saveMaintenanceWindow = (window: MaintenanceWindow) => {
+    saveWindowToStorage(window);
+    setMaintenanceWindows(getMaintenanceWindows());
+  };
+
+  const deleteMaintenanceWindow = (id: string) => {
+    deleteWindowFromStorage(id);
+    setMaintenanceWindows(getMaintenanceWindows());
+  };
+
+  // Alarm changes append to the activity log, so both reload together
+  const reloadAlarms = () => {
+    setAlarms(getAlarms());
+    setAlarmEvents(getAlarmEvents());
+  };
+
+  const snoozeAlarm = (alarmId: string, until: Date, reason: string) => {
+    snoozeAlarmInStorage(alarmId, until, reason, getCurrentUser(preferences));
+    reloadAlarms();
+  };
+
+  const acknowledgeAlarm = (alarmId: string) => {
+    acknowledgeAlarmInStorage(alarmId, getCurrentUser(preferences));
+    reloadAlarms();
+  };
+
+  const unacknowledgeAlarm = (alarmId: string) => {
+    unacknowledgeAlarmInStorage(alarmId, getCurrentUser(preferences));
+    reloadAlarms();
+  };
+
+  const assignAlarm = (alarmId: string, assignee: string | undefined) => {
+    assignAlarmInStorage(alarmId, assignee, getCurrentUser(preferences));
+    reloadAlarms();
+  };
+
+  const dismissAlarm = (alarmId: string) => {
+    dismissAlarmInStorage(alarmId, getCurrentUser(preferences));
+    reloadAlarms();
+  };
+
+  const addAlarmComment = (alarmId: string, text: string) => {
+    addCommentToLog(alarmId, getCurrentUser(preferences), text);
+    setAlarmEvents(getAlarmEvents());
+  };
+
+  const applyRecommendation = (alarmId: string, action: string) => {
+    recordAlarmEvent(alarmId, 'RECOMMENDATION_APPLIED', {
+      actor: getCurrentUser(preferences),
+      text: action,
+    });
+    setAlarmEvents(getAlarmEvents());
+  };
+
   const updateOnboarding = (updates: Partial<OnboardingState>) => {
     updateOnboardingInStorage(updates);
     setOnboarding(getOnboardingState());
@@ -293,6 +444,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     const updated = { ...preferences, ...updates };
     savePreferencesToStorage(updated);
     setPreferences(updated);
+    setSimulationSeed(updated.simulationSeed ?? 0);
   };
 
   const refreshData = async () => {
@@ -301,14 +453,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
       // Reload all data from storage
       loadData();
 
-      // Re-evaluate monitors for active campaign if monitoring is enabled
-      if (activeCampaign?.monitoringEnabled) {
-        const campaignMonitors = getMonitorsByCampaign(activeCampaign.id);
-        await evaluateAllMonitors(activeCampaign, campaignMonitors);
-
-        // Reload alarms after evaluation
-        const updatedAlarms = getAlarms();
-        setAlarms(updatedAlarms);
+      // Re-evaluate monitors for every campaign with monitoring on, not just the
+      // one open - the stale-feed check covers them all
+      const monitored = getCampaigns().filter((c) => c.monitoringEnabled);
+      if (monitored.length > 0) {
+        const now = new Date();
+        for (const campaign of monitored) {
+          // Fill in hours the feed reported while the app was closed
+          bulkSaveMetricValues(generateHistoricalData(campaign, now));
+          await evaluateAllMonitors(campaign, getMonitorsByCampaign(campaign.id), now);
+        }
+
+        // Reload monitor states and alarms after evaluation
+        setMonitorStates(getMonitorStates());
+        reloadAlarms();
       }
     } finally {
       setLoading(false);
@@ -324,15 +482,32 @@ export function AppProvider({ children }: { children: ReactNode }) {
     deleteCampaign,
     enableMonitoring,
     setupMonitoring,
+    runScenario,
     monitors,
+    allMonitors,
     monitorStates,
+    updateMonitor,
+    maintenanceWindows,
+    saveMaintenanceWindow,
+    deleteMaintenanceWindow,
     alarms,
     activeAlarms,
+    snoozedAlarms,
     dashboardSummary,
+    snoozeAlarm,
+    acknowledgeAlarm,
+    unacknowledgeAlarm,
+    assignAlarm,
+    dismissAlarm,
+    getAlarmBreakdown,
+    alarmEvents,
+    addAlarmComment,
+    applyRecommendation,
     onboarding,
     updateOnboarding,
     completeWelcome,
     preferences,
+    currentUser: getCurrentUser(preferences),
     updatePreferences,
     loading,
     setLoading,
@@ -20,9 +20,40 @@ import {
   X,
   AlertCircle,
   BarChart3,
+  Wrench,
+  UserCheck,
+  UserPlus,
+  MessageSquare,
+  RotateCcw,
 } from 'lucide-react';
-import { formatRelativeTime, formatCurrency, getSeverityColor } from '@/utils/helpers';
-import type { Alarm, Campaign, Monitor } from '@/types';
+import {
+  formatRelativeTime,
+  formatCurrency,
+  getSeverityColor,
+  getSensitivityIntervalZ,
+  formatSliceLabel,
+  parseSliceKey,
+  formatMetricValue,
+  formatDateTime,
+  formatMinutes,
+  isOpenAlarm,
+} from '@/utils/helpers';
+import { buildForecastChartData } from '@/services/forecast';
+import { formatZonedHour, getCampaignTimezone } from '@/utils/timezone';
+import { describeCompositeRule } from '@/services/composite';
+import { coversMonitor, getWindowOccurrences } from '@/services/maintenance';
+import { getTimeToAcknowledge, getTimeToResolve } from '@/services/response';
+import { describeAlarmEvent, getAlarmActivity } from '@/services/activity';
+import type {
+  Alarm,
+  AlarmEvent,
+  Campaign,
+  ChartDataPoint,
+  DimensionAttribution,
+  MaintenanceWindow,
+  Monitor,
+} from '@/types';
+import { DEFAULT_METRICS } from '@/types';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, ComposedChart } from 'recharts';
 
 interface TabProps {
@@ -46,16 +77,45 @@ function Tab({ active, onClick, children }: TabProps) {
   );
 }
 
+const SNOOZE_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 2, label: '2 hours' },
+  { hours: 4, label: '4 hours' },
+  { hours: 8, label: '8 hours' },
+  { hours: 24, label: '24 hours' },
+];
+
 export function AlarmDetail() {
   const { alarmId } = useParams<{ alarmId: string }>();
   const navigate = useNavigate();
-  const { alarms, campaigns, monitors, updateOnboarding, onboarding } = useApp();
+  const {
+    alarms,
+    campaigns,
+    allMonitors,
+    maintenanceWindows,
+    snoozeAlarm,
+    acknowledgeAlarm,
+    unacknowledgeAlarm,
+    assignAlarm,
+    dismissAlarm,
+    getAlarmBreakdown,
+    alarmEvents,
+    addAlarmComment,
+    applyRecommendation,
+    currentUser,
+    updateOnboarding,
+    onboarding,
+  } = useApp();
 
   const [alarm, setAlarm] = useState<Alarm | null>(null);
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [monitor, setMonitor] = useState<Monitor | null>(null);
-  const [activeTab, setActiveTab] = useState<'device' | 'geo' | 'exchange'>('device');
+  const [activeTab, setActiveTab] = useState<'device' | 'geo' | 'exchange' | 'device|geo'>('device');
   const [loadingAction, setLoadingAction] = useState(false);
+  const [snoozeHours, setSnoozeHours] = useState(2);
+  const [snoozeReason, setSnoozeReason] = useState('');
+  const [assigneeInput, setAssigneeInput] = useState('');
+  const [comment, setComment] = useState('');
 
   useEffect(() => {
     if (alarmId) {
@@ -66,7 +126,7 @@ export function AlarmDetail() {
         const foundCampaign = campaigns.find((c) => c.id === foundAlarm.campaignId);
         setCampaign(foundCampaign || null);
 
-        const foundMonitor = monitors.find((m) => m.id === foundAlarm.monitorId);
+        const foundMonitor = allMonitors.find((m) => m.id === foundAlarm.monitorId);
         setMonitor(foundMonitor || null);
 
         // Mark as viewed
@@ -75,7 +135,7 @@ export function AlarmDetail() {
         }
       }
     }
-  }, [alarmId, alarms, campaigns, monitors, onboarding, updateOnboarding]);
+  }, [alarmId, alarms, campaigns, allMonitors, onboarding, updateOnboarding]);
 
   if (!alarm) {
     return (
@@ -108,9 +168,30 @@ export function AlarmDetail() {
   // If monitor is missing, we'll show alarm details but with limited functionality
 
   const severityColors = getSeverityColor(alarm.severity);
-
-  // Generate mock historical data for the chart
-  const chartData = generateHistoricalChartData(alarm);
+  const isStaleAlarm = alarm.alarmType === 'STALE_DATA';
+
+  // Actuals against the Holt-Winters band; empty until there's enough history to fit.
+  // Hours read in the campaign's reporting timezone.
+  const timeZone = getCampaignTimezone(campaign);
+  const forecastData = monitor
+    ? buildForecastChartData(campaign.id, monitor.metricId, {
+        lookbackHours: 24,
+        horizonHours: 6,
+        z: getSensitivityIntervalZ(monitor.sensitivity),
+        timeZone,
+      })
+    : [];
+  const chartData = toTrendChartData(forecastData, timeZone);
+
+  // Attribution of the change across slices, computed when the alarm fired
+  const breakdown = getAlarmBreakdown(alarm.id);
+  const metricUnit = DEFAULT_METRICS.find((m) => m.id === breakdown?.metricId)?.unit ?? '';
+  const primaryGroup = breakdown?.primaryDriver
+    ? breakdown.groups[breakdown.primaryDriver.dimension]
+    : undefined;
+  const primarySlice = primaryGroup?.slices.find(
+    (slice) => slice.sliceKey === breakdown?.primaryDriver?.sliceKey
+  );
 
   const handleBack = () => {
     navigate(-1);
@@ -122,6 +203,9 @@ export function AlarmDetail() {
     await new Promise((resolve) => setTimeout(resolve, 1500));
     setLoadingAction(false);
 
+    const recommendation = alarm.insights?.recommendations[recIndex];
+    if (recommendation) applyRecommendation(alarm.id, recommendation.action);
+
     if (!onboarding.hasAppliedRecommendation) {
       updateOnboarding({ hasAppliedRecommendation: true });
     }
@@ -132,20 +216,33 @@ export function AlarmDetail() {
   const handleDismissAlarm = async () => {
     if (!window.confirm('Are you sure you want to dismiss this alarm?')) return;
 
-    setLoadingAction(true);
-    // In real app, would update alarm state
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setLoadingAction(false);
+    dismissAlarm(alarm.id);
     navigate('/');
   };
 
-  const handleSnooze = async () => {
-    setLoadingAction(true);
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setLoadingAction(false);
-    alert('Alarm snoozed for 2 hours');
+  const handleAddComment = () => {
+    if (!comment.trim()) return;
+    addAlarmComment(alarm.id, comment.trim());
+    setComment('');
+  };
+
+  const handleSnooze = () => {
+    snoozeAlarm(
+      alarm.id,
+      new Date(Date.now() + snoozeHours * 60 * 60 * 1000),
+      snoozeReason.trim() || 'No reason given'
+    );
+    setSnoozeReason('');
   };
 
+  const handleAssign = (assignee: string) => {
+    assignAlarm(alarm.id, assignee.trim() || undefined);
+    setAssigneeInput('');
+  };
+
+  const timeToAcknowledge = getTimeToAcknowledge(alarm);
+  const timeToResolve = getTimeToResolve(alarm);
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Back Button */}
@@ -179,16 +276,35 @@ export function AlarmDetail() {
 
         {/* Status Badges */}
         <div className="flex items-center gap-2">
-          <Badge variant={alarm.state === 'ACTIVE' ? 'danger' : alarm.state === 'RESOLVED' ? 'success' : 'default'}>
-            {alarm.state}
-          </Badge>
+          <Badge state={alarm.state}>{alarm.state}</Badge>
+          {alarm.alarmType === 'STALE_DATA' && <Badge variant="warning">STALE DATA</Badge>}
+          {alarm.assignee && <Badge variant="info">Assigned to {alarm.assignee}</Badge>}
+          {(alarm.reopenCount ?? 0) > 0 && (
+            <Badge variant="danger">
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Re-opened {alarm.reopenCount === 1 ? 'once' : `${alarm.reopenCount} times`}
+            </Badge>
+          )}
           {alarm.estimatedImpactUSD && (
             <Badge variant="warning">
               <DollarSign className="w-3 h-3 mr-1" />
               Est. Loss: {formatCurrency(alarm.estimatedImpactUSD)}
             </Badge>
           )}
+          {alarm.affectedSlices?.map((sliceKey) => (
+            <Badge key={sliceKey} variant="danger">
+              {formatSliceLabel(parseSliceKey(sliceKey))}
+            </Badge>
+          ))}
         </div>
+        {(timeToAcknowledge !== undefined || timeToResolve !== undefined) && (
+          <p className="text-sm text-gray-600 mt-3">
+            {timeToAcknowledge !== undefined &&
+              `Acknowledged by ${alarm.acknowledgedBy} after ${formatMinutes(timeToAcknowledge)}`}
+            {timeToAcknowledge !== undefined && timeToResolve !== undefined && ' • '}
+            {timeToResolve !== undefined && `Resolved after ${formatMinutes(timeToResolve)}`}
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -203,55 +319,69 @@ export function AlarmDetail() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <ComposedChart data={chartData}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                    <XAxis dataKey="time" tick={{ fontSize: 12 }} />
-                    <YAxis tick={{ fontSize: 12 }} />
-                    <Tooltip 
-                      contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px' }}
-                      labelStyle={{ fontWeight: 'bold' }}
-                    />
-                    <Legend />
-                    <Area
-                      type="monotone"
-                      dataKey="expectedRange"
-                      fill="#10b98114"
-                      stroke="none"
-                      name="Expected Range"
-                    />
-                    <Line
-                      type="monotone"
-                      dataKey="actual"
-                      stroke="#ef4444"
-                      strokeWidth={2}
-                      dot={{ fill: '#ef4444', r: 3 }}
-                      name="Actual Value"
-                    />
-                    <Line
-                      type="monotone"
-                      dataKey="expected"
-                      stroke="#10b981"
-                      strokeWidth={2}
-                      strokeDasharray="5 5"
-                      dot={false}
-                      name="Expected Value"
-                    />
-                  </ComposedChart>
-                </ResponsiveContainer>
-              </div>
+              {chartData.length === 0 ? (
+                <div className="h-80 flex flex-col items-center justify-center text-center bg-gray-50 rounded-lg">
+                  <BarChart3 className="w-8 h-8 text-gray-300 mb-2" />
+                  <p className="text-sm font-medium text-gray-700">Not enough history yet</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    The trend and forecast band appear once this metric has two days of data
+                  </p>
+                </div>
+              ) : (
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="time" tick={{ fontSize: 12 }} />
+                      <YAxis tick={{ fontSize: 12 }} />
+                      <Tooltip 
+                        contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px' }}
+                        labelStyle={{ fontWeight: 'bold' }}
+                      />
+                      <Legend />
+                      <Area
+                        type="monotone"
+                        dataKey="expectedRange"
+                        fill="#10b98114"
+                        stroke="none"
+                        name="Expected Range"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="actual"
+                        stroke="#ef4444"
+                        strokeWidth={2}
+                        dot={{ fill: '#ef4444', r: 3 }}
+                        name="Actual Value"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="expected"
+                        stroke="#10b981"
+                        strokeWidth={2}
+                        strokeDasharray="5 5"
+                        dot={false}
+                        name="Expected Value"
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
 
               {/* Current Metrics Summary */}
               <div className="grid grid-cols-3 gap-4 mt-6">
                 <div className="bg-red-50 rounded-lg p-4">
-                  <p className="text-sm text-gray-600 mb-1">Current Value</p>
+                  <p className="text-sm text-gray-600 mb-1">
+                    {isStaleAlarm ? 'Hours Since Last Data' : 'Current Value'}
+                  </p>
                   <p className="text-2xl font-bold text-red-600">
                     {alarm.currentValue.toFixed(2)}
                   </p>
                 </div>
                 <div className="bg-green-50 rounded-lg p-4">
-                  <p className="text-sm text-gray-600 mb-1">Expected Value</p>
+                  <p className="text-sm text-gray-600 mb-1">
+                    {isStaleAlarm ? 'Usual Gap (Hours)' : 'Expected Value'}
+                  </p>
                   <p className="text-2xl font-bold text-green-600">
                     {alarm.expectedValue.toFixed(2)}
                   </p>
@@ -262,17 +392,78 @@ export function AlarmDetail() {
                     {alarm.deviationPercent > 0 ? '+' : ''}
                     {alarm.deviationPercent.toFixed(1)}%
                   </p>
+                  {alarm.peakDeviationPercent !== undefined &&
+                    alarm.peakDeviationPercent !== alarm.deviationPercent && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Peak {formatSignedPercent(alarm.peakDeviationPercent)}
+                      </p>
+                    )}
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Rule Conditions (multi-metric composite monitors) */}
+          {alarm.conditionResults && alarm.conditionResults.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Rule Conditions</CardTitle>
+                {monitor?.compositeRule && (
+                  <p className="text-sm text-gray-600 mt-1 font-mono">
+                    {describeCompositeRule(monitor.compositeRule)}
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {alarm.conditionResults.map((condition) => {
+                    const holds = condition.met !== condition.negated;
+                    const unit = DEFAULT_METRICS.find((m) => m.id === condition.metricId)?.unit ?? '';
+                    return (
+                      <div
+                        key={`${condition.negated ? 'not:' : ''}${condition.description}`}
+                        className={`flex items-center justify-between p-3 rounded-lg border ${
+                          holds ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center">
+                          {holds ? (
+                            <CheckCircle className="w-5 h-5 mr-3 text-red-600" />
+                          ) : (
+                            <X className="w-5 h-5 mr-3 text-gray-400" />
+                          )}
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {condition.negated ? `NOT ${condition.description}` : condition.description}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {formatMetricValue(condition.currentValue, unit)} vs{' '}
+                              {formatMetricValue(condition.expectedValue, unit)} expected
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <p className={`font-semibold ${holds ? 'text-red-600' : 'text-gray-600'}`}>
+                            {formatSignedPercent(condition.deviationPercent)}
+                          </p>
+                          <p className="text-xs text-gray-500">{holds ? 'True' : 'False'}</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Dimensional Breakdown */}
           <Card>
             <CardHeader>
               <CardTitle>Dimensional Breakdown</CardTitle>
               <p className="text-sm text-gray-600 mt-1">
-                Analyze performance across different dimensions
+                {breakdown
+                  ? `Last ${breakdown.windowHours}h vs the same hours on previous days, split into each slice's contribution`
+                  : 'Analyze performance across different dimensions'}
               </p>
             </CardHeader>
             <CardContent>
@@ -288,70 +479,78 @@ export function AlarmDetail() {
                   <Tab active={activeTab === 'exchange'} onClick={() => setActiveTab('exchange')}>
                     By Exchange
                   </Tab>
+                  {breakdown?.groups['device|geo'] && (
+                    <Tab active={activeTab === 'device|geo'} onClick={() => setActiveTab('device|geo')}>
+                      By Geo × Device
+                    </Tab>
+                  )}
                 </div>
               </div>
 
               {/* Tab Content */}
-              {activeTab === 'device' && (
-                <DimensionalBreakdownView
-                  title="Device Performance"
-                  data={[
-                    { name: 'Desktop', value: 2.8, expected: 2.5, status: 'OK', traffic: '35%' },
-                    { name: 'Mobile', value: 0.8, expected: 2.0, status: 'ALARM', traffic: '45%' },
-                    { name: 'Tablet', value: 2.1, expected: 1.8, status: 'OK', traffic: '20%' },
-                  ]}
-                  primaryIssue="Mobile"
-                />
-              )}
-
-              {activeTab === 'geo' && (
+              {breakdown?.groups[activeTab] ? (
                 <DimensionalBreakdownView
-                  title="Geographic Performance"
-                  data={[
-                    { name: 'US', value: 2.3, expected: 2.2, status: 'OK', traffic: '40%' },
-                    { name: 'UK', value: 0.9, expected: 2.1, status: 'ALARM', traffic: '30%' },
-                    { name: 'CA', value: 2.4, expected: 2.0, status: 'OK', traffic: '20%' },
-                    { name: 'AU', value: 2.2, expected: 2.0, status: 'OK', traffic: '10%' },
-                  ]}
-                  primaryIssue="UK"
-                />
-              )}
-
-              {activeTab === 'exchange' && (
-                <DimensionalBreakdownView
-                  title="Exchange Performance"
-                  data={[
-                    { name: 'Google AdX', value: 2.5, expected: 2.3, status: 'OK', traffic: '50%' },
-                    { name: 'Media.Net', value: 0.5, expected: 2.0, status: 'ALARM', traffic: '30%' },
-                    { name: 'Xandr', value: 2.3, expected: 2.1, status: 'OK', traffic: '20%' },
-                  ]}
-                  primaryIssue="Media.Net"
+                  group={breakdown.groups[activeTab]}
+                  unit={metricUnit}
+                  isRatio={breakdown.isRatio}
+                  affectedSlices={alarm.affectedSlices}
+                  primaryIssue={breakdown.primaryDriver?.sliceKey}
                 />
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  No {activeTab}-level data is recorded for this metric.
+                </p>
               )}
 
               {/* Cross-Dimensional Analysis */}
-              {alarm.dimensionalBreakdown && (
+              {breakdown && primarySlice && (
                 <div className="mt-6 p-4 bg-red-50 border-l-4 border-red-600 rounded-lg">
                   <div className="flex items-start gap-3">
                     <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
                     <div>
                       <h4 className="font-semibold text-red-900 mb-2">Primary Issue Identified</h4>
                       <p className="text-sm text-red-800 mb-3">
-                        UK Mobile traffic on Media.Net exchange is driving 90% of the overall CTR drop.
+                        {formatSliceLabel(primarySlice.dimensions)} is driving{' '}
+                        {primarySlice.contributionPercent.toFixed(0)}% of the overall{' '}
+                        {alarm.metricName} {primaryGroup && primaryGroup.totalChange < 0 ? 'drop' : 'rise'}
+                        {breakdown.isRatio &&
+                          (Math.abs(primarySlice.mixEffect) > Math.abs(primarySlice.rateEffect)
+                            ? ', mostly through a shift in traffic mix.'
+                            : ', mostly through its own rate changing.')}
+                        {!breakdown.isRatio && '.'}
                       </p>
                       <div className="grid grid-cols-2 gap-3 text-sm">
                         <div>
-                          <span className="text-red-700 font-medium">CTR:</span> 0.3% (Expected: 2.2%)
-                        </div>
-                        <div>
-                          <span className="text-red-700 font-medium">Deviation:</span> -86%
+                          <span className="text-red-700 font-medium">{alarm.metricName}:</span>{' '}
+                          {formatMetricValue(primarySlice.currentValue, metricUnit)} (Expected:{' '}
+                          {formatMetricValue(primarySlice.expectedValue, metricUnit)})
                         </div>
                         <div>
-                          <span className="text-red-700 font-medium">Traffic Share:</span> 45%
+                          <span className="text-red-700 font-medium">Deviation:</span>{' '}
+                          {formatSignedPercent(
+                            primarySlice.expectedValue !== 0
+                              ? ((primarySlice.currentValue - primarySlice.expectedValue) /
+                                  primarySlice.expectedValue) *
+                                  100
+                              : 0
+                          )}
                         </div>
                         <div>
-                          <span className="text-red-700 font-medium">Est. Waste:</span> $2,880/day
+                          <span className="text-red-700 font-medium">Traffic Share:</span>{' '}
+                          {(primarySlice.currentShare * 100).toFixed(0)}% (was{' '}
+                          {(primarySlice.baselineShare * 100).toFixed(0)}%)
                         </div>
+                        {alarm.estimatedImpactUSD !== undefined && (
+                          <div>
+                            <span className="text-red-700 font-medium">Est. Waste:</span>{' '}
+                            {formatCurrency(
+                              (alarm.estimatedImpactUSD *
+                                Math.min(Math.max(primarySlice.contributionPercent, 0), 100)) /
+                                100
+                            )}
+                            /day
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -450,10 +649,91 @@ export function AlarmDetail() {
               <CardTitle>Quick Actions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <Button variant="outline" fullWidth onClick={handleSnooze} disabled={loadingAction}>
-                <Clock className="w-4 h-4 mr-2" />
-                Snooze for 2 Hours
-              </Button>
+              {alarm.state === 'ACTIVE' && (
+                <Button fullWidth onClick={() => acknowledgeAlarm(alarm.id)}>
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  Acknowledge
+                </Button>
+              )}
+              {alarm.state === 'ACKNOWLEDGED' && (
+                <Button variant="outline" fullWidth onClick={() => unacknowledgeAlarm(alarm.id)}>
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  Unacknowledge ({alarm.acknowledgedBy})
+                </Button>
+              )}
+              {(isOpenAlarm(alarm) || alarm.state === 'SNOOZED') && (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={assigneeInput}
+                      onChange={(e) => setAssigneeInput(e.target.value)}
+                      placeholder={alarm.assignee ?? 'Assignee'}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => handleAssign(assigneeInput)}
+                      disabled={!assigneeInput.trim()}
+                    >
+                      Assign
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    {alarm.assignee !== currentUser && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAssign(currentUser)}>
+                        <UserPlus className="w-4 h-4 mr-1" />
+                        Assign to me
+                      </Button>
+                    )}
+                    {alarm.assignee && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAssign('')}>
+                        Unassign
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {alarm.state === 'SNOOZED' && alarm.snoozedUntil ? (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                  <p className="font-medium text-yellow-900">
+                    Snoozed until {formatDateTime(alarm.snoozedUntil)}
+                  </p>
+                  <p className="text-yellow-800 mt-1">{alarm.snoozeReason}</p>
+                  <p className="text-xs text-yellow-700 mt-1">
+                    Comes back if the monitor is still in alarm then, or resolves
+                  </p>
+                </div>
+              ) : (
+                isOpenAlarm(alarm) && (
+                  <div className="space-y-2">
+                    <div className="flex gap-2">
+                      <select
+                        value={snoozeHours}
+                        onChange={(e) => setSnoozeHours(Number(e.target.value))}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SNOOZE_OPTIONS.map((option) => (
+                          <option key={option.hours} value={option.hours}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={snoozeReason}
+                        onChange={(e) => setSnoozeReason(e.target.value)}
+                        placeholder="Reason (optional)"
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <Button variant="outline" fullWidth onClick={handleSnooze} disabled={loadingAction}>
+                      <Clock className="w-4 h-4 mr-2" />
+                      Snooze Alarm
+                    </Button>
+                  </div>
+                )
+              )}
               <Button variant="outline" fullWidth onClick={handleDismissAlarm} disabled={loadingAction}>
                 <X className="w-4 h-4 mr-2" />
                 Dismiss Alarm
@@ -464,31 +744,44 @@ export function AlarmDetail() {
             </CardContent>
           </Card>
 
-          {/* Action Timeline */}
+          {/* Activity Timeline */}
           <Card>
             <CardHeader>
-              <CardTitle>Action Timeline</CardTitle>
+              <CardTitle>Activity Timeline</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                <TimelineItem
-                  time={alarm.triggeredAt}
-                  title="Alarm Triggered"
-                  description="HIGH severity detected"
-                  icon={<AlertCircle className="w-4 h-4 text-red-500" />}
-                />
-                <TimelineItem
-                  time={alarm.triggeredAt}
-                  title="Email Sent"
-                  description="Notification sent to user"
-                  icon={<CheckCircle className="w-4 h-4 text-green-500" />}
-                />
-                <TimelineItem
-                  time={alarm.triggeredAt}
-                  title="Push Notification"
-                  description="Mobile alert delivered"
-                  icon={<CheckCircle className="w-4 h-4 text-green-500" />}
+                {getTimelineEntries(alarm, alarmEvents, monitor ? maintenanceWindows : [], monitor).map(
+                  (entry) => (
+                    <TimelineItem
+                      key={entry.key}
+                      time={entry.time}
+                      title={entry.title}
+                      description={
+                        entry.mentions ? (
+                          <CommentText text={entry.description} mentions={entry.mentions} />
+                        ) : (
+                          entry.description
+                        )
+                      }
+                      icon={entry.icon}
+                    />
+                  )
+                )}
+              </div>
+
+              <div className="mt-6 pt-4 border-t border-gray-200 space-y-2">
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  placeholder="Add a note for whoever picks this up next - @mention teammates"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
+                <Button size="sm" onClick={handleAddComment} disabled={!comment.trim()}>
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Comment
+                </Button>
               </div>
             </CardContent>
           </Card>
@@ -500,75 +793,101 @@ export function AlarmDetail() {
 
 // Helper Components
 
-interface DimensionalData {
-  name: string;
-  value: number;
-  expected: number;
-  status: 'OK' | 'ALARM';
-  traffic: string;
-}
-
 interface DimensionalBreakdownViewProps {
-  title: string;
-  data: DimensionalData[];
+  group: DimensionAttribution;
+  unit: string;
+  isRatio: boolean;
+  affectedSlices?: string[];
   primaryIssue?: string;
 }
 
-function DimensionalBreakdownView({ title, data, primaryIssue }: DimensionalBreakdownViewProps) {
+function formatSignedPercent(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(0)}%`;
+}
+
+function DimensionalBreakdownView({
+  group,
+  unit,
+  isRatio,
+  affectedSlices,
+  primaryIssue,
+}: DimensionalBreakdownViewProps) {
   return (
     <div className="space-y-4">
-      {data.map((item) => {
-        const deviation = ((item.value - item.expected) / item.expected) * 100;
-        const isIssue = item.status === 'ALARM';
+      {group.slices.map((item) => {
+        const deviation =
+          item.expectedValue !== 0
+            ? ((item.currentValue - item.expectedValue) / item.expectedValue) * 100
+            : 0;
+        const isIssue = affectedSlices?.includes(item.sliceKey) || item.contributionPercent >= 50;
 
         return (
           <div
-            key={item.name}
+            key={item.sliceKey}
             className={`border rounded-lg p-4 ${
               isIssue ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-white'
             }`}
           >
             <div className="flex items-center justify-between mb-3">
               <div>
-                <h4 className="font-semibold text-gray-900">{item.name}</h4>
-                <p className="text-xs text-gray-500">Traffic: {item.traffic}</p>
+                <h4 className="font-semibold text-gray-900">{formatSliceLabel(item.dimensions)}</h4>
+                <p className="text-xs text-gray-500">
+                  Traffic: {(item.currentShare * 100).toFixed(0)}% (was{' '}
+                  {(item.baselineShare * 100).toFixed(0)}%)
+                </p>
               </div>
               <Badge variant={isIssue ? 'danger' : 'success'}>
                 {isIssue ? 'ALARM' : 'OK'}
               </Badge>
             </div>
 
-            <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="grid grid-cols-4 gap-3 text-sm">
               <div>
                 <p className="text-gray-600 text-xs">Current</p>
                 <p className={`font-bold ${isIssue ? 'text-red-600' : 'text-gray-900'}`}>
-                  {item.value.toFixed(2)}%
+                  {formatMetricValue(item.currentValue, unit)}
                 </p>
               </div>
               <div>
                 <p className="text-gray-600 text-xs">Expected</p>
-                <p className="font-bold text-gray-900">{item.expected.toFixed(2)}%</p>
+                <p className="font-bold text-gray-900">{formatMetricValue(item.expectedValue, unit)}</p>
               </div>
               <div>
                 <p className="text-gray-600 text-xs">Deviation</p>
                 <p className={`font-bold ${deviation < -20 ? 'text-red-600' : 'text-gray-900'}`}>
-                  {deviation > 0 ? '+' : ''}
-                  {deviation.toFixed(0)}%
+                  {formatSignedPercent(deviation)}
                 </p>
               </div>
+              <div>
+                <p className="text-gray-600 text-xs">Share of Change</p>
+                <p className="font-bold text-gray-900">{formatSignedPercent(item.contributionPercent)}</p>
+              </div>
             </div>
 
+            {isRatio && group.totalChange !== 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                Rate effect {formatSignedPercent((item.rateEffect / group.totalChange) * 100)} · Mix
+                effect {formatSignedPercent((item.mixEffect / group.totalChange) * 100)} of the change
+              </p>
+            )}
+
             {/* Progress Bar */}
             <div className="mt-3">
               <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
                 <div
                   className={`h-full ${isIssue ? 'bg-red-500' : 'bg-green-500'}`}
-                  style={{ width: `${Math.min((item.value / item.expected) * 100, 100)}%` }}
+                  style={{
+                    width: `${
+                      item.expectedValue > 0
+                        ? Math.min((item.currentValue / item.expectedValue) * 100, 100)
+                        : 0
+                    }%`,
+                  }}
                 />
               </div>
             </div>
 
-            {item.name === primaryIssue && (
+            {item.sliceKey === primaryIssue && (
               <div className="mt-3 flex items-center text-xs text-red-700 font-medium">
                 <AlertCircle className="w-3 h-3 mr-1" />
                 PRIMARY ISSUE
@@ -584,7 +903,7 @@ function DimensionalBreakdownView({ title, data, primaryIssue }: DimensionalBrea
 interface TimelineItemProps {
   time: string;
   title: string;
-  description: string;
+  description: React.ReactNode;
   icon: React.ReactNode;
 }
 
@@ -597,38 +916,97 @@ function TimelineItem({ time, title, description, icon }: TimelineItemProps) {
       <div className="flex-1">
         <h5 className="font-semibold text-sm text-gray-900">{title}</h5>
         <p className="text-xs text-gray-600">{description}</p>
-        <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(time)}</p>
+        <p className="text-xs text-gray-400 mt-1" title={formatDateTime(time)}>
+          {formatRelativeTime(time)}
+        </p>
       </div>
     </div>
   );
 }
 
-// Helper function to generate mock historical data
-function generateHistoricalChartData(alarm: Alarm) {
-  const data = [];
-  const now = new Date();
-  const hours = 24;
-
-  for (let i = hours; i >= 0; i--) {
-    const time = new Date(now.getTime() - i * 60 * 60 * 1000);
-    const hourLabel = time.getHours() + ':00';
-
-    // Simulate data with anomaly starting 6 hours ago
-    const isAnomaly = i <= 6;
-    const actual = isAnomaly
-      ? alarm.currentValue + (Math.random() - 0.5) * 0.2
-      : alarm.expectedValue + (Math.random() - 0.5) * 0.3;
-    
-    const expected = alarm.expectedValue + (Math.random() - 0.5) * 0.1;
-    const expectedRange = expected * 1.25; // Upper bound of expected range
-
-    data.push({
-      time: hourLabel,
-      actual: parseFloat(actual.toFixed(2)),
-      expected: parseFloat(expected.toFixed(2)),
-      expectedRange: parseFloat(expectedRange.toFixed(2)),
-    });
-  }
+// Comment text with its @mentions picked out
+function CommentText({ text, mentions }: { text: string; mentions: string[] }) {
+  return (
+    <>
+      {text.split(/(\s+)/).map((word, index) =>
+        word.startsWith('@') && mentions.includes(word.slice(1).replace(/[.,;:!?]+$/, '')) ? (
+          <span key={index} className="font-medium text-blue-600">
+            {word}
+          </span>
+        ) : (
+          word
+        )
+      )}
+    </>
+  );
+}
+
+const EVENT_ICONS: Record<AlarmEvent['type'], React.ReactNode> = {
+  TRIGGERED: <AlertCircle className="w-4 h-4 text-red-500" />,
+  VALUE_UPDATED: <BarChart3 className="w-4 h-4 text-gray-500" />,
+  SEVERITY_CHANGED: <TrendingUp className="w-4 h-4 text-red-500" />,
+  ACKNOWLEDGED: <UserCheck className="w-4 h-4 text-blue-500" />,
+  UNACKNOWLEDGED: <UserCheck className="w-4 h-4 text-gray-400" />,
+  ASSIGNED: <UserPlus className="w-4 h-4 text-blue-500" />,
+  SNOOZED: <Clock className="w-4 h-4 text-amber-500" />,
+  WOKEN: <Clock className="w-4 h-4 text-gray-500" />,
+  COMMENT: <MessageSquare className="w-4 h-4 text-gray-500" />,
+  RECOMMENDATION_APPLIED: <Lightbulb className="w-4 h-4 text-blue-500" />,
+  RESOLVED: <CheckCircle className="w-4 h-4 text-green-500" />,
+  REOPENED: <RotateCcw className="w-4 h-4 text-red-500" />,
+  DISMISSED: <X className="w-4 h-4 text-gray-500" />,
+};
+
+// The alarm's activity log merged with the maintenance windows around it, oldest first
+function getTimelineEntries(
+  alarm: Alarm,
+  events: AlarmEvent[],
+  windows: MaintenanceWindow[],
+  monitor: Monitor | null
+) {
+  const activity = getAlarmActivity(alarm, events).map((event) => ({
+    key: event.id,
+    time: event.at,
+    ...describeAlarmEvent(event, alarm),
+    icon: EVENT_ICONS[event.type],
+    mentions: event.type === 'COMMENT' ? event.mentions ?? [] : undefined,
+  }));
+  const maintenance = monitor
+    ? getMaintenanceTimeline(windows, monitor, alarm).map((entry) => ({
+        key: `${entry.window.id}-${entry.start}`,
+        time: new Date(entry.start).toISOString(),
+        title: `Maintenance: ${entry.window.reason}`,
+        description: `Alarms held back ${formatDateTime(new Date(entry.start))} – ${
+          entry.end === Infinity ? 'until ended' : formatDateTime(new Date(entry.end))
+        }`,
+        icon: <Wrench className="w-4 h-4 text-amber-500" />,
+        mentions: undefined,
+      }))
+    : [];
+  return [...activity, ...maintenance].sort((a, b) => a.time.localeCompare(b.time));
+}
+
+// Maintenance windows over the alarm's monitor from a day before it fired until it resolved
+function getMaintenanceTimeline(windows: MaintenanceWindow[], monitor: Monitor, alarm: Alarm) {
+  const from = new Date(alarm.triggeredAt).getTime() - 24 * 60 * 60 * 1000;
+  const to = alarm.resolvedAt ? new Date(alarm.resolvedAt).getTime() : Date.now();
+  return windows
+    .filter((window) => coversMonitor(window, monitor))
+    .flatMap((window) =>
+      getWindowOccurrences(window, from, to).map((occurrence) => ({ window, ...occurrence }))
+    )
+    .sort((a, b) => a.start - b.start);
+}
 
-  return data;
+// Map forecast chart points to the trend chart's row shape
+function toTrendChartData(points: ChartDataPoint[], timeZone: string) {
+  return points.map((point) => ({
+    time: formatZonedHour(new Date(point.timestamp), timeZone),
+    actual: point.value !== undefined ? parseFloat(point.value.toFixed(2)) : undefined,
+    expected: point.expected !== undefined ? parseFloat(point.expected.toFixed(2)) : undefined,
+    expectedRange: [
+      parseFloat((point.lowerBound ?? 0).toFixed(2)),
+      parseFloat((point.upperBound ?? 0).toFixed(2)),
+    ],
+  }));
 }
@@ -9,6 +9,10 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { BacktestCompareModal } from '@/components/campaign/BacktestCompareModal';
+import { CalendarCard } from '@/components/campaign/CalendarCard';
+import { CompositeRuleEditor } from '@/components/campaign/CompositeRuleEditor';
+import { ScenarioCard } from '@/components/campaign/ScenarioCard';
 import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
 import {
   ArrowLeft,
@@ -25,13 +29,91 @@ import {
   BarChart3,
   Target,
   Trash2,
+  History,
 } from 'lucide-react';
-import { formatRelativeTime, formatCurrency, getSeverityColor } from '@/utils/helpers';
-import type { Campaign, Monitor, Alarm, MonitorStateData } from '@/types';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import {
+  formatRelativeTime,
+  formatDateTime,
+  formatCurrency,
+  getSeverityColor,
+  getSensitivityIntervalZ,
+  isOpenAlarm,
+} from '@/utils/helpers';
+import { buildForecastChartData } from '@/services/forecast';
+import { getAlarmPolicy, getMonitorDirection, getVolumeGuard } from '@/services/anomaly';
+import { describeCompositeRule, validateCompositeRule } from '@/services/composite';
+import { buildPacingForecast } from '@/services/pacing';
+import { getCampaignSeed } from '@/services/simulation';
+import {
+  formatZonedClock,
+  formatZonedDayTime,
+  getCampaignTimezone,
+  TIMEZONE_OPTIONS,
+} from '@/utils/timezone';
+import type {
+  AlarmPolicy,
+  CalendarMode,
+  Campaign,
+  Monitor,
+  Alarm,
+  MonitorStateData,
+  MonitorDirection,
+  PacingStatus,
+  Scenario,
+  Sensitivity,
+} from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, Area, ComposedChart } from 'recharts';
 
 type TabType = 'overview' | 'monitors' | 'performance' | 'history' | 'settings';
 
+const DIRECTION_OPTIONS: Array<{ value: MonitorDirection; label: string; description: string }> = [
+  { value: 'UP', label: 'Increases only', description: 'Alert when the metric rises above expected' },
+  { value: 'DOWN', label: 'Decreases only', description: 'Alert when the metric falls below expected' },
+  { value: 'BOTH', label: 'Both directions', description: 'Alert on any unusual movement' },
+];
+
+const CALENDAR_MODE_OPTIONS: Array<{ value: CalendarMode; label: string; description: string }> = [
+  {
+    value: 'ADJUST',
+    label: 'Adjust expectations',
+    description: 'Expect the traffic the event brings, e.g. a Black Friday spike',
+  },
+  { value: 'IGNORE', label: "Don't alarm", description: 'Hold the current verdict until the event is over' },
+  {
+    value: 'TIGHTEN',
+    label: 'Tighten threshold',
+    description: 'Judge one sensitivity stricter, e.g. on a promo launch',
+  },
+];
+
+function getMetricName(metricId: string): string {
+  return DEFAULT_METRICS.find((m) => m.id === metricId)?.name.toLowerCase() ?? metricId;
+}
+
+const ALARM_POLICY_FIELDS: Array<{
+  key: keyof AlarmPolicy;
+  label: string;
+  hint: string;
+  scale?: number; // Display multiplier (ratios are edited as %)
+}> = [
+  {
+    key: 'recoveryRatio',
+    label: 'Recovery threshold (%)',
+    hint: 'Of the alarm threshold the metric must fall back inside',
+    scale: 100,
+  },
+  { key: 'minBreachMinutes', label: 'Minimum breach (min)', hint: 'Time in breach before alarming' },
+  { key: 'cooldownMinutes', label: 'Cooldown (min)', hint: 'After recovering, before alarming again' },
+  { key: 'flapThreshold', label: 'Flap limit (changes)', hint: 'State changes that mark the monitor unstable' },
+  { key: 'flapWindowMinutes', label: 'Flap window (min)', hint: 'Window the flap limit is counted over' },
+  {
+    key: 'reopenWindowMinutes',
+    label: 'Re-open window (min)',
+    hint: 'Breaching again this soon after auto-resolving re-opens the same alarm',
+  },
+];
+
 interface TabProps {
   active: boolean;
   onClick: () => void;
@@ -56,7 +138,8 @@ function Tab({ active, onClick, children }: TabProps) {
 export function CampaignDetail() {
   const { campaignId } = useParams<{ campaignId: string }>();
   const navigate = useNavigate();
-  const { campaigns, monitors, monitorStates, alarms, updateCampaign, deleteCampaign } = useApp();
+  const { campaigns, monitors, monitorStates, alarms, updateCampaign, deleteCampaign, updateMonitor, runScenario } =
+    useApp();
 
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [campaignMonitors, setCampaignMonitors] = useState<Monitor[]>([]);
@@ -109,12 +192,24 @@ export function CampaignDetail() {
     setCampaign(updated);
   };
 
+  const ruleErrors = selectedMonitor?.compositeRule
+    ? validateCompositeRule(selectedMonitor.compositeRule)
+    : [];
+
+  const handleSaveMonitor = () => {
+    if (ruleErrors.length > 0) return;
+    if (selectedMonitor) {
+      updateMonitor(selectedMonitor);
+    }
+    setSelectedMonitor(null);
+  };
+
   const handleDeleteCampaign = () => {
     deleteCampaign(campaign.id);
     navigate('/');
   };
 
-  const activeAlarms = campaignAlarms.filter((a) => a.state === 'ACTIVE');
+  const activeAlarms = campaignAlarms.filter(isOpenAlarm);
   const resolvedAlarms = campaignAlarms.filter((a) => a.state === 'RESOLVED');
 
   // Calculate monitor health summary
@@ -228,6 +323,7 @@ export function CampaignDetail() {
         <SettingsTab
           campaign={campaign}
           onUpdate={updateCampaign}
+          onRunScenario={(scenario) => runScenario(campaign.id, scenario)}
           onDelete={() => setShowDeleteConfirm(true)}
         />
       )}
@@ -248,7 +344,9 @@ export function CampaignDetail() {
                   <input
                     type="checkbox"
                     checked={selectedMonitor.enabled}
-                    onChange={() => {}}
+                    onChange={(e) =>
+                      setSelectedMonitor({ ...selectedMonitor, enabled: e.target.checked })
+                    }
                     className="w-5 h-5 text-blue-600 rounded focus:ring-blue-500"
                   />
                   <span className="text-sm text-gray-600">
@@ -269,28 +367,154 @@ export function CampaignDetail() {
                         name="sensitivity"
                         value={level}
                         checked={selectedMonitor.sensitivity === level}
-                        onChange={() => {}}
+                        onChange={() =>
+                          setSelectedMonitor({ ...selectedMonitor, sensitivity: level as Sensitivity })
+                        }
                         className="w-4 h-4 text-blue-600"
                       />
                       <div>
                         <div className="font-medium text-gray-900">{level}</div>
                         <div className="text-xs text-gray-500">
-                          {level === 'Strict' && 'Alert on ±15% deviation'}
-                          {level === 'Balanced' && 'Alert on ±25% deviation'}
-                          {level === 'Loose' && 'Alert on ±40% deviation'}
+                          {level === 'Strict' && 'Alert beyond 2.5σ of normal variation (±15% until history builds)'}
+                          {level === 'Balanced' && 'Alert beyond 3.5σ of normal variation (±25% until history builds)'}
+                          {level === 'Loose' && 'Alert beyond 5σ of normal variation (±40% until history builds)'}
                         </div>
                       </div>
                     </label>
                   ))}
                 </div>
               </div>
+
+              {getVolumeGuard(selectedMonitor) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Minimum Volume ({getMetricName(getVolumeGuard(selectedMonitor)!.metricId)})
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={getVolumeGuard(selectedMonitor)!.minVolume}
+                    onChange={(e) =>
+                      setSelectedMonitor({ ...selectedMonitor, minVolume: Number(e.target.value) })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Below this the ratio is too noisy to judge and shows as insufficient data
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Event Days
+                </label>
+                <div className="space-y-2">
+                  {CALENDAR_MODE_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="radio"
+                        name="calendarMode"
+                        value={option.value}
+                        checked={(selectedMonitor.calendarMode ?? 'ADJUST') === option.value}
+                        onChange={() => setSelectedMonitor({ ...selectedMonitor, calendarMode: option.value })}
+                        className="w-4 h-4 text-blue-600"
+                      />
+                      <div>
+                        <div className="font-medium text-gray-900">{option.label}</div>
+                        <div className="text-xs text-gray-500">{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Alarm Stability
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  {ALARM_POLICY_FIELDS.map((field) => (
+                    <div key={field.key}>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        {field.label}
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={getAlarmPolicy(selectedMonitor)[field.key] * (field.scale ?? 1)}
+                        onChange={(e) =>
+                          setSelectedMonitor({
+                            ...selectedMonitor,
+                            alarmPolicy: {
+                              ...selectedMonitor.alarmPolicy,
+                              [field.key]: Number(e.target.value) / (field.scale ?? 1),
+                            },
+                          })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {selectedMonitor.compositeRule ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Rule
+                  </label>
+                  <p className="p-3 mb-3 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+                    {describeCompositeRule(selectedMonitor.compositeRule)}
+                  </p>
+                  <CompositeRuleEditor
+                    rule={selectedMonitor.compositeRule}
+                    onChange={(compositeRule) => setSelectedMonitor({ ...selectedMonitor, compositeRule })}
+                  />
+                  {ruleErrors.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm text-red-600">
+                      {ruleErrors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Alerts when the whole rule holds. Conditions without a percentage use this monitor's sensitivity.
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Alert Direction
+                  </label>
+                  <div className="space-y-2">
+                    {DIRECTION_OPTIONS.map((option) => (
+                      <label key={option.value} className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="radio"
+                          name="direction"
+                          value={option.value}
+                          checked={getMonitorDirection(selectedMonitor) === option.value}
+                          onChange={() => setSelectedMonitor({ ...selectedMonitor, direction: option.value })}
+                          className="w-4 h-4 text-blue-600"
+                        />
+                        <div>
+                          <div className="font-medium text-gray-900">{option.label}</div>
+                          <div className="text-xs text-gray-500">{option.description}</div>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </ModalBody>
           <ModalFooter>
             <Button variant="outline" onClick={() => setSelectedMonitor(null)}>
               Cancel
             </Button>
-            <Button onClick={() => setSelectedMonitor(null)}>
+            <Button onClick={handleSaveMonitor} disabled={ruleErrors.length > 0}>
               Save Changes
             </Button>
           </ModalFooter>
@@ -344,7 +568,19 @@ interface OverviewTabProps {
   navigate: (path: string) => void;
 }
 
+const PACING_STATUS_LABELS: Record<PacingStatus, { label: string; variant: 'success' | 'warning' | 'danger' }> = {
+  ON_TRACK: { label: 'On Track', variant: 'success' },
+  UNDER: { label: 'Under-delivering', variant: 'warning' },
+  OVER: { label: 'Overspending', variant: 'danger' },
+};
+
 function OverviewTab({ campaign, monitorsOK, monitorsInAlarm, activeAlarms, navigate }: OverviewTabProps) {
+  const pacing = buildPacingForecast(campaign);
+  const pacingStatus = PACING_STATUS_LABELS[pacing.status];
+  const spentPercent = pacing.dailyBudget > 0 ? (pacing.spentToday / pacing.dailyBudget) * 100 : 0;
+  const duePercent = pacing.dailyBudget > 0 ? (pacing.expectedSpendToDate / pacing.dailyBudget) * 100 : 0;
+  const rangeLabel = `${Math.round(pacing.confidence * 100)}% range`;
+
   return (
     <div className="space-y-6">
       {/* Monitor Health Summary */}
@@ -394,6 +630,75 @@ function OverviewTab({ campaign, monitorsOK, monitorsInAlarm, activeAlarms, navi
         </CardContent>
       </Card>
 
+      {/* Budget Pacing */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <DollarSign className="w-5 h-5 mr-2 text-blue-500" />
+              Budget Pacing
+            </CardTitle>
+            <Badge variant={pacingStatus.variant}>{pacingStatus.label}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Spent Today</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {formatCurrency(pacing.spentToday)}
+                <span className="text-sm font-normal text-gray-500"> of {formatCurrency(pacing.dailyBudget)}</span>
+              </p>
+              <div className="relative h-2 bg-gray-200 rounded-full mt-3">
+                <div
+                  className="absolute inset-y-0 left-0 bg-blue-500 rounded-full"
+                  style={{ width: `${Math.min(100, spentPercent)}%` }}
+                />
+                <div
+                  className="absolute -top-1 w-0.5 h-4 bg-gray-700"
+                  style={{ left: `${Math.min(100, duePercent)}%` }}
+                  title="Where spend should be by now"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Expected by now: {formatCurrency(pacing.expectedSpendToDate)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Projected End of Day</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(pacing.projectedDaySpend)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {formatCurrency(pacing.projectedDayLow)} – {formatCurrency(pacing.projectedDayHigh)} ({rangeLabel})
+              </p>
+              {pacing.exhaustsAt && (
+                <p className="text-sm font-medium text-red-600 mt-2">
+                  Budget runs out around {formatZonedClock(new Date(pacing.exhaustsAt), getCampaignTimezone(campaign))}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Projected End of Flight</p>
+              {pacing.flight ? (
+                <>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {formatCurrency(pacing.flight.projectedSpend)}
+                    <span className="text-sm font-normal text-gray-500"> of {formatCurrency(pacing.flight.budget)}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatCurrency(pacing.flight.projectedLow)} – {formatCurrency(pacing.flight.projectedHigh)} ({rangeLabel})
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {pacing.flight.daysRemaining} {pacing.flight.daysRemaining === 1 ? 'day' : 'days'} left after today
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Today is outside the campaign flight</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Active Alarms */}
       {activeAlarms.length > 0 && (
         <Card>
@@ -505,6 +810,7 @@ interface MonitorsTabProps {
 
 function MonitorsTab({ campaign, monitors, monitorStates, onConfigureMonitor }: MonitorsTabProps) {
   const [filter, setFilter] = useState<'all' | 'volume' | 'efficiency' | 'quality' | 'financial'>('all');
+  const [showBacktest, setShowBacktest] = useState(false);
 
   const filteredMonitors = monitors.filter((m) => {
     if (filter === 'all') return true;
@@ -518,6 +824,10 @@ function MonitorsTab({ campaign, monitors, monitorStates, onConfigureMonitor }:
           <div className="flex items-center justify-between">
             <CardTitle>All Monitors ({filteredMonitors.length})</CardTitle>
             <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setShowBacktest(true)}>
+                <History className="w-3 h-3 mr-1" />
+                Compare Configurations
+              </Button>
               <Button
                 size="sm"
                 variant={filter === 'all' ? 'primary' : 'outline'}
@@ -578,13 +888,46 @@ function MonitorsTab({ campaign, monitors, monitorStates, onConfigureMonitor }:
                       <td className="py-3 px-4">
                         <div>
                           <div className="font-medium text-gray-900">{monitor.metricName}</div>
-                          <div className="text-xs text-gray-500">{monitor.metricCategory}</div>
+                          <div className="text-xs text-gray-500">
+                            {monitor.metricCategory} •{' '}
+                            {monitor.compositeRule
+                              ? describeCompositeRule(monitor.compositeRule)
+                              : DIRECTION_OPTIONS.find((o) => o.value === getMonitorDirection(monitor))?.label}
+                          </div>
                         </div>
                       </td>
                       <td className="py-3 px-4">
-                        <Badge variant={isInAlarm ? 'danger' : 'success'}>
-                          {isInAlarm ? 'ALARM' : 'OK'}
-                        </Badge>
+                        <div className="flex items-center gap-1">
+                          {state?.staleData ? (
+                            <span
+                              title={
+                                state.staleData.lastReceivedAt
+                                  ? `No data since ${formatRelativeTime(state.staleData.lastReceivedAt)}`
+                                  : 'No data received yet'
+                              }
+                            >
+                              <Badge variant="warning">STALE</Badge>
+                            </span>
+                          ) : state?.insufficientData ? (
+                            <span
+                              title={`${Math.round(state.insufficientData.volume)} ${getMetricName(
+                                state.insufficientData.metricId
+                              )} in window, ${state.insufficientData.minVolume} needed`}
+                            >
+                              <Badge variant="default">INSUFFICIENT DATA</Badge>
+                            </span>
+                          ) : (
+                            <Badge variant={isInAlarm ? 'danger' : 'success'}>
+                              {isInAlarm ? 'ALARM' : 'OK'}
+                            </Badge>
+                          )}
+                          {state?.unstable && <Badge variant="warning">UNSTABLE</Badge>}
+                          {state?.calendarEvents && (
+                            <span title={state.calendarEvents.join(', ')}>
+                              <Badge variant="info">EVENT</Badge>
+                            </span>
+                          )}
+                        </div>
                       </td>
                       <td className="py-3 px-4 text-right font-mono text-sm">
                         {state?.currentValue.toFixed(2) || '-'}
@@ -610,6 +953,15 @@ function MonitorsTab({ campaign, monitors, monitorStates, onConfigureMonitor }:
           </div>
         </CardContent>
       </Card>
+
+      {showBacktest && (
+        <BacktestCompareModal
+          isOpen={true}
+          onClose={() => setShowBacktest(false)}
+          campaign={campaign}
+          monitors={monitors}
+        />
+      )}
     </div>
   );
 }
@@ -619,6 +971,26 @@ interface PerformanceTabProps {
 }
 
 function PerformanceTab({ campaign }: PerformanceTabProps) {
+  const [forecastMetricId, setForecastMetricId] = useState('impressions');
+
+  // Last 36 hours of actuals plus a 12 hour Holt-Winters forecast with its prediction band,
+  // on the campaign's reporting clock
+  const timeZone = getCampaignTimezone(campaign);
+  const forecastData = buildForecastChartData(campaign.id, forecastMetricId, {
+    lookbackHours: 36,
+    horizonHours: 12,
+    z: getSensitivityIntervalZ(campaign.sensitivity),
+    timeZone,
+  }).map((point) => ({
+    time: formatZonedDayTime(new Date(point.timestamp), timeZone),
+    actual: point.value !== undefined ? parseFloat(point.value.toFixed(2)) : undefined,
+    expected: point.expected !== undefined ? parseFloat(point.expected.toFixed(2)) : undefined,
+    band: [
+      parseFloat((point.lowerBound ?? 0).toFixed(2)),
+      parseFloat((point.upperBound ?? 0).toFixed(2)),
+    ],
+  }));
+
   // Generate mock data
   const chartData = Array.from({ length: 7 }, (_, i) => ({
     day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][i],
@@ -629,6 +1001,68 @@ function PerformanceTab({ campaign }: PerformanceTabProps) {
 
   return (
     <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Forecast & Expected Range</CardTitle>
+            <select
+              value={forecastMetricId}
+              onChange={(e) => setForecastMetricId(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {DEFAULT_METRICS.filter((m) => m.unit !== 'status').map((metric) => (
+                <option key={metric.id} value={metric.id}>
+                  {metric.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {forecastData.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              Not enough history yet to fit a forecast (needs 2 days of hourly data)
+            </div>
+          ) : (
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={forecastData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="time" tick={{ fontSize: 12 }} />
+                  <YAxis tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Area
+                    type="monotone"
+                    dataKey="band"
+                    fill="#3b82f61f"
+                    stroke="none"
+                    name="Prediction Interval"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="actual"
+                    stroke="#111827"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Actual"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="expected"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name="Forecast"
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Performance Trends (Last 7 Days)</CardTitle>
@@ -685,7 +1119,8 @@ interface HistoryTabProps {
 }
 
 function HistoryTab({ alarms, campaign, navigate }: HistoryTabProps) {
-  const activeAlarms = alarms.filter((a) => a.state === 'ACTIVE');
+  const activeAlarms = alarms.filter(isOpenAlarm);
+  const snoozedAlarms = alarms.filter((a) => a.state === 'SNOOZED');
   const resolvedAlarms = alarms.filter((a) => a.state === 'RESOLVED');
 
   return (
@@ -713,6 +1148,17 @@ function HistoryTab({ alarms, campaign, navigate }: HistoryTabProps) {
                   </div>
                 )}
 
+                {snoozedAlarms.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-3">Snoozed ({snoozedAlarms.length})</h4>
+                    <div className="space-y-2">
+                      {snoozedAlarms.map((alarm) => (
+                        <AlarmHistoryItem key={alarm.id} alarm={alarm} navigate={navigate} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {resolvedAlarms.length > 0 && (
                   <div>
                     <h4 className="font-semibold text-gray-900 mb-3">Resolved ({resolvedAlarms.length})</h4>
@@ -754,11 +1200,12 @@ function AlarmHistoryItem({ alarm, navigate }: AlarmHistoryItemProps) {
           <div className="text-xs text-gray-500">
             {formatRelativeTime(alarm.triggeredAt)}
             {alarm.resolvedAt && ` • Resolved ${formatRelativeTime(alarm.resolvedAt)}`}
+            {alarm.state === 'SNOOZED' &&
+              alarm.snoozedUntil &&
+              ` • Snoozed until ${formatDateTime(alarm.snoozedUntil)}`}
           </div>
         </div>
-        <Badge variant={alarm.state === 'ACTIVE' ? 'danger' : 'success'}>
-          {alarm.state}
-        </Badge>
+        <Badge state={alarm.state}>{alarm.state}</Badge>
       </div>
     </div>
   );
@@ -767,14 +1214,16 @@ function AlarmHistoryItem({ alarm, navigate }: AlarmHistoryItemProps) {
 interface SettingsTabProps {
   campaign: Campaign;
   onUpdate: (campaign: Campaign) => void;
+  onRunScenario: (scenario: Scenario | undefined) => Promise<void>;
   onDelete: () => void;
 }
 
-function SettingsTab({ campaign, onUpdate, onDelete }: SettingsTabProps) {
+function SettingsTab({ campaign, onUpdate, onRunScenario, onDelete }: SettingsTabProps) {
   const [formData, setFormData] = useState({
     name: campaign.name,
     dailyBudget: campaign.dailyBudget,
     status: campaign.status,
+    timezone: getCampaignTimezone(campaign),
   });
 
   const handleSave = () => {
@@ -832,10 +1281,48 @@ function SettingsTab({ campaign, onUpdate, onDelete }: SettingsTabProps) {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reporting Timezone
+            </label>
+            <select
+              value={formData.timezone}
+              onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {[...new Set([formData.timezone, ...TIMEZONE_OPTIONS])].map((timeZone) => (
+                <option key={timeZone} value={timeZone}>
+                  {timeZone}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Days, hours and seasonal baselines follow this clock. Each geo's traffic follows its own
+              market's local time.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Simulation Seed
+            </label>
+            <p className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+              {getCampaignSeed(campaign)}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {campaign.seed === undefined ? 'Derived from the campaign ID. ' : ''}
+              Include it in bug reports so the data can be reproduced.
+            </p>
+          </div>
+
           <Button onClick={handleSave}>Save Changes</Button>
         </CardContent>
       </Card>
 
+      <CalendarCard campaign={campaign} onUpdate={onUpdate} />
+
+      <ScenarioCard campaign={campaign} onRun={onRunScenario} />
+
       <Card className="border-red-200">
         <CardHeader>
           <CardTitle className="text-red-600">Danger Zone</CardTitle>
@@ -6,6 +6,7 @@ import { useApp } from '@/contexts/AppContext';
 import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { MonitoringSetupModal } from '@/components/onboarding/MonitoringSetupModal';
+import { getDefaultTimezone, TIMEZONE_OPTIONS } from '@/utils/timezone';
 import type {
   Campaign,
   CampaignVertical,
@@ -54,6 +55,7 @@ const GEOS = [
   { code: 'FR', name: 'France', flag: '🇫🇷' },
   { code: 'IN', name: 'India', flag: '🇮🇳' },
   { code: 'JP', name: 'Japan', flag: '🇯🇵' },
+  { code: 'BR', name: 'Brazil', flag: '🇧🇷' },
 ];
 
 interface FormErrors {
@@ -63,6 +65,7 @@ interface FormErrors {
   endDate?: string;
   devices?: string;
   geos?: string;
+  seed?: string;
 }
 
 export function CreateCampaign() {
@@ -81,6 +84,8 @@ export function CreateCampaign() {
     endDate: thirtyDaysLater,
     geos: ['US'] as string[],
     devices: ['Desktop', 'Mobile'] as DeviceType[],
+    seed: '',
+    timezone: '', // Unset follows the first geo's market
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
@@ -89,6 +94,7 @@ export function CreateCampaign() {
   const [createdCampaignId, setCreatedCampaignId] = useState<string | null>(null);
 
   const totalSteps = 3;
+  const timezone = formData.timezone || getDefaultTimezone(formData.geos);
 
   // Validation functions
   const validateStep1 = (): boolean => {
@@ -125,6 +131,10 @@ export function CreateCampaign() {
       newErrors.endDate = 'End date must be after start date';
     }
 
+    if (formData.seed.trim() && !Number.isInteger(Number(formData.seed))) {
+      newErrors.seed = 'Seed must be a whole number';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -220,6 +230,8 @@ export function CreateCampaign() {
       monitoringEnabled: false, // Will be enabled in monitoring setup
       anomalyDetectionEnabled: false,
       sensitivity: 'Balanced', // Will be set in monitoring setup
+      seed: formData.seed.trim() ? Number(formData.seed) : undefined,
+      timezone,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -437,6 +449,28 @@ export function CreateCampaign() {
                   )}
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Simulation Seed
+                </label>
+                <input
+                  type="number"
+                  value={formData.seed}
+                  onChange={(e) => handleChange('seed', e.target.value)}
+                  placeholder="Derived from the campaign ID"
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${
+                    errors.seed ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.seed ? (
+                  <p className="mt-1 text-sm text-red-600">{errors.seed}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Optional. The same seed reproduces the same simulated data and alarms.
+                  </p>
+                )}
+              </div>
             </div>
           )}
 
@@ -550,6 +584,27 @@ export function CreateCampaign() {
                   <p className="mt-2 text-sm text-red-600">{errors.geos}</p>
                 )}
               </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Reporting Timezone
+                </label>
+                <select
+                  value={timezone}
+                  onChange={(e) => handleChange('timezone', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                >
+                  {[...new Set([timezone, ...TIMEZONE_OPTIONS])].map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Days and hours in reports and baselines use this clock. Each geo's traffic
+                  follows its own local time.
+                </p>
+              </div>
             </div>
           )}
 
@@ -592,6 +647,11 @@ export function CreateCampaign() {
                     </div>
                   </div>
 
+                  <div>
+                    <div className="text-sm text-gray-600 mb-1">Reporting Timezone</div>
+                    <div className="font-semibold text-gray-900">{timezone}</div>
+                  </div>
+
                   <div>
                     <div className="text-sm text-gray-600 mb-1">Devices</div>
                     <div className="font-semibold text-gray-900">
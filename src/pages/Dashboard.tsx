@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import { useApp } from '@/contexts/AppContext';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { BulkActionsModal, type BulkAction } from '@/components/alarm/BulkActionsModal';
-import { FiltersDropdown, type FilterState } from '@/components/dashboard/FiltersDropdown';
+import {
+  FiltersDropdown,
+  type ActionStatusFilter,
+  type FilterState,
+} from '@/components/dashboard/FiltersDropdown';
 import { AlarmHistoryChart, generateAlarmHistory } from '@/components/dashboard/AlarmHistoryChart';
+import { ResponseTimesCard } from '@/components/dashboard/ResponseTimesCard';
+import { IncidentList } from '@/components/dashboard/IncidentList';
 import {
   AlertTriangle,
   TrendingUp,
@@ -23,20 +30,48 @@ import {
   Square,
 } from 'lucide-react';
 import { formatRelativeTime, formatCurrency, getSeverityColor } from '@/utils/helpers';
+import { getOccurrenceAt } from '@/services/maintenance';
+import { groupAlarmsIntoIncidents } from '@/services/incidents';
 import type { Alarm } from '@/types';
 
+function matchesActionStatus(alarm: Alarm, status: ActionStatusFilter, currentUser: string): boolean {
+  switch (status) {
+    case 'UNACKNOWLEDGED':
+      return alarm.state === 'ACTIVE';
+    case 'ACKNOWLEDGED':
+      return alarm.state === 'ACKNOWLEDGED';
+    case 'ASSIGNED_TO_ME':
+      return alarm.assignee === currentUser;
+    case 'UNASSIGNED':
+      return !alarm.assignee;
+  }
+}
+
+// How long "turn off" silences a monitor; unset runs until turned back on
+const TURN_OFF_HOURS: Record<string, number | undefined> = {
+  '1h': 1,
+  '6h': 6,
+  '24h': 24,
+};
+
 export function Dashboard() {
   const navigate = useNavigate();
   const {
     campaigns,
     activeCampaign,
     setActiveCampaign,
+    alarms,
     activeAlarms,
+    snoozedAlarms,
     dashboardSummary,
     loading,
     refreshData,
     onboarding,
     updateOnboarding,
+    maintenanceWindows,
+    saveMaintenanceWindow,
+    currentUser,
+    allMonitors,
   } = useApp();
 
   const [selectedAlarms, setSelectedAlarms] = useState<string[]>([]);
@@ -50,6 +85,7 @@ export function Dashboard() {
     actionStatus: [],
   });
   const [alarmHistory] = useState(() => generateAlarmHistory());
+  const [showIncidents, setShowIncidents] = useState(false);
 
   // Auto-select first campaign if none selected and sync active campaign with latest data
   useEffect(() => {
@@ -103,13 +139,56 @@ export function Dashboard() {
     );
   };
 
+  // Turning alarms off opens a maintenance window on each of their monitors
+  const turnOffMonitors = (monitorIds: string[], duration: string) => {
+    const now = new Date();
+    const hours = TURN_OFF_HOURS[duration];
+    monitorIds.forEach((monitorId) => {
+      saveMaintenanceWindow({
+        id: uuidv4(),
+        reason: 'Turned off from the dashboard',
+        scope: { type: 'MONITOR', monitorId },
+        startsAt: now.toISOString(),
+        endsAt: hours ? new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString() : undefined,
+        recurrence: 'NONE',
+        createdAt: now.toISOString(),
+      });
+    });
+  };
+
+  // Turning them back on ends the one-off windows silencing just those monitors
+  const turnOnMonitors = (monitorIds: string[]) => {
+    const now = new Date();
+    maintenanceWindows
+      .filter(
+        (w) =>
+          w.scope.type === 'MONITOR' &&
+          monitorIds.includes(w.scope.monitorId) &&
+          w.recurrence === 'NONE' &&
+          getOccurrenceAt(w, now.getTime())
+      )
+      .forEach((w) => saveMaintenanceWindow({ ...w, endsAt: now.toISOString() }));
+  };
+
   const handleBulkAction = async (action: BulkAction) => {
-    // In real app, this would update via API
-    console.log('Bulk action:', action, 'for alarms:', selectedAlarms);
-    
-    // Simulate action completion
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    
+    // Undo replays an action on the alarms it first applied to
+    const alarmIds: string[] = action.params?.alarmIds ?? selectedAlarms;
+    const monitorIds = [
+      ...new Set(activeAlarms.filter((a) => alarmIds.includes(a.id)).map((a) => a.monitorId)),
+    ];
+
+    if (action.type === 'turnOff') {
+      turnOffMonitors(monitorIds, String(action.params?.duration ?? '24h'));
+    } else if (action.type === 'turnOn') {
+      turnOnMonitors(monitorIds);
+    } else {
+      // In real app, this would update via API
+      console.log('Bulk action:', action, 'for alarms:', selectedAlarms);
+
+      // Simulate action completion
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
     // Clear selection after action
     setSelectedAlarms([]);
     
@@ -140,9 +219,19 @@ export function Dashboard() {
     if (filters.dateRange === 'last7d' && hoursDiff > 24 * 7) return false;
     if (filters.dateRange === 'last30d' && hoursDiff > 24 * 30) return false;
 
+    // Action status filter
+    if (
+      filters.actionStatus.length > 0 &&
+      !filters.actionStatus.some((status) => matchesActionStatus(alarm, status, currentUser))
+    ) {
+      return false;
+    }
+
     return true;
   });
 
+  const incidents = showIncidents ? groupAlarmsIntoIncidents(filteredAlarms, allMonitors) : [];
+
   if (campaigns.length === 0) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -268,6 +357,8 @@ export function Dashboard() {
         <AlarmHistoryChart alarmHistory={alarmHistory} className="mb-8" />
       )}
 
+      {alarms.length > 0 && <ResponseTimesCard alarms={alarms} className="mb-8" />}
+
       {/* Active Alarms */}
       {!activeCampaign.monitoringEnabled ? (
         <Card>
@@ -338,146 +429,239 @@ export function Dashboard() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>
-                  Active Alarms
-                  {filteredAlarms.length !== activeAlarms.length && (
+                  {showIncidents ? 'Incidents' : 'Active Alarms'}
+                  {showIncidents ? (
                     <span className="ml-2 text-sm font-normal text-gray-500">
-                      ({filteredAlarms.length} of {activeAlarms.length})
+                      ({incidents.length} from {filteredAlarms.length} alarms)
                     </span>
+                  ) : (
+                    filteredAlarms.length !== activeAlarms.length && (
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        ({filteredAlarms.length} of {activeAlarms.length})
+                      </span>
+                    )
                   )}
                 </CardTitle>
-                <button
-                  onClick={handleSelectAllAlarms}
-                  className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
-                >
-                  {selectedAlarms.length === filteredAlarms.length ? (
-                    <CheckSquare className="w-4 h-4" />
-                  ) : (
-                    <Square className="w-4 h-4" />
+                <div className="flex items-center gap-4">
+                  <div className="flex rounded-lg border border-gray-200 text-sm">
+                    <button
+                      onClick={() => setShowIncidents(false)}
+                      className={`px-3 py-1 rounded-l-lg ${
+                        showIncidents ? 'text-gray-600' : 'bg-blue-50 text-blue-700 font-medium'
+                      }`}
+                    >
+                      Alarms
+                    </button>
+                    <button
+                      onClick={() => setShowIncidents(true)}
+                      className={`px-3 py-1 rounded-r-lg ${
+                        showIncidents ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-600'
+                      }`}
+                    >
+                      Incidents
+                    </button>
+                  </div>
+                  {!showIncidents && (
+                    <button
+                      onClick={handleSelectAllAlarms}
+                      className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                    >
+                      {selectedAlarms.length === filteredAlarms.length ? (
+                        <CheckSquare className="w-4 h-4" />
+                      ) : (
+                        <Square className="w-4 h-4" />
+                      )}
+                      Select All
+                    </button>
                   )}
-                  Select All
-                </button>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3">
-                {filteredAlarms.slice(0, 20).map((alarm) => {
-                  const severityColors = getSeverityColor(alarm.severity);
-                  const isExpanded = expandedAlarms.includes(alarm.id);
-                  const isSelected = selectedAlarms.includes(alarm.id);
-
-                  return (
-                    <div
-                      key={alarm.id}
-                      className={`border-l-4 ${severityColors.border} ${
-                        isSelected ? 'bg-blue-50 border-blue-200' : 'bg-white'
-                      } rounded-r-lg shadow-sm hover:shadow-md transition-all`}
-                    >
-                      <div className="p-4">
-                        <div className="flex items-start gap-3">
-                          {/* Selection Checkbox */}
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleToggleAlarmSelection(alarm.id);
-                            }}
-                            className="mt-1"
-                          >
-                            {isSelected ? (
-                              <CheckSquare className="w-5 h-5 text-blue-600" />
-                            ) : (
-                              <Square className="w-5 h-5 text-gray-400" />
-                            )}
-                          </button>
-
-                          {/* Alarm Content */}
-                          <div
-                            className="flex-1 cursor-pointer"
-                            onClick={() => handleViewAlarm(alarm)}
-                          >
-                            <div className="flex items-center gap-2 mb-2">
-                              <Badge severity={alarm.severity}>{alarm.severity}</Badge>
-                              <h4 className="font-semibold text-gray-900">{alarm.metricName}</h4>
-                            </div>
-                            {alarm.insights && (
-                              <p className="text-sm text-gray-600 mb-2">
-                                {alarm.insights.summary}
-                              </p>
-                            )}
-                            <div className="flex items-center gap-4 text-xs text-gray-500">
-                              <span className="flex items-center">
-                                <Clock className="w-3 h-3 mr-1" />
-                                {formatRelativeTime(alarm.triggeredAt)}
-                              </span>
-                              {alarm.deviationPercent && (
-                                <span className="flex items-center">
-                                  {alarm.deviationPercent > 0 ? (
-                                    <TrendingUp className="w-3 h-3 mr-1 text-red-500" />
-                                  ) : (
-                                    <TrendingDown className="w-3 h-3 mr-1 text-red-500" />
-                                  )}
-                                  {Math.abs(alarm.deviationPercent).toFixed(1)}% deviation
-                                </span>
+              {showIncidents ? (
+                <IncidentList
+                  incidents={incidents}
+                  alarms={filteredAlarms}
+                  campaigns={campaigns}
+                  onViewAlarm={handleViewAlarm}
+                />
+              ) : (
+                <div className="space-y-3">
+                  {filteredAlarms.slice(0, 20).map((alarm) => {
+                    const severityColors = getSeverityColor(alarm.severity);
+                    const isExpanded = expandedAlarms.includes(alarm.id);
+                    const isSelected = selectedAlarms.includes(alarm.id);
+
+                    return (
+                      <div
+                        key={alarm.id}
+                        className={`border-l-4 ${severityColors.border} ${
+                          isSelected ? 'bg-blue-50 border-blue-200' : 'bg-white'
+                        } rounded-r-lg shadow-sm hover:shadow-md transition-all`}
+                      >
+                        <div className="p-4">
+                          <div className="flex items-start gap-3">
+                            {/* Selection Checkbox */}
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleToggleAlarmSelection(alarm.id);
+                              }}
+                              className="mt-1"
+                            >
+                              {isSelected ? (
+                                <CheckSquare className="w-5 h-5 text-blue-600" />
+                              ) : (
+                                <Square className="w-5 h-5 text-gray-400" />
+                              )}
+                            </button>
+
+                            {/* Alarm Content */}
+                            <div
+                              className="flex-1 cursor-pointer"
+                              onClick={() => handleViewAlarm(alarm)}
+                            >
+                              <div className="flex items-center gap-2 mb-2">
+                                <Badge severity={alarm.severity}>{alarm.severity}</Badge>
+                                <h4 className="font-semibold text-gray-900">{alarm.metricName}</h4>
+                                {alarm.state === 'ACKNOWLEDGED' && (
+                                  <Badge state={alarm.state} size="sm">
+                                    ACK · {alarm.acknowledgedBy}
+                                  </Badge>
+                                )}
+                                {alarm.assignee && (
+                                  <span className="text-xs text-gray-500">
+                                    Assigned to {alarm.assignee}
+                                  </span>
+                                )}
+                              </div>
+                              {alarm.insights && (
+                                <p className="text-sm text-gray-600 mb-2">
+                                  {alarm.insights.summary}
+                                </p>
                               )}
-                              {alarm.estimatedImpactUSD && (
+                              <div className="flex items-center gap-4 text-xs text-gray-500">
                                 <span className="flex items-center">
-                                  <DollarSign className="w-3 h-3 mr-1" />
-                                  Est. impact: {formatCurrency(alarm.estimatedImpactUSD)}
+                                  <Clock className="w-3 h-3 mr-1" />
+                                  {formatRelativeTime(alarm.triggeredAt)}
                                 </span>
+                                {alarm.deviationPercent && (
+                                  <span className="flex items-center">
+                                    {alarm.deviationPercent > 0 ? (
+                                      <TrendingUp className="w-3 h-3 mr-1 text-red-500" />
+                                    ) : (
+                                      <TrendingDown className="w-3 h-3 mr-1 text-red-500" />
+                                    )}
+                                    {Math.abs(alarm.deviationPercent).toFixed(1)}% deviation
+                                  </span>
+                                )}
+                                {alarm.estimatedImpactUSD && (
+                                  <span className="flex items-center">
+                                    <DollarSign className="w-3 h-3 mr-1" />
+                                    Est. impact: {formatCurrency(alarm.estimatedImpactUSD)}
+                                  </span>
+                                )}
+                              </div>
+
+                              {/* Expanded Details */}
+                              {isExpanded && alarm.insights && (
+                                <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                                  <div>
+                                    <h5 className="text-xs font-semibold text-gray-700 mb-2">
+                                      Top Root Causes
+                                    </h5>
+                                    {alarm.insights.rootCauses.slice(0, 2).map((cause, idx) => (
+                                      <p key={idx} className="text-xs text-gray-600 mb-1">
+                                        • {cause.cause}
+                                      </p>
+                                    ))}
+                                  </div>
+                                  <div>
+                                    <h5 className="text-xs font-semibold text-gray-700 mb-2">
+                                      Quick Action
+                                    </h5>
+                                    {alarm.insights.recommendations.length > 0 && (
+                                      <p className="text-xs text-blue-600">
+                                        {alarm.insights.recommendations[0].action}
+                                      </p>
+                                    )}
+                                  </div>
+                                </div>
                               )}
                             </div>
 
-                            {/* Expanded Details */}
-                            {isExpanded && alarm.insights && (
-                              <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
-                                <div>
-                                  <h5 className="text-xs font-semibold text-gray-700 mb-2">
-                                    Top Root Causes
-                                  </h5>
-                                  {alarm.insights.rootCauses.slice(0, 2).map((cause, idx) => (
-                                    <p key={idx} className="text-xs text-gray-600 mb-1">
-                                      • {cause.cause}
-                                    </p>
-                                  ))}
-                                </div>
-                                <div>
-                                  <h5 className="text-xs font-semibold text-gray-700 mb-2">
-                                    Quick Action
-                                  </h5>
-                                  {alarm.insights.recommendations.length > 0 && (
-                                    <p className="text-xs text-blue-600">
-                                      {alarm.insights.recommendations[0].action}
-                                    </p>
-                                  )}
-                                </div>
-                              </div>
-                            )}
+                            {/* Expand/Collapse Button */}
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleToggleExpanded(alarm.id);
+                              }}
+                              className="text-gray-400 hover:text-gray-600 mt-1"
+                            >
+                              {isExpanded ? (
+                                <ChevronUp className="w-5 h-5" />
+                              ) : (
+                                <ChevronDown className="w-5 h-5" />
+                              )}
+                            </button>
                           </div>
-
-                          {/* Expand/Collapse Button */}
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleToggleExpanded(alarm.id);
-                            }}
-                            className="text-gray-400 hover:text-gray-600 mt-1"
-                          >
-                            {isExpanded ? (
-                              <ChevronUp className="w-5 h-5" />
-                            ) : (
-                              <ChevronDown className="w-5 h-5" />
-                            )}
-                          </button>
                         </div>
                       </div>
-                    </div>
-                  );
-                })}
-              </div>
+                    );
+                  })}
+                </div>
+              )}
             </CardContent>
           </Card>
         </>
       )}
 
+      {/* Snoozed Alarms */}
+      {snoozedAlarms.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>
+              Snoozed Alarms
+              <span className="ml-2 text-sm font-normal text-gray-500">({snoozedAlarms.length})</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {snoozedAlarms.map((alarm) => (
+                <div
+                  key={alarm.id}
+                  className={`border-l-4 ${
+                    getSeverityColor(alarm.severity).border
+                  } bg-white p-3 rounded-r-lg shadow-sm hover:shadow-md transition-shadow cursor-pointer`}
+                  onClick={() => handleViewAlarm(alarm)}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge severity={alarm.severity} size="sm">
+                          {alarm.severity}
+                        </Badge>
+                        <span className="font-medium text-gray-900">{alarm.metricName}</span>
+                        <span className="text-xs text-gray-500">{alarm.campaignName}</span>
+                      </div>
+                      {alarm.snoozeReason && (
+                        <p className="text-xs text-gray-600">{alarm.snoozeReason}</p>
+                      )}
+                    </div>
+                    {alarm.snoozedUntil && (
+                      <span className="flex items-center text-xs text-gray-500 whitespace-nowrap">
+                        <Clock className="w-3 h-3 mr-1" />
+                        Wakes {formatRelativeTime(alarm.snoozedUntil)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Bulk Actions Modal */}
       <BulkActionsModal
         isOpen={showBulkActions}
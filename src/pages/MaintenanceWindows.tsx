@@ -0,0 +1,336 @@
+/**
+ * Maintenance Windows Page - Planned periods when alarms are held back, such
+ * as tracking migrations or nightly feed reloads
+ */
+
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useApp } from '@/contexts/AppContext';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Wrench, Plus, Trash2, Square } from 'lucide-react';
+import { getMaintenanceStatus, validateMaintenanceWindow } from '@/services/maintenance';
+import { formatDateTime } from '@/utils/helpers';
+import type {
+  Campaign,
+  MaintenanceRecurrence,
+  MaintenanceScope,
+  MaintenanceWindow,
+  MetricCategory,
+  Monitor,
+} from '@/types';
+
+type ScopeType = MaintenanceScope['type'];
+
+const SCOPE_OPTIONS: Array<{ value: ScopeType; label: string }> = [
+  { value: 'ALL', label: 'Everything' },
+  { value: 'CAMPAIGN', label: 'A campaign' },
+  { value: 'MONITOR', label: 'A monitor' },
+  { value: 'CATEGORY', label: 'A metric category' },
+];
+
+const RECURRENCE_OPTIONS: Array<{ value: MaintenanceRecurrence; label: string }> = [
+  { value: 'NONE', label: 'Once' },
+  { value: 'DAILY', label: 'Every day' },
+  { value: 'WEEKLY', label: 'Every week' },
+];
+
+const CATEGORIES: MetricCategory[] = ['Volume', 'Efficiency', 'Quality', 'Financial'];
+
+const STATUS_VARIANTS = {
+  ACTIVE: 'warning',
+  SCHEDULED: 'info',
+  ENDED: 'default',
+} as const;
+
+const EMPTY_FORM = {
+  reason: '',
+  scopeType: 'CAMPAIGN' as ScopeType,
+  campaignId: '',
+  monitorId: '',
+  category: 'Volume' as MetricCategory,
+  startsAt: '',
+  endsAt: '',
+  recurrence: 'NONE' as MaintenanceRecurrence,
+};
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+function toScope(form: typeof EMPTY_FORM): MaintenanceScope {
+  switch (form.scopeType) {
+    case 'ALL':
+      return { type: 'ALL' };
+    case 'CAMPAIGN':
+      return { type: 'CAMPAIGN', campaignId: form.campaignId };
+    case 'MONITOR':
+      return { type: 'MONITOR', monitorId: form.monitorId };
+    case 'CATEGORY':
+      return { type: 'CATEGORY', category: form.category, campaignId: form.campaignId || undefined };
+  }
+}
+
+function describeScope(scope: MaintenanceScope, campaigns: Campaign[], monitors: Monitor[]): string {
+  const campaignName = (id?: string) => campaigns.find((c) => c.id === id)?.name ?? 'Deleted campaign';
+  switch (scope.type) {
+    case 'ALL':
+      return 'All campaigns and monitors';
+    case 'CAMPAIGN':
+      return campaignName(scope.campaignId);
+    case 'MONITOR': {
+      const monitor = monitors.find((m) => m.id === scope.monitorId);
+      return monitor
+        ? `${campaignName(monitor.campaignId)} · ${monitor.metricName} (${monitor.monitorType})`
+        : 'Deleted monitor';
+    }
+    case 'CATEGORY':
+      return `${scope.category} metrics · ${
+        scope.campaignId ? campaignName(scope.campaignId) : 'all campaigns'
+      }`;
+  }
+}
+
+function describeTimes(window: MaintenanceWindow): string {
+  const range = `${formatDateTime(window.startsAt)} – ${
+    window.endsAt ? formatDateTime(window.endsAt) : 'until ended'
+  }`;
+  const recurrence = RECURRENCE_OPTIONS.find((o) => o.value === window.recurrence);
+  return window.recurrence === 'NONE' ? range : `${range} · repeats ${recurrence?.label.toLowerCase()}`;
+}
+
+export function MaintenanceWindows() {
+  const { campaigns, allMonitors, maintenanceWindows, saveMaintenanceWindow, deleteMaintenanceWindow } =
+    useApp();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const now = Date.now();
+  const windows = [...maintenanceWindows].sort((a, b) => b.startsAt.localeCompare(a.startsAt));
+  const formMonitors = allMonitors.filter((m) => m.campaignId === form.campaignId);
+
+  const handleCreate = () => {
+    const window: MaintenanceWindow = {
+      id: uuidv4(),
+      reason: form.reason.trim(),
+      scope: toScope(form),
+      startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : '',
+      endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : undefined,
+      recurrence: form.recurrence,
+      createdAt: new Date().toISOString(),
+    };
+    const validationErrors = validateMaintenanceWindow(window);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    saveMaintenanceWindow(window);
+    setForm(EMPTY_FORM);
+  };
+
+  // Ending a window keeps it on record for the alarm timeline
+  const handleEnd = (window: MaintenanceWindow) => {
+    saveMaintenanceWindow({ ...window, endsAt: new Date().toISOString() });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Maintenance Windows</h1>
+        <p className="text-gray-600">
+          Monitors keep evaluating during a window, but no alarms are raised until it ends
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="w-5 h-5" />
+              Windows
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {windows.length === 0 ? (
+              <p className="text-sm text-gray-500">No maintenance windows yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {windows.map((window) => {
+                  const status = getMaintenanceStatus(window, now);
+                  return (
+                    <li key={window.id} className="flex items-center justify-between gap-3 p-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900">{window.reason}</span>
+                          <Badge variant={STATUS_VARIANTS[status]}>{status}</Badge>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {describeScope(window.scope, campaigns, allMonitors)} ·{' '}
+                          {describeTimes(window)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {status === 'ACTIVE' && window.recurrence === 'NONE' && (
+                          <Button size="sm" variant="outline" onClick={() => handleEnd(window)}>
+                            <Square className="w-3 h-3 mr-1" />
+                            End now
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => deleteMaintenanceWindow(window.id)}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule a window</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <input
+                type="text"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="e.g. Pixel migration"
+                className={INPUT_CLASS}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Applies to</label>
+                <select
+                  value={form.scopeType}
+                  onChange={(e) => setForm({ ...form, scopeType: e.target.value as ScopeType })}
+                  className={INPUT_CLASS}
+                >
+                  {SCOPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {form.scopeType !== 'ALL' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Campaign</label>
+                  <select
+                    value={form.campaignId}
+                    onChange={(e) => setForm({ ...form, campaignId: e.target.value, monitorId: '' })}
+                    className={INPUT_CLASS}
+                  >
+                    <option value="">
+                      {form.scopeType === 'CATEGORY' ? 'All campaigns' : 'Choose a campaign'}
+                    </option>
+                    {campaigns.map((campaign) => (
+                      <option key={campaign.id} value={campaign.id}>
+                        {campaign.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {form.scopeType === 'MONITOR' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Monitor</label>
+                  <select
+                    value={form.monitorId}
+                    onChange={(e) => setForm({ ...form, monitorId: e.target.value })}
+                    className={INPUT_CLASS}
+                    disabled={formMonitors.length === 0}
+                  >
+                    <option value="">Choose a monitor</option>
+                    {formMonitors.map((monitor) => (
+                      <option key={monitor.id} value={monitor.id}>
+                        {monitor.metricName} ({monitor.monitorType})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {form.scopeType === 'CATEGORY' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                  <select
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value as MetricCategory })}
+                    className={INPUT_CLASS}
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+                <input
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+                <input
+                  type="datetime-local"
+                  value={form.endsAt}
+                  min={form.startsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to run until ended</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+                <select
+                  value={form.recurrence}
+                  onChange={(e) =>
+                    setForm({ ...form, recurrence: e.target.value as MaintenanceRecurrence })
+                  }
+                  className={INPUT_CLASS}
+                >
+                  {RECURRENCE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="space-y-1 text-sm text-red-600">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+            <Button onClick={handleCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Schedule Window
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
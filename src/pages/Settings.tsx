@@ -37,12 +37,13 @@ interface NotificationSettings {
 export function Settings() {
   const { preferences, updatePreferences } = useApp();
 
-  const [email, setEmail] = useState('user@example.com');
+  const [email, setEmail] = useState(preferences.emailAddress || 'user@example.com');
   const [phone, setPhone] = useState('+1 (555) 123-4567');
   const [defaultSensitivity, setDefaultSensitivity] = useState<'Strict' | 'Balanced' | 'Loose'>(
     'Balanced'
   );
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [seed, setSeed] = useState(String(preferences.simulationSeed ?? 0));
   const [notifications, setNotifications] = useState<NotificationSettings>({
     CRITICAL: ['email', 'sms', 'push', 'phone'],
     HIGH: ['email', 'sms', 'push'],
@@ -72,6 +73,8 @@ export function Settings() {
     updatePreferences({
       ...preferences,
       defaultSensitivity,
+      emailAddress: email,
+      simulationSeed: Number.parseInt(seed, 10) || 0,
     });
     
     // In real app, would save notification settings separately
@@ -322,6 +325,26 @@ export function Settings() {
                 </div>
               </div>
 
+              {/* Simulation Seed */}
+              <div>
+                <label htmlFor="simulationSeed" className="block text-sm font-semibold text-gray-900 mb-1">
+                  Simulation Seed
+                </label>
+                <p className="text-xs text-gray-500 mb-3">
+                  Demo data for campaigns without their own seed is drawn from this one, so the same
+                  seed and clock replay the same metrics and alarms. Applies to data generated after
+                  saving.
+                </p>
+                <input
+                  id="simulationSeed"
+                  type="number"
+                  step={1}
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                  className="w-40 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
               {/* Theme (Future) */}
               <div>
                 <label className="block text-sm font-semibold text-gray-900 mb-3">
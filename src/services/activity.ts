@@ -0,0 +1,174 @@
+/**
+ * Alarm activity log - an append-only record of what happened to each alarm
+ * and what people tried, so whoever picks it up next can catch up
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Alarm, AlarmEvent } from '@/types';
+import { appendAlarmEvent, getAlarmEventsByAlarm } from '@/utils/storage';
+import { formatDateTime, formatMinutes } from '@/utils/helpers';
+
+// Percentage points the deviation has to move before a new reading is logged
+const VALUE_UPDATE_STEP = 5;
+
+// '@ana', '@ana.lee' or '@ana@example.com'
+const MENTION_PATTERN = /(?:^|\s)@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+type AlarmEventFields = Omit<AlarmEvent, 'id' | 'alarmId' | 'type' | 'at'>;
+
+/**
+ * Append an event to an alarm's log
+ */
+export function recordAlarmEvent(
+  alarmId: string,
+  type: AlarmEvent['type'],
+  fields: AlarmEventFields = {},
+  at: Date = new Date()
+): AlarmEvent {
+  const event: AlarmEvent = { id: uuidv4(), alarmId, type, at: at.toISOString(), ...fields };
+  appendAlarmEvent(event);
+  return event;
+}
+
+/**
+ * Log a reading taken while an alarm is open, when it has moved far enough
+ * from the last one logged to be worth a line
+ */
+export function recordAlarmReading(
+  alarm: Alarm,
+  currentValue: number,
+  deviationPercent: number,
+  at: Date
+): void {
+  const lastReading = getAlarmEventsByAlarm(alarm.id)
+    .filter((e) => e.deviationPercent !== undefined)
+    .pop();
+  const lastDeviation = lastReading?.deviationPercent ?? alarm.deviationPercent;
+  if (Math.abs(deviationPercent - lastDeviation) < VALUE_UPDATE_STEP) return;
+
+  recordAlarmEvent(alarm.id, 'VALUE_UPDATED', { currentValue, deviationPercent }, at);
+}
+
+/**
+ * Users @mentioned in a comment, without duplicates
+ */
+export function parseMentions(text: string): string[] {
+  // A sentence can end right after a mention: '@ana.'
+  return [
+    ...new Set([...text.matchAll(MENTION_PATTERN)].map((match) => match[1].replace(/\.+$/, ''))),
+  ];
+}
+
+/**
+ * Add a user's comment to an alarm's log
+ */
+export function addAlarmComment(alarmId: string, user: string, text: string): AlarmEvent {
+  const mentions = parseMentions(text);
+  return recordAlarmEvent(alarmId, 'COMMENT', {
+    actor: user,
+    text,
+    mentions: mentions.length > 0 ? mentions : undefined,
+  });
+}
+
+/**
+ * An alarm's log in time order. Alarms raised before the log existed get
+ * their trigger and resolution filled in from the alarm itself.
+ */
+export function getAlarmActivity(alarm: Alarm, events: AlarmEvent[]): AlarmEvent[] {
+  const logged = events.filter((e) => e.alarmId === alarm.id);
+  const filled: AlarmEvent[] = [];
+
+  if (!logged.some((e) => e.type === 'TRIGGERED')) {
+    filled.push({
+      id: `${alarm.id}-triggered`,
+      alarmId: alarm.id,
+      type: 'TRIGGERED',
+      at: alarm.triggeredAt,
+      currentValue: alarm.currentValue,
+      deviationPercent: alarm.deviationPercent,
+      toSeverity: alarm.severity,
+    });
+  }
+  if (alarm.resolvedAt && !logged.some((e) => e.type === 'RESOLVED' || e.type === 'DISMISSED')) {
+    filled.push({
+      id: `${alarm.id}-closed`,
+      alarmId: alarm.id,
+      type: alarm.state === 'DISMISSED' ? 'DISMISSED' : 'RESOLVED',
+      at: alarm.resolvedAt,
+      resolutionMethod: alarm.resolutionMethod,
+    });
+  }
+
+  return [...filled, ...logged].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+function formatDeviation(deviationPercent: number | undefined): string {
+  if (deviationPercent === undefined) return '';
+  return `${deviationPercent > 0 ? '+' : ''}${deviationPercent.toFixed(1)}% vs expected`;
+}
+
+/**
+ * Title and one-line description of an event, for the alarm timeline
+ */
+export function describeAlarmEvent(event: AlarmEvent, alarm: Alarm): { title: string; description: string } {
+  const by = event.actor ? ` by ${event.actor}` : '';
+
+  switch (event.type) {
+    case 'TRIGGERED':
+      return {
+        title: 'Alarm triggered',
+        description: `${event.toSeverity ?? alarm.severity} · ${formatDeviation(event.deviationPercent)}`,
+      };
+    case 'VALUE_UPDATED':
+      return { title: 'Reading updated', description: formatDeviation(event.deviationPercent) };
+    case 'SEVERITY_CHANGED':
+      return {
+        title: 'Severity escalated',
+        description: `${event.fromSeverity} → ${event.toSeverity} · ${formatDeviation(event.deviationPercent)}`,
+      };
+    case 'ACKNOWLEDGED':
+      return {
+        title: `Acknowledged${by}`,
+        description: `After ${formatMinutes(
+          (new Date(event.at).getTime() - new Date(alarm.triggeredAt).getTime()) / 60000
+        )}`,
+      };
+    case 'UNACKNOWLEDGED':
+      return { title: `Unacknowledged${by}`, description: 'Back to active' };
+    case 'ASSIGNED':
+      return {
+        title: event.assignee ? `Assigned to ${event.assignee}` : 'Unassigned',
+        description: event.actor ? `By ${event.actor}` : '',
+      };
+    case 'SNOOZED':
+      return {
+        title: `Snoozed${by}`,
+        description: `Until ${event.snoozedUntil ? formatDateTime(event.snoozedUntil) : '—'}${
+          event.text ? ` · ${event.text}` : ''
+        }`,
+      };
+    case 'WOKEN':
+      return {
+        title: 'Snooze ended',
+        description: event.toState === 'RESOLVED' ? 'Monitor had recovered' : 'Monitor still in alarm',
+      };
+    case 'COMMENT':
+      return { title: `${event.actor ?? 'Someone'} commented`, description: event.text ?? '' };
+    case 'RECOMMENDATION_APPLIED':
+      return { title: `Recommendation applied${by}`, description: event.text ?? '' };
+    case 'RESOLVED':
+      return {
+        title: `Resolved${by}`,
+        description:
+          event.resolutionMethod === 'AUTO_RESOLVED' ? 'Metric returned to normal' : 'Resolved by hand',
+      };
+    case 'REOPENED':
+      return {
+        title: 'Re-opened',
+        description: `Breached again soon after recovering · ${formatDeviation(event.deviationPercent)}`,
+      };
+    case 'DISMISSED':
+      return { title: `Dismissed${by}`, description: '' };
+  }
+}
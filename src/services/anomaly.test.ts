@@ -0,0 +1,598 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  AlarmPolicy,
+  Campaign,
+  DimensionSlice,
+  MaintenanceWindow,
+  MetricValue,
+  Monitor,
+  MonitorState,
+  MonitorStateData,
+} from '@/types';
+import {
+  applyAlarmPolicy,
+  computeMonitorState,
+  DEFAULT_ALARM_POLICY,
+  acknowledgeAlarm,
+  autoResolveAlarms,
+  evaluateMonitor,
+  getAlarmReading,
+  snoozeAlarm,
+  wakeSnoozedAlarms,
+  type MonitorDataSource,
+} from './anomaly';
+import {
+  getAlarm,
+  getAlarmEventsByAlarm,
+  getAlarms,
+  saveMaintenanceWindow,
+} from '@/utils/storage';
+
+const START = Date.UTC(2026, 0, 5, 12);
+const STEP_MINUTES = 5;
+
+// No damping beyond what each test turns on
+const UNDAMPED: AlarmPolicy = {
+  ...DEFAULT_ALARM_POLICY,
+  recoveryRatio: 1,
+  minBreachMinutes: 0,
+  cooldownMinutes: 0,
+  flapThreshold: Infinity,
+};
+
+/**
+ * Run a monitor through one raw verdict per step: the signal's breach level
+ * (>= 1 is over the alarm threshold), evaluated every STEP_MINUTES
+ */
+function replay(breachLevels: number[], policy: AlarmPolicy): MonitorStateData[] {
+  const states: MonitorStateData[] = [];
+  breachLevels.forEach((breachLevel, i) => {
+    const now = new Date(START + i * STEP_MINUTES * 60 * 1000);
+    const state: MonitorStateData = {
+      monitorId: 'monitor-1',
+      state: breachLevel >= 1 ? 'IN_ALARM' : 'OK',
+      currentValue: 0,
+      expectedValue: 0,
+      anomalyScore: breachLevel,
+      breachLevel,
+      enteredStateAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    applyAlarmPolicy(state, states[i - 1], policy, now);
+    states.push(state);
+  });
+  return states;
+}
+
+function statesOf(breachLevels: number[], policy: AlarmPolicy): MonitorState[] {
+  return replay(breachLevels, policy).map((s) => s.state);
+}
+
+describe('applyAlarmPolicy', () => {
+  describe('hysteresis', () => {
+    const policy = { ...UNDAMPED, recoveryRatio: 0.8 };
+
+    it('enters at the alarm threshold but only recovers well inside it', () => {
+      expect(statesOf([0.5, 1.2, 0.9, 0.85, 0.7, 0.9], policy)).toEqual([
+        'OK',
+        'IN_ALARM',
+        'IN_ALARM',
+        'IN_ALARM',
+        'OK',
+        'OK',
+      ]);
+    });
+
+    it('opens and closes on every crossing without it', () => {
+      expect(statesOf([1.2, 0.9, 1.2, 0.9], UNDAMPED)).toEqual(['IN_ALARM', 'OK', 'IN_ALARM', 'OK']);
+    });
+  });
+
+  describe('minimum breach time', () => {
+    const policy = { ...UNDAMPED, minBreachMinutes: 15 };
+
+    it('alarms once the breach has lasted long enough', () => {
+      expect(statesOf([1.5, 1.5, 1.5, 1.5, 1.5], policy)).toEqual([
+        'OK',
+        'OK',
+        'OK',
+        'IN_ALARM',
+        'IN_ALARM',
+      ]);
+    });
+
+    it('starts counting again after the signal clears', () => {
+      const states = replay([1.5, 1.5, 0.5, 1.5, 1.5, 1.5, 1.5], policy);
+      expect(states.map((s) => s.state)).toEqual(['OK', 'OK', 'OK', 'OK', 'OK', 'OK', 'IN_ALARM']);
+      expect(states[3].breachStartedAt).toBe(states[3].updatedAt);
+    });
+  });
+
+  describe('cooldown', () => {
+    const policy = { ...UNDAMPED, cooldownMinutes: 20 };
+
+    it('holds off a new alarm until the cooldown after recovering has passed', () => {
+      const states = replay([1.5, 0.5, 1.5, 1.5, 1.5, 1.5, 1.5], policy);
+      expect(states.map((s) => s.state)).toEqual([
+        'IN_ALARM',
+        'OK',
+        'OK',
+        'OK',
+        'OK',
+        'IN_ALARM', // 20 minutes after recovering
+        'IN_ALARM',
+      ]);
+      expect(states[1].lastRecoveredAt).toBe(states[1].updatedAt);
+    });
+  });
+
+  describe('flapping', () => {
+    const policy = { ...UNDAMPED, flapThreshold: 4, flapWindowMinutes: 30 };
+
+    it('marks a monitor unstable and holds its state instead of toggling', () => {
+      const states = replay([1.5, 0.5, 1.5, 0.5, 1.5, 0.5, 1.5, 0.5], policy);
+
+      expect(states.slice(0, 4).map((s) => s.state)).toEqual(['IN_ALARM', 'OK', 'IN_ALARM', 'OK']);
+      expect(states[4].unstable).toBe(true);
+      expect(states.slice(4).map((s) => s.state)).toEqual(['OK', 'OK', 'OK', 'OK']);
+    });
+
+    it('becomes stable again once the flips age out of the window', () => {
+      const quiet = new Array(7).fill(0.5);
+      const states = replay([1.5, 0.5, 1.5, 0.5, 1.5, ...quiet, 1.5], policy);
+
+      expect(states[4].unstable).toBe(true);
+      expect(states[states.length - 2].unstable).toBe(false);
+      expect(states[states.length - 1].state).toBe('IN_ALARM');
+    });
+  });
+
+  it('applies all of the defaults together', () => {
+    // A signal hovering around the threshold raises one alarm, not one per crossing
+    const levels = [1.1, 0.95, 1.05, 0.9, 1.1, 0.95, 1.05, 0.9];
+    const states = statesOf(levels, DEFAULT_ALARM_POLICY);
+    const opened = states.filter((s, i) => s === 'IN_ALARM' && states[i - 1] !== 'IN_ALARM');
+    expect(opened).toHaveLength(1);
+  });
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date(Date.UTC(2026, 2, 11, 12)); // A Wednesday, clear of built-in calendar events
+const HISTORY_HOURS = 14 * 24;
+
+const campaign: Campaign = {
+  id: 'anomaly-1',
+  name: 'Anomaly',
+  vertical: 'E-commerce',
+  objective: 'Performance',
+  dailyBudget: 1000,
+  startDate: '2026-01-01',
+  endDate: '2026-12-31',
+  status: 'ACTIVE',
+  targeting: { geos: ['US'], devices: ['Desktop', 'Mobile'] },
+  monitoringEnabled: true,
+  anomalyDetectionEnabled: true,
+  sensitivity: 'Balanced',
+  timezone: 'UTC',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function createMonitor(overrides: Partial<Monitor> = {}): Monitor {
+  return {
+    id: 'monitor-1',
+    campaignId: campaign.id,
+    metricId: 'impressions',
+    metricName: 'Impressions',
+    metricCategory: 'Volume',
+    monitorType: 'SIMPLE',
+    enabled: true,
+    sensitivity: 'Balanced',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Two weeks of hourly readings up to NOW, wobbling a few percent around `value`
+ */
+function steadyHistory(metricId: string, value: number, dimensions?: DimensionSlice): MetricValue[] {
+  return Array.from({ length: HISTORY_HOURS }, (_, i) => ({
+    campaignId: campaign.id,
+    metricId,
+    timestamp: new Date(NOW.getTime() - (HISTORY_HOURS - i) * HOUR_MS).toISOString(),
+    value: value * (1 + 0.03 * Math.sin(i)),
+    dimensions,
+  }));
+}
+
+/**
+ * Stored history plus the readings at NOW: campaign totals per metric and,
+ * optionally, each slice's reading
+ */
+function fixedSource(
+  history: MetricValue[],
+  current: Record<string, number>,
+  slices: Record<string, Array<{ dimensions: DimensionSlice; value: number }>> = {}
+): MonitorDataSource {
+  return {
+    getHistory: (metricId) => history.filter((v) => v.metricId === metricId),
+    getCurrentValue: (metricId) => current[metricId] ?? 0,
+    getCurrentSliceValues: (metricId) => slices[metricId] ?? [],
+  };
+}
+
+function judge(monitor: Monitor, source: MonitorDataSource, previous?: MonitorStateData) {
+  return computeMonitorState(monitor, campaign, source, NOW, previous);
+}
+
+describe('computeMonitorState', () => {
+  describe('direction', () => {
+    const history = steadyHistory('impressions', 1000);
+    const drop = fixedSource(history, { impressions: 400 });
+    const spike = fixedSource(history, { impressions: 2500 });
+
+    it('alarms only on moves in the direction the monitor watches', () => {
+      expect(judge(createMonitor({ direction: 'DOWN' }), drop).state).toBe('IN_ALARM');
+      expect(judge(createMonitor({ direction: 'DOWN' }), spike).state).toBe('OK');
+      expect(judge(createMonitor({ direction: 'UP' }), drop).state).toBe('OK');
+      expect(judge(createMonitor({ direction: 'UP' }), spike).state).toBe('IN_ALARM');
+    });
+
+    it('alarms on either move when watching both directions', () => {
+      expect(judge(createMonitor({ direction: 'BOTH' }), drop).state).toBe('IN_ALARM');
+      expect(judge(createMonitor({ direction: 'BOTH' }), spike).state).toBe('IN_ALARM');
+    });
+
+    it("falls back to the metric's alarm direction", () => {
+      // Impressions alarm on a drop; a spike is good news
+      expect(judge(createMonitor(), drop).state).toBe('IN_ALARM');
+      const state = judge(createMonitor(), spike);
+      expect(state.state).toBe('OK');
+      expect(state.anomalyScore).toBeGreaterThan(0);
+      expect(state.breachLevel).toBe(0);
+    });
+  });
+
+  describe('granular slices', () => {
+    const desktop = { device: 'Desktop' };
+    const mobile = { device: 'Mobile' };
+    const monitor = createMonitor({
+      metricName: 'Impressions by Device',
+      monitorType: 'GRANULAR',
+      granularDimensions: ['device'],
+    });
+    const history = [
+      ...steadyHistory('impressions', 1000),
+      ...steadyHistory('impressions', 700, desktop),
+      ...steadyHistory('impressions', 300, mobile),
+    ];
+
+    it('judges each slice against its own baseline and names the offending ones', () => {
+      // Mobile has halved while Desktop picked up the traffic, so the total holds
+      const source = fixedSource(history, { impressions: 970 }, {
+        impressions: [
+          { dimensions: desktop, value: 820 },
+          { dimensions: mobile, value: 150 },
+        ],
+      });
+      const state = judge(monitor, source);
+
+      expect(judge(createMonitor(), source).state).toBe('OK');
+      expect(state.state).toBe('IN_ALARM');
+      expect(state.dimensions!['device=Desktop'].inAlarm).toBe(false);
+      expect(state.dimensions!['device=Mobile'].inAlarm).toBe(true);
+      expect(state.dimensions!['device=Mobile'].expectedValue).toBeCloseTo(300, -1);
+
+      const reading = getAlarmReading(monitor, state);
+      expect(reading.affectedSlices).toEqual(['device=Mobile']);
+      expect(reading.currentValue).toBe(150);
+    });
+
+    it('skips slices on dimensions the monitor does not break down by', () => {
+      const source = fixedSource(history, { impressions: 1000 }, {
+        impressions: [
+          { dimensions: desktop, value: 700 },
+          { dimensions: { geo: 'US' }, value: 10 },
+          { dimensions: { device: 'Mobile', geo: 'US' }, value: 10 },
+        ],
+      });
+      const state = judge(monitor, source);
+
+      expect(Object.keys(state.dimensions!)).toEqual(['device=Desktop']);
+      expect(state.state).toBe('OK');
+    });
+
+    it('marks slices without enough volume as insufficient data instead of alarming', () => {
+      const ctrMonitor = createMonitor({
+        metricId: 'ctr',
+        metricName: 'CTR by Device',
+        metricCategory: 'Efficiency',
+        monitorType: 'GRANULAR',
+        granularDimensions: ['device'],
+      });
+      const ctrHistory = [
+        ...steadyHistory('ctr', 2),
+        ...steadyHistory('ctr', 2, desktop),
+        ...steadyHistory('ctr', 2, mobile),
+      ];
+      // CTR collapses on both devices, but Mobile served under the 1,000 impressions CTR needs
+      const source = fixedSource(ctrHistory, { ctr: 0.6, impressions: 5000 }, {
+        ctr: [
+          { dimensions: desktop, value: 0.5 },
+          { dimensions: mobile, value: 0.5 },
+        ],
+        impressions: [
+          { dimensions: desktop, value: 4400 },
+          { dimensions: mobile, value: 600 },
+        ],
+      });
+      const state = judge(ctrMonitor, source);
+
+      expect(state.dimensions!['device=Desktop'].inAlarm).toBe(true);
+      expect(state.dimensions!['device=Mobile'].inAlarm).toBe(false);
+      expect(state.dimensions!['device=Mobile'].insufficientData).toBe(true);
+      expect(getAlarmReading(ctrMonitor, state).affectedSlices).toEqual(['device=Desktop']);
+    });
+  });
+
+  describe('volume guard on ratio metrics', () => {
+    const monitor = createMonitor({ metricId: 'cvr', metricName: 'CVR', metricCategory: 'Efficiency' });
+    const history = steadyHistory('cvr', 5);
+    // CVR has collapsed - on how many clicks decides whether that means anything
+    const collapsed = (clicks: number) => fixedSource(history, { cvr: 1, clicks });
+
+    it('judges the ratio once the denominator has enough volume', () => {
+      const state = judge(monitor, collapsed(400));
+
+      expect(state.state).toBe('IN_ALARM');
+      expect(state.insufficientData).toBeUndefined();
+    });
+
+    it('records insufficient data instead of a verdict below the minimum volume', () => {
+      const state = judge(monitor, collapsed(40));
+
+      expect(state.state).toBe('OK');
+      expect(state.insufficientData).toEqual({ metricId: 'clicks', volume: 40, minVolume: 100 });
+    });
+
+    it('holds the previous verdict while volume is short', () => {
+      const previous = judge(monitor, collapsed(400));
+      const state = judge(monitor, fixedSource(history, { cvr: 5, clicks: 40 }), previous);
+
+      expect(state.state).toBe('IN_ALARM');
+      expect(state.insufficientData?.volume).toBe(40);
+    });
+
+    it("uses the monitor's own minimum over the metric's", () => {
+      const state = judge({ ...monitor, minVolume: 500 }, collapsed(400));
+
+      expect(state.insufficientData).toEqual({ metricId: 'clicks', volume: 400, minVolume: 500 });
+    });
+  });
+
+  describe('multi-metric rules', () => {
+    const monitor = createMonitor({
+      metricId: 'spend',
+      metricName: 'Spend Up & Conversions Down',
+      metricCategory: 'Financial',
+      monitorType: 'COMPOSITE',
+      direction: 'UP',
+      compositeRule: {
+        type: 'AND',
+        conditions: [
+          { type: 'CONDITION', metricId: 'spend', direction: 'UP', thresholdPercent: 20 },
+          { type: 'NOT', condition: { type: 'CONDITION', metricId: 'conversions', direction: 'UP' } },
+        ],
+      },
+    });
+    const history = [...steadyHistory('spend', 40), ...steadyHistory('conversions', 10)];
+
+    it('alarms when the whole rule holds, recording each condition', () => {
+      const state = judge(monitor, fixedSource(history, { spend: 60, conversions: 10 }));
+
+      expect(state.state).toBe('IN_ALARM');
+      expect(state.conditionResults).toMatchObject([
+        { metricId: 'spend', met: true, negated: false },
+        { metricId: 'conversions', met: false, negated: true },
+      ]);
+      expect(state.conditionResults![0].deviationPercent).toBeCloseTo(50, -1);
+    });
+
+    it('stays OK when a negated condition is true', () => {
+      // More spend, but it's buying more conversions
+      const state = judge(monitor, fixedSource(history, { spend: 60, conversions: 20 }));
+
+      expect(state.state).toBe('OK');
+      expect(state.conditionResults!.map((r) => r.met)).toEqual([true, true]);
+    });
+  });
+});
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Alarms and maintenance windows live in cookies - a jar behind
+ * document.cookie, as a browser keeps them
+ */
+function stubCookies(): void {
+  const jar = new Map<string, string>();
+  vi.stubGlobal('document', {
+    get cookie() {
+      return [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+    },
+    set cookie(cookie: string) {
+      const [pair, ...attributes] = cookie.split(';');
+      const name = pair.slice(0, pair.indexOf('='));
+      const expires = attributes.find((a) => a.trim().startsWith('expires='));
+      if (expires && new Date(expires.trim().slice('expires='.length)).getTime() < Date.now()) {
+        jar.delete(name);
+      } else {
+        jar.set(name, pair.slice(pair.indexOf('=') + 1));
+      }
+    },
+  });
+}
+
+function stubLocalStorage(): void {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+    clear: () => items.clear(),
+  });
+}
+
+describe('evaluateMonitor', () => {
+  const history = steadyHistory('impressions', 1000);
+  const drop = fixedSource(history, { impressions: 400 });
+  const minutesLater = (minutes: number) => new Date(NOW.getTime() + minutes * MINUTE_MS);
+
+  beforeEach(() => {
+    stubCookies();
+    stubLocalStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('maintenance windows', () => {
+    const window: MaintenanceWindow = {
+      id: 'window-1',
+      reason: 'Ad server migration',
+      scope: { type: 'MONITOR', monitorId: 'monitor-1' },
+      startsAt: new Date(NOW.getTime() - HOUR_MS).toISOString(),
+      endsAt: minutesLater(15).toISOString(),
+      recurrence: 'NONE',
+      createdAt: '2026-03-01T00:00:00.000Z',
+    };
+
+    it('keeps judging a monitor under a window but raises no alarm until it ends', async () => {
+      saveMaintenanceWindow(window);
+      const monitor = createMonitor();
+
+      const during = await evaluateMonitor(monitor, campaign, NOW, drop);
+      expect(during.state.state).toBe('IN_ALARM');
+      expect(during.state.suppressedBy).toBe(window.id);
+      expect(during.alarm).toBeUndefined();
+      expect(getAlarms()).toHaveLength(0);
+
+      const after = await evaluateMonitor(monitor, campaign, minutesLater(20), drop);
+      expect(after.state.suppressedBy).toBeUndefined();
+      expect(after.alarm).toBeDefined();
+      expect(getAlarms()).toHaveLength(1);
+    });
+
+    it("leaves monitors outside the window's scope alarming", async () => {
+      saveMaintenanceWindow({ ...window, scope: { type: 'CAMPAIGN', campaignId: 'another-campaign' } });
+
+      const { alarm } = await evaluateMonitor(createMonitor(), campaign, NOW, drop);
+      expect(alarm).toBeDefined();
+    });
+  });
+
+  describe('snooze', () => {
+    const monitor = createMonitor();
+
+    // An open alarm snoozed for an hour, and the monitor's state when it wakes
+    async function snoozedAlarm(stillFiring: boolean) {
+      const { state, alarm } = await evaluateMonitor(monitor, campaign, NOW, drop);
+      snoozeAlarm(alarm!.id, minutesLater(60), 'Known creative swap', 'analyst');
+      const wakeState: MonitorStateData = { ...state, state: stillFiring ? 'IN_ALARM' : 'OK' };
+      return { id: alarm!.id, state: wakeState };
+    }
+
+    it('keeps an alarm snoozed until its snooze runs out', async () => {
+      const { id, state } = await snoozedAlarm(true);
+
+      wakeSnoozedAlarms(monitor, state, minutesLater(30));
+      expect(getAlarm(id)?.state).toBe('SNOOZED');
+      expect(getAlarm(id)?.snoozeReason).toBe('Known creative swap');
+    });
+
+    it('brings the alarm back when the monitor is still in alarm', async () => {
+      const { id, state } = await snoozedAlarm(true);
+
+      wakeSnoozedAlarms(monitor, state, minutesLater(60));
+      expect(getAlarm(id)?.state).toBe('ACTIVE');
+      expect(getAlarm(id)?.snoozedUntil).toBeUndefined();
+    });
+
+    it('wakes an acknowledged alarm as acknowledged', async () => {
+      const { state, alarm } = await evaluateMonitor(monitor, campaign, NOW, drop);
+      acknowledgeAlarm(alarm!.id, 'analyst');
+      snoozeAlarm(alarm!.id, minutesLater(60), 'Looking into it', 'analyst');
+
+      wakeSnoozedAlarms(monitor, state, minutesLater(90));
+      expect(getAlarm(alarm!.id)?.state).toBe('ACKNOWLEDGED');
+    });
+
+    it('resolves the alarm when the monitor recovered during the snooze', async () => {
+      const { id, state } = await snoozedAlarm(false);
+
+      wakeSnoozedAlarms(monitor, state, minutesLater(60));
+      expect(getAlarm(id)?.state).toBe('RESOLVED');
+      expect(getAlarm(id)?.resolutionMethod).toBe('AUTO_RESOLVED');
+    });
+  });
+
+  describe('escalation and re-opening', () => {
+    // Re-breaching straight after recovering is allowed, so re-opening is what decides
+    const monitor = createMonitor({ alarmPolicy: { cooldownMinutes: 0, reopenWindowMinutes: 30 } });
+    const reading = (impressions: number) => fixedSource(history, { impressions });
+
+    async function evaluateAt(minutes: number, impressions: number) {
+      const now = minutesLater(minutes);
+      const result = await evaluateMonitor(monitor, campaign, now, reading(impressions));
+      autoResolveAlarms(monitor, result.state, now);
+      return result;
+    }
+
+    it('escalates an open alarm as the deviation deepens, keeping its peak', async () => {
+      const { alarm } = await evaluateAt(0, 650);
+      expect(alarm?.severity).toBe('MEDIUM');
+
+      await evaluateAt(5, 300);
+      await evaluateAt(10, 550);
+
+      const updated = getAlarm(alarm!.id)!;
+      expect(getAlarms()).toHaveLength(1);
+      expect(updated.severity).toBe('CRITICAL');
+      expect(updated.currentValue).toBe(550);
+      expect(updated.peakDeviationPercent).toBeCloseTo(-70, -1);
+      const escalations = getAlarmEventsByAlarm(alarm!.id).filter((e) => e.type === 'SEVERITY_CHANGED');
+      expect(escalations).toHaveLength(1);
+      expect(escalations[0].toSeverity).toBe('CRITICAL');
+    });
+
+    it('re-opens an alarm that breaches again within the re-open window', async () => {
+      const { alarm } = await evaluateAt(0, 400);
+      await evaluateAt(5, 1000);
+      expect(getAlarm(alarm!.id)?.state).toBe('RESOLVED');
+
+      const again = await evaluateAt(20, 400);
+
+      expect(again.alarm?.id).toBe(alarm!.id);
+      expect(getAlarms()).toHaveLength(1);
+      expect(getAlarm(alarm!.id)).toMatchObject({ state: 'ACTIVE', reopenCount: 1 });
+      expect(getAlarm(alarm!.id)?.resolvedAt).toBeUndefined();
+    });
+
+    it('opens a new alarm once the re-open window has passed', async () => {
+      const { alarm } = await evaluateAt(0, 400);
+      await evaluateAt(5, 1000);
+
+      const later = await evaluateAt(45, 400);
+
+      expect(later.alarm?.id).not.toBe(alarm!.id);
+      expect(getAlarms()).toHaveLength(2);
+      expect(getAlarm(alarm!.id)?.state).toBe('RESOLVED');
+    });
+  });
+});
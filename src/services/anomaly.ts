@@ -4,20 +4,34 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type {
+  AlarmPolicy,
   Campaign,
   Monitor,
   MonitorStateData,
   Alarm,
   AlarmSeverity,
+  BaselineModel,
+  ConditionResult,
+  DimensionSlice,
+  MetricCondition,
   MetricValue,
+  MonitorDirection,
   Sensitivity,
+  SliceEvaluation,
 } from '@/types';
 import { DEFAULT_METRICS } from '@/types';
 import {
   getSensitivityThreshold,
+  getSensitivityScoreThreshold,
+  getSensitivityIntervalZ,
+  getStricterSensitivity,
   calculateDeviation,
+  calculateAnomalyScore,
   calculateSeverity,
+  isAdverseDirection,
   isInAlarm,
+  isOpenAlarm,
+  getSliceKey,
 } from '@/utils/helpers';
 import {
   getMetricValuesByCampaignAndMetric,
@@ -25,9 +39,302 @@ import {
   saveMonitorState,
   getAlarms,
   saveAlarm,
+  saveAlarmBreakdown,
+  getMaintenanceWindows,
+  saveMetricReadings,
 } from '@/utils/storage';
-import { generateExpectedValue, generateCurrentMetricValue } from './simulation';
+import {
+  generateExpectedValue,
+  generateCurrentMetricValue,
+  generateCurrentSliceValues,
+  getReadingHour,
+} from './simulation';
 import { generateAlarmInsights } from './gemini';
+import {
+  computeBaseline,
+  computeDispersion,
+  getAggregateSeries,
+  DEFAULT_BASELINE_MODEL,
+} from './baseline';
+import { fitHoltWinters, forecastAt } from './forecast';
+import { detectDrift } from './changepoint';
+import { buildAttribution } from './attribution';
+import { evaluateCompositeRule } from './composite';
+import { forecastPacing, getPacingBreach } from './pacing';
+import { getActiveEvents, getEventFactor, type MarketWeight } from './calendar';
+import { getActiveWindow } from './maintenance';
+import { recordAlarmEvent, recordAlarmReading } from './activity';
+import { getCampaignTimezone, getSliceTimezone } from '@/utils/timezone';
+import {
+  buildStaleDataInsights,
+  checkCampaignFreshness,
+  getDataFreshness,
+  getStaleDataSeverity,
+} from './freshness';
+
+export const DEFAULT_ALARM_POLICY: AlarmPolicy = {
+  recoveryRatio: 0.8,
+  minBreachMinutes: 0,
+  cooldownMinutes: 30,
+  flapThreshold: 4,
+  flapWindowMinutes: 120,
+  reopenWindowMinutes: 120,
+};
+
+const SEVERITY_RANK: AlarmSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+/**
+ * Alarm damping for a monitor - its own overrides on top of the defaults
+ */
+export function getAlarmPolicy(monitor: Monitor): AlarmPolicy {
+  return { ...DEFAULT_ALARM_POLICY, ...monitor.alarmPolicy };
+}
+
+/**
+ * Denominator a ratio monitor needs enough of before its readings are judged
+ * (e.g. at least 100 clicks behind a CVR), or null for non-ratio metrics
+ */
+export function getVolumeGuard(monitor: Monitor): { metricId: string; minVolume: number } | null {
+  const metric = DEFAULT_METRICS.find((m) => m.id === monitor.metricId);
+  const denominatorId = metric?.isRatio ? metric.dependsOn?.[1] : undefined;
+  const minVolume = monitor.minVolume ?? metric?.minVolume;
+  if (!denominatorId || minVolume === undefined) return null;
+  return { metricId: denominatorId, minVolume };
+}
+
+/**
+ * Direction a monitor alarms in - its own setting, else the metric's default
+ */
+export function getMonitorDirection(monitor: Monitor): MonitorDirection {
+  if (monitor.direction) return monitor.direction;
+  return DEFAULT_METRICS.find((m) => m.id === monitor.metricId)?.alarmDirection ?? 'BOTH';
+}
+
+/**
+ * Anomaly score for a reading. Without a historical scale (not enough history
+ * yet) the percentage deviation is expressed on the score scale instead.
+ */
+function scoreDeviation(
+  current: number,
+  expected: number,
+  sensitivity: Sensitivity,
+  scale?: number
+): number {
+  if (scale) {
+    return calculateAnomalyScore(current, expected, scale);
+  }
+
+  const deviation = calculateDeviation(current, expected);
+  return (
+    (deviation / 100 / getSensitivityThreshold(sensitivity)) *
+    getSensitivityScoreThreshold(sensitivity)
+  );
+}
+
+/**
+ * Where an evaluation reads its data: the live feed, or stored history
+ * replayed at a past hour (backtests). History may run past the evaluation
+ * time - every consumer only looks at points before it.
+ */
+export interface MonitorDataSource {
+  getHistory(metricId: string): MetricValue[];
+  getCurrentValue(metricId: string): number;
+  getCurrentSliceValues(
+    metricId: string,
+    currentValue: number
+  ): Array<{ dimensions: DimensionSlice; value: number }>;
+}
+
+interface LiveDataSource extends MonitorDataSource {
+  // Campaign-level readings the feed reported, on the history's hourly grid
+  getReadings(): MetricValue[];
+}
+
+/**
+ * Live readings at `now` on top of stored history. Readings are taken once
+ * per metric so every check in an evaluation sees the same value; a feed
+ * that reports nothing (a scripted gap) reads as zero and isn't recorded.
+ */
+function createLiveDataSource(campaign: Campaign, now: Date): LiveDataSource {
+  const histories = new Map<string, MetricValue[]>();
+  const readings = new Map<string, number | undefined>();
+
+  return {
+    getHistory: (metricId) => {
+      if (!histories.has(metricId)) {
+        histories.set(metricId, getMetricValuesByCampaignAndMetric(campaign.id, metricId));
+      }
+      return histories.get(metricId)!;
+    },
+    getCurrentValue: (metricId) => {
+      if (!readings.has(metricId)) {
+        readings.set(
+          metricId,
+          generateCurrentMetricValue(
+            campaign,
+            metricId,
+            generateExpectedValue(campaign, metricId),
+            now
+          )
+        );
+      }
+      return readings.get(metricId) ?? 0;
+    },
+    getCurrentSliceValues: (metricId, currentValue) =>
+      generateCurrentSliceValues(campaign, metricId, currentValue, now),
+    getReadings: () => {
+      const timestamp = getReadingHour(now, getCampaignTimezone(campaign)).toISOString();
+      return [...readings].flatMap(([metricId, value]) =>
+        value === undefined ? [] : [{ campaignId: campaign.id, metricId, timestamp, value }]
+      );
+    },
+  };
+}
+
+interface MetricReading {
+  history: MetricValue[];
+  currentValue: number;
+  expectedValue: number;
+  baseline: ReturnType<typeof computeBaseline>;
+  dispersion: ReturnType<typeof computeDispersion>;
+}
+
+// Market weights of each data source, so an evaluation learns each only once
+const marketWeights = new WeakMap<MonitorDataSource, MarketWeight>();
+
+/**
+ * Usual traffic (impressions) of a slice at an instant, learned from its
+ * history - how much each market counts when only some have an event.
+ * Every monitor and slice asks again for each history point on an event day,
+ * so weights are kept for the rest of the evaluation.
+ */
+function getMarketWeight(source: MonitorDataSource, campaign: Campaign): MarketWeight {
+  const cached = marketWeights.get(source);
+  if (cached) return cached;
+
+  const history = source.getHistory('impressions');
+  const weights = new Map<string, number>();
+  const weightOf: MarketWeight = (slice, time) => {
+    const key = `${getSliceKey(slice)}|${time}`;
+    let weight = weights.get(key);
+    if (weight === undefined) {
+      weight =
+        computeBaseline(history, 'SEASONAL', new Date(time), slice, getSliceTimezone(campaign, slice))
+          ?.expectedValue ?? 0;
+      weights.set(key, weight);
+    }
+    return weight;
+  };
+  marketWeights.set(source, weightOf);
+  return weightOf;
+}
+
+/**
+ * Latest reading of a campaign metric with its learned baseline and spread
+ */
+function readMetric(
+  source: MonitorDataSource,
+  campaign: Campaign,
+  metricId: string,
+  baselineModel: BaselineModel,
+  now: Date
+): MetricReading {
+  const currentValue = source.getCurrentValue(metricId);
+
+  // Expected value is learned from the campaign's own history, so the same
+  // stored data always yields the same baseline, and moves with calendar
+  // events (e.g. traffic up on Black Friday)
+  const history = source.getHistory(metricId);
+  const timeZone = getCampaignTimezone(campaign);
+  const eventFactor = getEventFactor(campaign, metricId, undefined, getMarketWeight(source, campaign));
+  const baseline = computeBaseline(history, baselineModel, now, undefined, timeZone, eventFactor);
+  const expectedValue =
+    baseline?.expectedValue ??
+    generateExpectedValue(campaign, metricId) * (eventFactor?.(now.getTime()) ?? 1);
+
+  // Score against the metric's own normal variation at this hour-of-week, so
+  // noisy low-volume metrics and stable high-volume ones get appropriate bands
+  const dispersion = computeDispersion(history, now, undefined, timeZone, eventFactor);
+
+  return { history, currentValue, expectedValue, baseline, dispersion };
+}
+
+/**
+ * Signal relative to its alarm threshold (1 = at the threshold); moves in a
+ * direction the monitor doesn't watch count as 0
+ */
+function toBreachLevel(score: number, threshold: number, direction: MonitorDirection): number {
+  if (threshold <= 0 || !isAdverseDirection(score, direction)) return 0;
+  return Math.abs(score) / threshold;
+}
+
+/**
+ * Turn the detectors' raw verdict into the monitor's state: hysteresis on
+ * recovery, a minimum breach duration, a cooldown after recovering, and
+ * holding the state while the breach condition is flapping
+ */
+export function applyAlarmPolicy(
+  state: MonitorStateData,
+  previous: MonitorStateData | undefined,
+  policy: AlarmPolicy,
+  now: Date
+): void {
+  const nowMs = now.getTime();
+  const wasInAlarm = previous?.state === 'IN_ALARM';
+  const wasBreaching = previous?.breachStartedAt !== undefined || wasInAlarm;
+
+  // Once in alarm, stay there until the signal is well back inside the threshold
+  const breaching =
+    state.state === 'IN_ALARM' || (wasInAlarm && (state.breachLevel ?? 0) > policy.recoveryRatio);
+
+  state.breachStartedAt = breaching
+    ? previous?.breachStartedAt ?? (wasInAlarm ? previous?.enteredStateAt : undefined) ?? state.updatedAt
+    : undefined;
+  state.lastRecoveredAt = previous?.lastRecoveredAt;
+
+  const flapWindowStart = nowMs - policy.flapWindowMinutes * 60 * 1000;
+  state.recentFlips = (previous?.recentFlips ?? []).filter(
+    (flip) => new Date(flip).getTime() >= flapWindowStart
+  );
+  if (previous && breaching !== wasBreaching) {
+    state.recentFlips.push(state.updatedAt);
+  }
+  state.unstable = state.recentFlips.length >= policy.flapThreshold;
+
+  if (state.unstable) {
+    // Hold the previous state rather than opening and closing alarms
+    state.state = previous?.state ?? 'OK';
+    return;
+  }
+
+  if (wasInAlarm) {
+    state.state = breaching ? 'IN_ALARM' : 'OK';
+    if (!breaching) state.lastRecoveredAt = state.updatedAt;
+    return;
+  }
+
+  const breachMinutes = state.breachStartedAt
+    ? (nowMs - new Date(state.breachStartedAt).getTime()) / (60 * 1000)
+    : 0;
+  const coolingDown =
+    state.lastRecoveredAt !== undefined &&
+    nowMs - new Date(state.lastRecoveredAt).getTime() < policy.cooldownMinutes * 60 * 1000;
+
+  state.state =
+    breaching && breachMinutes >= policy.minBreachMinutes && !coolingDown ? 'IN_ALARM' : 'OK';
+}
+
+/**
+ * Keep the previous verdict (and its damping bookkeeping) for a reading that
+ * couldn't be judged
+ */
+function holdPreviousState(state: MonitorStateData, previous: MonitorStateData | undefined): void {
+  state.state = previous?.state ?? 'OK';
+  state.breachStartedAt = previous?.breachStartedAt;
+  state.lastRecoveredAt = previous?.lastRecoveredAt;
+  state.recentFlips = previous?.recentFlips;
+  state.unstable = previous?.unstable;
+}
 
 /**
  * Create default monitors for a campaign
@@ -52,6 +359,27 @@ export function createDefaultMonitors(campaign: Campaign): Monitor[] {
       monitorType: 'SIMPLE',
       enabled: true,
       sensitivity: campaign.sensitivity,
+      direction: metricDef.alarmDirection,
+      baselineModel: DEFAULT_BASELINE_MODEL,
+      createdAt: timestamp,
+    });
+  });
+
+  // Create budget monitors - judged on the pacing forecast, not a baseline
+  ['budget_utilization', 'pacing'].forEach((metricId) => {
+    const metricDef = DEFAULT_METRICS.find((m) => m.id === metricId);
+    if (!metricDef) return;
+
+    monitors.push({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      metricId,
+      metricName: metricDef.name,
+      metricCategory: metricDef.category,
+      monitorType: 'SIMPLE',
+      enabled: true,
+      sensitivity: campaign.sensitivity,
+      direction: metricDef.alarmDirection,
       createdAt: timestamp,
     });
   });
@@ -68,6 +396,8 @@ export function createDefaultMonitors(campaign: Campaign): Monitor[] {
       monitorType: 'COMPOSITE',
       enabled: true,
       sensitivity: campaign.sensitivity,
+      direction: ctrMetric.alarmDirection,
+      baselineModel: DEFAULT_BASELINE_MODEL,
       compositeConfig: {
         n: 2,
         m: 3,
@@ -76,6 +406,92 @@ export function createDefaultMonitors(campaign: Campaign): Monitor[] {
     });
   }
 
+  // Create multi-metric rule monitors for the combinations media buyers watch:
+  // paying more while converting less, and engagement dropping on viewable inventory
+  const spendMetric = DEFAULT_METRICS.find((m) => m.id === 'spend');
+  if (spendMetric) {
+    monitors.push({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      metricId: 'spend',
+      metricName: 'Spend Up & Conversions Down',
+      metricCategory: spendMetric.category,
+      monitorType: 'COMPOSITE',
+      enabled: true,
+      sensitivity: campaign.sensitivity,
+      direction: 'UP',
+      baselineModel: DEFAULT_BASELINE_MODEL,
+      compositeRule: {
+        type: 'AND',
+        conditions: [
+          { type: 'CONDITION', metricId: 'spend', direction: 'UP', thresholdPercent: 20 },
+          { type: 'CONDITION', metricId: 'conversions', direction: 'DOWN', thresholdPercent: 15 },
+        ],
+      },
+      createdAt: timestamp,
+    });
+  }
+
+  if (ctrMetric) {
+    monitors.push({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      metricId: 'ctr',
+      metricName: `${ctrMetric.name} Down, Viewability Normal`,
+      metricCategory: ctrMetric.category,
+      monitorType: 'COMPOSITE',
+      enabled: true,
+      sensitivity: campaign.sensitivity,
+      direction: 'DOWN',
+      baselineModel: DEFAULT_BASELINE_MODEL,
+      compositeRule: {
+        type: 'AND',
+        conditions: [
+          { type: 'CONDITION', metricId: 'ctr', direction: 'DOWN' },
+          { type: 'NOT', condition: { type: 'CONDITION', metricId: 'viewability', direction: 'BOTH' } },
+        ],
+      },
+      createdAt: timestamp,
+    });
+  }
+
+  // Create forecast monitor for impressions (alarm outside the prediction interval)
+  const impForecastMetric = DEFAULT_METRICS.find((m) => m.id === 'impressions');
+  if (impForecastMetric) {
+    monitors.push({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      metricId: 'impressions',
+      metricName: `${impForecastMetric.name} (Forecast)`,
+      metricCategory: impForecastMetric.category,
+      monitorType: 'FORECAST',
+      enabled: true,
+      sensitivity: campaign.sensitivity,
+      direction: impForecastMetric.alarmDirection,
+      createdAt: timestamp,
+    });
+  }
+
+  // Create drift monitor for CVR (slow slides that never breach a single-point band)
+  const cvrMetric = DEFAULT_METRICS.find((m) => m.id === 'cvr');
+  if (cvrMetric) {
+    monitors.push({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      metricId: 'cvr',
+      metricName: `${cvrMetric.name} (Drift)`,
+      metricCategory: cvrMetric.category,
+      monitorType: 'DRIFT',
+      enabled: true,
+      sensitivity: campaign.sensitivity,
+      direction: cvrMetric.alarmDirection,
+      driftConfig: {
+        method: 'CUSUM',
+      },
+      createdAt: timestamp,
+    });
+  }
+
   // Create granular monitors for impressions by device
   const impMetric = DEFAULT_METRICS.find((m) => m.id === 'impressions');
   if (impMetric && campaign.targeting.devices.length > 1) {
@@ -88,40 +504,141 @@ export function createDefaultMonitors(campaign: Campaign): Monitor[] {
       monitorType: 'GRANULAR',
       enabled: true,
       sensitivity: campaign.sensitivity,
+      direction: impMetric.alarmDirection,
+      baselineModel: DEFAULT_BASELINE_MODEL,
       granularDimensions: ['device'],
       createdAt: timestamp,
     });
   }
 
+  // Create granular monitor for CVR by geo, device and geo × device
+  const cvrSliceMetric = DEFAULT_METRICS.find((m) => m.id === 'cvr');
+  if (cvrSliceMetric && campaign.targeting.geos.length > 1 && campaign.targeting.devices.length > 1) {
+    monitors.push({
+      id: uuidv4(),
+      campaignId: campaign.id,
+      metricId: 'cvr',
+      metricName: `${cvrSliceMetric.name} by Geo & Device`,
+      metricCategory: cvrSliceMetric.category,
+      monitorType: 'GRANULAR',
+      enabled: true,
+      sensitivity: campaign.sensitivity,
+      direction: cvrSliceMetric.alarmDirection,
+      baselineModel: DEFAULT_BASELINE_MODEL,
+      granularDimensions: ['geo', 'device'],
+      createdAt: timestamp,
+    });
+  }
+
   return monitors;
 }
 
 /**
- * Evaluate a monitor and update its state
+ * Evaluate a monitor and update its state. The alarm returned is one raised
+ * or re-opened by this evaluation.
  */
 export async function evaluateMonitor(
   monitor: Monitor,
-  campaign: Campaign
+  campaign: Campaign,
+  now: Date = new Date(),
+  source: MonitorDataSource = createLiveDataSource(campaign, now)
 ): Promise<{ state: MonitorStateData; alarm?: Alarm }> {
-  const currentValue = generateCurrentMetricValue(
+  // Get previous state
+  const previousState = getMonitorState(monitor.id);
+  const wasInAlarm = previousState?.state === 'IN_ALARM';
+
+  const newState = computeMonitorState(
+    monitor,
     campaign,
-    monitor.metricId,
-    0 // Will be calculated
+    source,
+    now,
+    previousState
   );
 
-  const expectedValue = generateExpectedValue(campaign, monitor.metricId);
+  // Create alarm if transitioning to IN_ALARM state - or still in it once the
+  // maintenance window that held the alarm back is over. A breach soon after
+  // the last alarm auto-resolved re-opens that alarm instead.
+  let alarm: Alarm | undefined;
+  if (newState.state === 'IN_ALARM' && (!wasInAlarm || previousState?.suppressedBy)) {
+    const maintenance = getActiveWindow(getMaintenanceWindows(), monitor, now.getTime());
+    const recentAlarm = maintenance ? undefined : findReopenableAlarm(monitor, now);
+    if (maintenance) {
+      newState.suppressedBy = maintenance.id;
+    } else if (recentAlarm) {
+      alarm = reopenAlarm(recentAlarm, monitor, newState, now);
+    } else {
+      alarm = await createAlarmFromMonitor(monitor, campaign, newState);
+    }
+  } else if (newState.state === 'IN_ALARM') {
+    // Still breaching - keep the open alarm's reading and severity current
+    const openAlarm = getAlarms().find(
+      (a) =>
+        a.monitorId === monitor.id && isOpenAlarm(a) && (a.alarmType ?? 'ANOMALY') === 'ANOMALY'
+    );
+    if (openAlarm) updateOpenAlarm(openAlarm, monitor, newState, now);
+  }
 
-  const deviation = calculateDeviation(currentValue, expectedValue);
-  const inAlarm = isInAlarm(currentValue, expectedValue, monitor.sensitivity);
+  saveMonitorState(newState);
 
-  // Calculate anomaly score (Z-score approximation)
-  const anomalyScore = Math.abs(deviation) / 100 / getSensitivityThreshold(monitor.sensitivity);
+  return { state: newState, alarm };
+}
 
-  const timestamp = new Date().toISOString();
+/**
+ * A monitor's next state from the data source's readings at `now`, given its
+ * previous state. Doesn't touch storage, so backtests can replay it.
+ * On calendar event days the monitor's calendar mode applies: expectations
+ * move with the event (ADJUST), the verdict is held (IGNORE), or the monitor
+ * is judged one sensitivity stricter (TIGHTEN).
+ */
+export function computeMonitorState(
+  monitor: Monitor,
+  campaign: Campaign,
+  source: MonitorDataSource,
+  now: Date,
+  previousState: MonitorStateData | undefined
+): MonitorStateData {
+  const events = getActiveEvents(campaign, now.getTime());
+  if (events.length === 0) return judgeMonitorState(monitor, campaign, source, now, previousState);
 
-  // Get previous state
-  const previousState = getMonitorState(monitor.id);
-  const wasInAlarm = previousState?.state === 'IN_ALARM';
+  const mode = monitor.calendarMode ?? 'ADJUST';
+  const judged =
+    mode === 'TIGHTEN'
+      ? { ...monitor, sensitivity: getStricterSensitivity(monitor.sensitivity) }
+      : monitor;
+  const state = judgeMonitorState(judged, campaign, source, now, previousState);
+  state.calendarEvents = events.map((event) => event.name);
+
+  if (mode === 'IGNORE') {
+    holdPreviousState(state, previousState);
+    state.enteredStateAt =
+      previousState && previousState.state === state.state
+        ? previousState.enteredStateAt
+        : state.updatedAt;
+  }
+  return state;
+}
+
+function judgeMonitorState(
+  monitor: Monitor,
+  campaign: Campaign,
+  source: MonitorDataSource,
+  now: Date,
+  previousState: MonitorStateData | undefined
+): MonitorStateData {
+  const baselineModel = monitor.baselineModel ?? DEFAULT_BASELINE_MODEL;
+  const reading = readMetric(source, campaign, monitor.metricId, baselineModel, now);
+  const { history, currentValue, expectedValue, baseline, dispersion } = reading;
+  const scale = dispersion?.scale;
+  const direction = getMonitorDirection(monitor);
+  const inAlarm = isInAlarm(currentValue, expectedValue, monitor.sensitivity, scale, direction);
+
+  const anomalyScore = scoreDeviation(currentValue, expectedValue, monitor.sensitivity, scale);
+
+  // Ratios over tiny denominators swing wildly, so check the volume behind this reading
+  const volumeGuard = getVolumeGuard(monitor);
+  const denominatorVolume = volumeGuard ? source.getCurrentValue(volumeGuard.metricId) : undefined;
+
+  const timestamp = now.toISOString();
 
   // Create new state
   const newState: MonitorStateData = {
@@ -129,38 +646,210 @@ export async function evaluateMonitor(
     state: inAlarm ? 'IN_ALARM' : 'OK',
     currentValue,
     expectedValue,
+    baselineModel: baseline?.model,
     anomalyScore,
-    enteredStateAt: inAlarm && !wasInAlarm ? timestamp : previousState?.enteredStateAt || timestamp,
+    scoreMethod: dispersion?.method ?? 'PERCENT',
+    breachLevel: toBreachLevel(
+      anomalyScore,
+      getSensitivityScoreThreshold(monitor.sensitivity),
+      direction
+    ),
+    enteredStateAt: timestamp,
     updatedAt: timestamp,
   };
 
-  // Handle composite monitors
-  if (monitor.monitorType === 'COMPOSITE' && monitor.compositeConfig) {
+  // Handle composite monitors - a multi-metric rule, else N of M on this metric
+  if (monitor.monitorType === 'COMPOSITE' && monitor.compositeRule) {
+    const { satisfied, results } = evaluateCompositeRule(monitor.compositeRule, (condition) =>
+      evaluateMetricCondition(
+        condition,
+        condition.metricId === monitor.metricId
+          ? reading
+          : readMetric(source, campaign, condition.metricId, baselineModel, now),
+        monitor.sensitivity
+      )
+    );
+    newState.conditionResults = results;
+    newState.breachLevel = satisfied ? 1 : 0;
+    newState.state = satisfied ? 'IN_ALARM' : 'OK';
+  } else if (monitor.monitorType === 'COMPOSITE' && monitor.compositeConfig) {
     const { breached, count } = evaluateCompositeCondition(
       monitor,
-      campaign,
+      history,
+      now,
       currentValue,
-      expectedValue
+      expectedValue,
+      scale,
+      direction
     );
     newState.dataPointsBreached = count;
+    newState.breachLevel = count / monitor.compositeConfig.n;
     newState.state = breached ? 'IN_ALARM' : 'OK';
   }
 
-  // Handle granular monitors
+  // Handle forecast monitors
+  if (monitor.monitorType === 'FORECAST') {
+    const model = fitHoltWinters(history, now, getCampaignTimezone(campaign));
+    if (model) {
+      const forecast = forecastAt(model, now, getSensitivityIntervalZ(monitor.sensitivity));
+      const outsideInterval =
+        (currentValue < forecast.lowerBound && isAdverseDirection(-1, direction)) ||
+        (currentValue > forecast.upperBound && isAdverseDirection(1, direction));
+      const halfWidth = forecast.upperBound - forecast.expected;
+      const intervalScale = halfWidth / getSensitivityIntervalZ(monitor.sensitivity);
+
+      newState.expectedValue = forecast.expected;
+      newState.baselineModel = undefined;
+      newState.lowerBound = forecast.lowerBound;
+      newState.upperBound = forecast.upperBound;
+      newState.anomalyScore = calculateAnomalyScore(currentValue, forecast.expected, intervalScale);
+      newState.scoreMethod = 'STDDEV';
+      newState.breachLevel = toBreachLevel(
+        newState.anomalyScore,
+        getSensitivityIntervalZ(monitor.sensitivity),
+        direction
+      );
+      newState.state = outsideInterval ? 'IN_ALARM' : 'OK';
+    }
+  }
+
+  // Handle drift monitors
+  if (monitor.monitorType === 'DRIFT') {
+    const drift = detectDrift(
+      history,
+      { timestamp, value: currentValue },
+      monitor.sensitivity,
+      monitor.driftConfig?.method,
+      getCampaignTimezone(campaign)
+    );
+    if (drift) {
+      newState.expectedValue = drift.expectedValue;
+      newState.baselineModel = undefined;
+      newState.anomalyScore = drift.statistic;
+      newState.scoreMethod = undefined;
+      newState.driftStartedAt = drift.startedAt;
+      newState.driftMagnitude = drift.magnitudePercent;
+      newState.breachLevel = toBreachLevel(drift.statistic, drift.threshold, direction);
+      newState.state =
+        drift.inDrift && isAdverseDirection(drift.statistic, direction) ? 'IN_ALARM' : 'OK';
+    }
+  }
+
+  // Budget metrics are judged on where spend is heading, so they alarm before
+  // the budget runs out or the campaign underdelivers rather than after.
+  // Budget utilization covers today; pacing also covers the whole flight.
+  if (monitor.metricId === 'budget_utilization' || monitor.metricId === 'pacing') {
+    const pacing = forecastPacing(source.getHistory('spend'), campaign, now, monitor.sensitivity);
+    const breach = getPacingBreach(pacing, monitor.sensitivity);
+    const over = isAdverseDirection(1, direction) ? breach.overDay : 0;
+    const under = isAdverseDirection(-1, direction)
+      ? Math.max(breach.underDay, monitor.metricId === 'pacing' ? breach.underFlight : 0)
+      : 0;
+    const toPercent = (spend: number) =>
+      pacing.dailyBudget > 0 ? (spend / pacing.dailyBudget) * 100 : 0;
+
+    newState.pacing = pacing;
+    newState.baselineModel = undefined;
+    newState.scoreMethod = undefined;
+    if (monitor.metricId === 'pacing') {
+      newState.currentValue = toPercent(pacing.projectedDaySpend);
+      newState.expectedValue = 100;
+    } else {
+      newState.currentValue = toPercent(pacing.spentToday);
+      newState.expectedValue = toPercent(pacing.expectedSpendToDate);
+    }
+    newState.lowerBound = toPercent(pacing.projectedDayLow);
+    newState.upperBound = toPercent(pacing.projectedDayHigh);
+    newState.anomalyScore = over >= under ? over : -under;
+    newState.breachLevel = Math.max(over, under);
+    newState.state = newState.breachLevel >= 1 ? 'IN_ALARM' : 'OK';
+  }
+
+  // Handle granular monitors - in alarm when any slice is; the campaign total
+  // only decides when no slice has history yet
   if (monitor.monitorType === 'GRANULAR' && monitor.granularDimensions) {
-    const dimensionalData = evaluateGranularDimensions(monitor, campaign);
-    newState.dimensions = dimensionalData;
+    const slices = evaluateGranularDimensions(
+      monitor,
+      campaign,
+      source,
+      history,
+      currentValue,
+      now,
+      direction,
+      volumeGuard && denominatorVolume !== undefined
+        ? { ...volumeGuard, volume: denominatorVolume }
+        : undefined
+    );
+    newState.dimensions = slices;
+    if (Object.keys(slices).length > 0) {
+      newState.state = Object.values(slices).some((slice) => slice.inAlarm) ? 'IN_ALARM' : 'OK';
+      newState.breachLevel = Math.max(
+        ...Object.values(slices).map((slice) =>
+          slice.insufficientData ? 0 : toBreachLevel(
+            slice.anomalyScore,
+            getSensitivityScoreThreshold(monitor.sensitivity),
+            direction
+          )
+        )
+      );
+    }
   }
 
-  saveMonitorState(newState);
+  const freshness = getDataFreshness(history, monitor.metricId, now);
+  if (freshness.isStale) {
+    // The feed has stopped, so there's nothing current to judge - hold the
+    // previous verdict and flag it (the stale-data alarm is raised per metric)
+    newState.staleData = freshness;
+    holdPreviousState(newState, previousState);
+  } else if (
+    volumeGuard &&
+    denominatorVolume !== undefined &&
+    denominatorVolume < volumeGuard.minVolume
+  ) {
+    // Too little volume to judge the ratio - record why and hold the previous verdict
+    newState.insufficientData = {
+      metricId: volumeGuard.metricId,
+      volume: denominatorVolume,
+      minVolume: volumeGuard.minVolume,
+    };
+    holdPreviousState(newState, previousState);
+  } else {
+    applyAlarmPolicy(newState, previousState, getAlarmPolicy(monitor), now);
+  }
 
-  // Create alarm if transitioning to IN_ALARM state
-  let alarm: Alarm | undefined;
-  if (newState.state === 'IN_ALARM' && !wasInAlarm) {
-    alarm = await createAlarmFromMonitor(monitor, campaign, newState);
+  // Keep the original entry time while the (final) state is unchanged
+  if (previousState && previousState.state === newState.state) {
+    newState.enteredStateAt = previousState.enteredStateAt;
   }
 
-  return { state: newState, alarm };
+  return newState;
+}
+
+/**
+ * Judge one condition of a composite rule the way a simple monitor would: the
+ * move must be in the condition's direction and beyond its fixed threshold, or
+ * outside the sensitivity band when it has none
+ */
+function evaluateMetricCondition(
+  condition: MetricCondition,
+  reading: MetricReading,
+  sensitivity: Sensitivity
+): Omit<ConditionResult, 'negated' | 'description'> {
+  const { currentValue, expectedValue, dispersion } = reading;
+  const deviationPercent = calculateDeviation(currentValue, expectedValue);
+  const met =
+    condition.thresholdPercent !== undefined
+      ? isAdverseDirection(deviationPercent, condition.direction) &&
+        Math.abs(deviationPercent) > condition.thresholdPercent
+      : isInAlarm(currentValue, expectedValue, sensitivity, dispersion?.scale, condition.direction);
+
+  return {
+    metricId: condition.metricId,
+    met,
+    currentValue,
+    expectedValue,
+    deviationPercent,
+  };
 }
 
 /**
@@ -168,9 +857,12 @@ export async function evaluateMonitor(
  */
 function evaluateCompositeCondition(
   monitor: Monitor,
-  campaign: Campaign,
+  history: MetricValue[],
+  now: Date,
   currentValue: number,
-  expectedValue: number
+  expectedValue: number,
+  scale?: number,
+  direction: MonitorDirection = 'BOTH'
 ): { breached: boolean; count: number } {
   if (!monitor.compositeConfig) {
     return { breached: false, count: 0 };
@@ -178,11 +870,8 @@ function evaluateCompositeCondition(
 
   const { n, m } = monitor.compositeConfig;
 
-  // Get last M data points
-  const historicalValues = getMetricValuesByCampaignAndMetric(
-    campaign.id,
-    monitor.metricId
-  ).slice(-m + 1); // -m+1 because we'll add current value
+  // Get last M campaign-level data points
+  const historicalValues = getAggregateSeries(history, now).slice(-m + 1); // -m+1 because we'll add current value
 
   // Add current value
   const allValues = [
@@ -193,7 +882,7 @@ function evaluateCompositeCondition(
   // Count how many breach the threshold
   let breachCount = 0;
   allValues.slice(-m).forEach((value) => {
-    if (isInAlarm(value, expectedValue, monitor.sensitivity)) {
+    if (isInAlarm(value, expectedValue, monitor.sensitivity, scale, direction)) {
       breachCount++;
     }
   });
@@ -205,42 +894,94 @@ function evaluateCompositeCondition(
 }
 
 /**
- * Evaluate granular dimensions (e.g., by device, geo)
+ * Evaluate every slice of a granular monitor - each monitored dimension on its
+ * own and in combination (e.g. geo × device) - against that slice's own baseline
  */
 function evaluateGranularDimensions(
   monitor: Monitor,
-  campaign: Campaign
-): Record<string, any> {
-  const dimensionalData: Record<string, any> = {};
-
-  if (!monitor.granularDimensions) return dimensionalData;
-
-  // For demo, generate values for each dimension
-  monitor.granularDimensions.forEach((dimension) => {
-    if (dimension === 'device') {
-      campaign.targeting.devices.forEach((device) => {
-        const baseValue = generateExpectedValue(campaign, monitor.metricId);
-        const value = baseValue * (0.8 + Math.random() * 0.4); // ±20% variation
-        dimensionalData[`device_${device}`] = {
-          value,
-          inAlarm: Math.random() > 0.7, // 30% chance of alarm for demo
-        };
-      });
-    }
+  campaign: Campaign,
+  source: MonitorDataSource,
+  history: MetricValue[],
+  currentValue: number,
+  now: Date,
+  direction: MonitorDirection,
+  volume?: { metricId: string; minVolume: number; volume: number }
+): Record<string, SliceEvaluation> {
+  const results: Record<string, SliceEvaluation> = {};
+  const monitoredDimensions = monitor.granularDimensions ?? [];
+  const baselineModel = monitor.baselineModel ?? DEFAULT_BASELINE_MODEL;
+  const marketWeight = getMarketWeight(source, campaign);
+
+  // Denominator volume per slice, for the minimum-volume check on ratio metrics
+  const sliceVolumes = new Map(
+    volume
+      ? source.getCurrentSliceValues(volume.metricId, volume.volume).map((v) => [
+          getSliceKey(v.dimensions),
+          v.value,
+        ])
+      : []
+  );
+
+  source.getCurrentSliceValues(monitor.metricId, currentValue).forEach(
+    ({ dimensions, value }) => {
+      if (!Object.keys(dimensions).every((key) => monitoredDimensions.includes(key))) return;
+
+      // Judge each slice on its market's local clock, so one geo's overnight
+      // dip is compared with its own past nights rather than another's days
+      const timeZone = getSliceTimezone(campaign, dimensions);
+      const eventFactor = getEventFactor(campaign, monitor.metricId, dimensions, marketWeight);
+
+      // Skip slices without history - there's nothing to compare against yet
+      const baseline = computeBaseline(history, baselineModel, now, dimensions, timeZone, eventFactor);
+      if (!baseline) return;
+
+      const dispersion = computeDispersion(history, now, dimensions, timeZone, eventFactor);
+      const expectedValue = baseline.expectedValue;
+      const sliceKey = getSliceKey(dimensions);
+      const sliceVolume = sliceVolumes.get(sliceKey);
+      const insufficientData =
+        volume !== undefined && sliceVolume !== undefined && sliceVolume < volume.minVolume;
 
-    if (dimension === 'geo') {
-      campaign.targeting.geos.forEach((geo) => {
-        const baseValue = generateExpectedValue(campaign, monitor.metricId);
-        const value = baseValue * (0.8 + Math.random() * 0.4);
-        dimensionalData[`geo_${geo}`] = {
-          value,
-          inAlarm: Math.random() > 0.7,
-        };
-      });
+      results[sliceKey] = {
+        dimensions,
+        currentValue: value,
+        expectedValue,
+        deviationPercent: calculateDeviation(value, expectedValue),
+        anomalyScore: scoreDeviation(value, expectedValue, monitor.sensitivity, dispersion?.scale),
+        scoreMethod: dispersion?.method ?? 'PERCENT',
+        inAlarm:
+          !insufficientData &&
+          isInAlarm(value, expectedValue, monitor.sensitivity, dispersion?.scale, direction),
+        insufficientData: insufficientData || undefined,
+      };
     }
-  });
+  );
 
-  return dimensionalData;
+  return results;
+}
+
+/**
+ * Values an alarm raised from this state reports, and its severity
+ */
+export function getAlarmReading(monitor: Monitor, state: MonitorStateData) {
+  // Granular alarms report their worst slice
+  const offendingSlices = Object.entries(state.dimensions ?? {})
+    .filter(([, slice]) => slice.inAlarm)
+    .sort(([, a], [, b]) => Math.abs(b.anomalyScore) - Math.abs(a.anomalyScore));
+  const worstSlice = offendingSlices[0]?.[1];
+  const currentValue = worstSlice?.currentValue ?? state.currentValue;
+  const expectedValue = worstSlice?.expectedValue ?? state.expectedValue;
+
+  // Drift alarms are sized by the sustained shift, not the latest point
+  const deviation = state.driftMagnitude ?? calculateDeviation(currentValue, expectedValue);
+
+  return {
+    currentValue,
+    expectedValue,
+    deviation,
+    severity: calculateSeverity(deviation, getMonitorDirection(monitor)),
+    affectedSlices: offendingSlices.length > 0 ? offendingSlices.map(([key]) => key) : undefined,
+  };
 }
 
 /**
@@ -251,8 +992,10 @@ async function createAlarmFromMonitor(
   campaign: Campaign,
   state: MonitorStateData
 ): Promise<Alarm> {
-  const deviation = calculateDeviation(state.currentValue, state.expectedValue);
-  const severity = calculateSeverity(deviation);
+  const { currentValue, expectedValue, deviation, severity, affectedSlices } = getAlarmReading(
+    monitor,
+    state
+  );
 
   const alarm: Alarm = {
     id: uuidv4(),
@@ -260,13 +1003,15 @@ async function createAlarmFromMonitor(
     campaignId: campaign.id,
     campaignName: campaign.name,
     metricName: monitor.metricName,
+    alarmType: 'ANOMALY',
     severity,
     state: 'ACTIVE',
     triggeredAt: state.enteredStateAt,
-    currentValue: state.currentValue,
-    expectedValue: state.expectedValue,
+    currentValue,
+    expectedValue,
     deviationPercent: deviation,
-    dimensionalBreakdown: state.dimensions,
+    affectedSlices,
+    conditionResults: state.conditionResults,
     estimatedImpactUSD: calculateEstimatedImpact(campaign, monitor, deviation),
   };
 
@@ -279,6 +1024,87 @@ async function createAlarmFromMonitor(
   }
 
   saveAlarm(alarm);
+  const breakdown = buildAttribution(
+    campaign.id,
+    monitor.metricId,
+    new Date(state.updatedAt),
+    getCampaignTimezone(campaign)
+  );
+  if (breakdown) saveAlarmBreakdown(alarm.id, breakdown);
+  recordAlarmEvent(
+    alarm.id,
+    'TRIGGERED',
+    { currentValue, deviationPercent: deviation, toSeverity: severity },
+    new Date(alarm.triggeredAt)
+  );
+  return alarm;
+}
+
+/**
+ * Bring an open alarm up to date with the monitor's latest reading. Severity
+ * follows the peak deviation, so it only escalates while the alarm is open.
+ */
+function updateOpenAlarm(
+  alarm: Alarm,
+  monitor: Monitor,
+  state: MonitorStateData,
+  now: Date
+): void {
+  const { currentValue, expectedValue, deviation, affectedSlices } = getAlarmReading(monitor, state);
+  const previousPeak = alarm.peakDeviationPercent ?? alarm.deviationPercent;
+  const peak = Math.abs(deviation) > Math.abs(previousPeak) ? deviation : previousPeak;
+  const severity = calculateSeverity(peak, getMonitorDirection(monitor));
+
+  if (SEVERITY_RANK.indexOf(severity) > SEVERITY_RANK.indexOf(alarm.severity)) {
+    recordAlarmEvent(
+      alarm.id,
+      'SEVERITY_CHANGED',
+      { fromSeverity: alarm.severity, toSeverity: severity, currentValue, deviationPercent: deviation },
+      now
+    );
+    alarm.severity = severity;
+  } else {
+    recordAlarmReading(alarm, currentValue, deviation, now);
+  }
+
+  alarm.currentValue = currentValue;
+  alarm.expectedValue = expectedValue;
+  alarm.deviationPercent = deviation;
+  alarm.peakDeviationPercent = peak;
+  alarm.affectedSlices = affectedSlices ?? alarm.affectedSlices;
+  saveAlarm(alarm);
+}
+
+/**
+ * The monitor's latest anomaly alarm if it auto-resolved within the re-open
+ * window - breaching again that soon is the same problem coming back
+ */
+function findReopenableAlarm(monitor: Monitor, now: Date): Alarm | undefined {
+  const reopenWindowMs = getAlarmPolicy(monitor).reopenWindowMinutes * 60 * 1000;
+  const latest = getAlarms()
+    .filter((a) => a.monitorId === monitor.id && (a.alarmType ?? 'ANOMALY') === 'ANOMALY')
+    .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt))[0];
+
+  if (latest?.state !== 'RESOLVED' || latest.resolutionMethod !== 'AUTO_RESOLVED') return undefined;
+  if (!latest.resolvedAt) return undefined;
+  return now.getTime() - new Date(latest.resolvedAt).getTime() <= reopenWindowMs ? latest : undefined;
+}
+
+/**
+ * Re-open an auto-resolved alarm (still acknowledged if it was) with the
+ * monitor's latest reading
+ */
+function reopenAlarm(alarm: Alarm, monitor: Monitor, state: MonitorStateData, now: Date): Alarm {
+  const { currentValue, deviation } = getAlarmReading(monitor, state);
+
+  alarm.state = alarm.acknowledgedAt ? 'ACKNOWLEDGED' : 'ACTIVE';
+  alarm.resolvedAt = undefined;
+  alarm.resolutionMethod = undefined;
+  alarm.reopenedAt = now.toISOString();
+  alarm.reopenCount = (alarm.reopenCount ?? 0) + 1;
+  recordAlarmEvent(alarm.id, 'REOPENED', { currentValue, deviationPercent: deviation }, now);
+
+  updateOpenAlarm(alarm, monitor, state, now);
   return alarm;
 }
 
@@ -338,63 +1164,181 @@ function calculateEstimatedImpact(
 /**
  * Resolve an alarm
  */
-export function resolveAlarm(alarmId: string, method: 'USER_ACTION' | 'AUTO_RESOLVED'): void {
+export function resolveAlarm(
+  alarmId: string,
+  method: 'USER_ACTION' | 'AUTO_RESOLVED',
+  user?: string,
+  now: Date = new Date()
+): void {
   const alarms = getAlarms();
   const alarm = alarms.find((a) => a.id === alarmId);
 
-  if (alarm && alarm.state === 'ACTIVE') {
+  if (alarm && (isOpenAlarm(alarm) || alarm.state === 'SNOOZED')) {
     alarm.state = 'RESOLVED';
-    alarm.resolvedAt = new Date().toISOString();
+    alarm.resolvedAt = now.toISOString();
     alarm.resolutionMethod = method;
     saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'RESOLVED', { actor: user, resolutionMethod: method }, now);
   }
 }
 
 /**
  * Dismiss an alarm
  */
-export function dismissAlarm(alarmId: string): void {
+export function dismissAlarm(alarmId: string, user?: string): void {
   const alarms = getAlarms();
   const alarm = alarms.find((a) => a.id === alarmId);
 
-  if (alarm && alarm.state === 'ACTIVE') {
+  if (alarm && (isOpenAlarm(alarm) || alarm.state === 'SNOOZED')) {
     alarm.state = 'DISMISSED';
     alarm.resolvedAt = new Date().toISOString();
     alarm.resolutionMethod = 'DISMISSED';
     saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'DISMISSED', { actor: user });
+  }
+}
+
+/**
+ * Acknowledge an open alarm on behalf of a user
+ */
+export function acknowledgeAlarm(alarmId: string, user: string): void {
+  const alarms = getAlarms();
+  const alarm = alarms.find((a) => a.id === alarmId);
+
+  if (alarm && alarm.state === 'ACTIVE') {
+    alarm.state = 'ACKNOWLEDGED';
+    alarm.acknowledgedAt = new Date().toISOString();
+    alarm.acknowledgedBy = user;
+    saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'ACKNOWLEDGED', { actor: user });
   }
 }
 
+/**
+ * Hand an acknowledged alarm back to ACTIVE, e.g. when acknowledged by mistake
+ */
+export function unacknowledgeAlarm(alarmId: string, user: string): void {
+  const alarms = getAlarms();
+  const alarm = alarms.find((a) => a.id === alarmId);
+
+  if (alarm && alarm.state === 'ACKNOWLEDGED') {
+    alarm.state = 'ACTIVE';
+    alarm.acknowledgedAt = undefined;
+    alarm.acknowledgedBy = undefined;
+    saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'UNACKNOWLEDGED', { actor: user });
+  }
+}
+
+/**
+ * Assign an alarm to a user, or unassign it
+ */
+export function assignAlarm(alarmId: string, assignee: string | undefined, user: string): void {
+  const alarms = getAlarms();
+  const alarm = alarms.find((a) => a.id === alarmId);
+
+  if (alarm && alarm.assignee !== assignee) {
+    alarm.assignee = assignee;
+    saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'ASSIGNED', { actor: user, assignee });
+  }
+}
+
+/**
+ * Snooze an open alarm until a given time
+ */
+export function snoozeAlarm(alarmId: string, until: Date, reason: string, user: string): void {
+  const alarms = getAlarms();
+  const alarm = alarms.find((a) => a.id === alarmId);
+
+  if (alarm && isOpenAlarm(alarm)) {
+    alarm.state = 'SNOOZED';
+    alarm.snoozedUntil = until.toISOString();
+    alarm.snoozeReason = reason;
+    saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'SNOOZED', {
+      actor: user,
+      snoozedUntil: alarm.snoozedUntil,
+      text: reason,
+    });
+  }
+}
+
+/**
+ * Wake an alarm whose snooze has run out: open again (still acknowledged if it
+ * was) while its condition still holds, resolved otherwise
+ */
+function wakeAlarm(alarm: Alarm, stillFiring: boolean, now: Date): void {
+  if (alarm.state !== 'SNOOZED' || !alarm.snoozedUntil) return;
+  if (new Date(alarm.snoozedUntil).getTime() > now.getTime()) return;
+
+  if (stillFiring) {
+    alarm.state = alarm.acknowledgedAt ? 'ACKNOWLEDGED' : 'ACTIVE';
+    alarm.snoozedUntil = undefined;
+    saveAlarm(alarm);
+    recordAlarmEvent(alarm.id, 'WOKEN', { toState: alarm.state }, now);
+  } else {
+    recordAlarmEvent(alarm.id, 'WOKEN', { toState: 'RESOLVED' }, now);
+    resolveAlarm(alarm.id, 'AUTO_RESOLVED', undefined, now);
+  }
+}
+
+/**
+ * Wake a monitor's snoozed alarms whose snooze has run out. One that breached
+ * again while snoozed already has a newer alarm, so the old one resolves.
+ */
+export function wakeSnoozedAlarms(monitor: Monitor, state: MonitorStateData, now: Date): void {
+  const monitorAlarms = getAlarms().filter(
+    (a) => a.monitorId === monitor.id && (a.alarmType ?? 'ANOMALY') === 'ANOMALY'
+  );
+  const hasActive = monitorAlarms.some(isOpenAlarm);
+
+  monitorAlarms.forEach((alarm) =>
+    wakeAlarm(alarm, state.state === 'IN_ALARM' && !hasActive, now)
+  );
+}
+
 /**
  * Auto-resolve alarms when metric returns to normal
  */
-export function autoResolveAlarms(monitor: Monitor, state: MonitorStateData): void {
+export function autoResolveAlarms(
+  monitor: Monitor,
+  state: MonitorStateData,
+  now: Date = new Date()
+): void {
   if (state.state === 'OK') {
     const alarms = getAlarms();
     const activeAlarms = alarms.filter(
-      (a) => a.monitorId === monitor.id && a.state === 'ACTIVE'
+      (a) =>
+        a.monitorId === monitor.id &&
+        isOpenAlarm(a) &&
+        (a.alarmType ?? 'ANOMALY') === 'ANOMALY'
     );
 
     activeAlarms.forEach((alarm) => {
-      resolveAlarm(alarm.id, 'AUTO_RESOLVED');
+      resolveAlarm(alarm.id, 'AUTO_RESOLVED', undefined, now);
     });
   }
 }
 
 /**
- * Evaluate all monitors for a campaign
+ * Evaluate all monitors for a campaign. Monitors under a maintenance window
+ * are still evaluated and their states kept, but raise no alarms. The readings
+ * taken are stored, so the history (and its freshness) keeps up with the feed.
  */
 export async function evaluateAllMonitors(
   campaign: Campaign,
-  monitors: Monitor[]
+  monitors: Monitor[],
+  now: Date = new Date()
 ): Promise<{ states: MonitorStateData[]; newAlarms: Alarm[] }> {
   const states: MonitorStateData[] = [];
   const newAlarms: Alarm[] = [];
+  const source = createLiveDataSource(campaign, now);
 
   for (const monitor of monitors) {
     if (!monitor.enabled) continue;
 
-    const result = await evaluateMonitor(monitor, campaign);
+    const result = await evaluateMonitor(monitor, campaign, now, source);
     states.push(result.state);
 
     if (result.alarm) {
@@ -402,17 +1346,95 @@ export async function evaluateAllMonitors(
     }
 
     // Auto-resolve if needed
-    autoResolveAlarms(monitor, result.state);
+    autoResolveAlarms(monitor, result.state, now);
+    wakeSnoozedAlarms(monitor, result.state, now);
   }
 
+  saveMetricReadings(source.getReadings());
+  newAlarms.push(...syncStaleDataAlarms(campaign, monitors, now));
+
   return { states, newAlarms };
 }
 
+/**
+ * Raise one stale-data alarm per monitored metric whose feed has stopped
+ * (unless a maintenance window covers it), and resolve it once data arrives
+ * again - for a snoozed one, when its snooze runs out
+ */
+function syncStaleDataAlarms(campaign: Campaign, monitors: Monitor[], now: Date): Alarm[] {
+  const enabled = monitors.filter((m) => m.enabled);
+  const metricIds = [...new Set(enabled.map((m) => m.metricId))];
+  const activeStale = getAlarms().filter(
+    (a) =>
+      a.campaignId === campaign.id &&
+      a.alarmType === 'STALE_DATA' &&
+      (isOpenAlarm(a) || a.state === 'SNOOZED')
+  );
+  const windows = getMaintenanceWindows();
+  const raised: Alarm[] = [];
+
+  checkCampaignFreshness(campaign.id, metricIds, now).forEach((freshness) => {
+    const existing = activeStale.find((a) => a.staleData?.metricId === freshness.metricId);
+    if (existing?.state === 'SNOOZED') {
+      wakeAlarm(existing, freshness.isStale, now);
+      return;
+    }
+    if (!freshness.isStale) {
+      if (existing) resolveAlarm(existing.id, 'AUTO_RESOLVED', undefined, now);
+      return;
+    }
+    if (existing) return;
+
+    // Attach to the metric's plain monitor when it has one
+    const metricMonitors = enabled.filter((m) => m.metricId === freshness.metricId);
+    const monitor = metricMonitors.find((m) => m.monitorType === 'SIMPLE') ?? metricMonitors[0];
+    if (getActiveWindow(windows, monitor, now.getTime())) return;
+    const metricName =
+      DEFAULT_METRICS.find((m) => m.id === freshness.metricId)?.name ?? freshness.metricId;
+
+    // Values are in hours: time since the last point vs the usual gap
+    const hoursSinceData = (freshness.lateByMinutes + freshness.cadenceMinutes) / 60;
+    const cadenceHours = freshness.cadenceMinutes / 60;
+
+    const alarm: Alarm = {
+      id: uuidv4(),
+      monitorId: monitor.id,
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      metricName,
+      alarmType: 'STALE_DATA',
+      severity: getStaleDataSeverity(freshness),
+      state: 'ACTIVE',
+      triggeredAt: now.toISOString(),
+      currentValue: hoursSinceData,
+      expectedValue: cadenceHours,
+      deviationPercent: calculateDeviation(hoursSinceData, cadenceHours),
+      staleData: freshness,
+      insights: buildStaleDataInsights(freshness, metricName),
+    };
+
+    saveAlarm(alarm);
+    recordAlarmEvent(
+      alarm.id,
+      'TRIGGERED',
+      {
+        currentValue: hoursSinceData,
+        deviationPercent: alarm.deviationPercent,
+        toSeverity: alarm.severity,
+      },
+      now
+    );
+    raised.push(alarm);
+  });
+
+  return raised;
+}
+
 /**
  * Get alarm summary statistics
  */
 export function getAlarmSummary(alarms: Alarm[]) {
-  const activeAlarms = alarms.filter((a) => a.state === 'ACTIVE');
+  const activeAlarms = alarms.filter(isOpenAlarm);
 
   return {
     critical: activeAlarms.filter((a) => a.severity === 'CRITICAL').length,
@@ -0,0 +1,251 @@
+/**
+ * Root-cause attribution - splits a metric's change into per-slice contributions,
+ * separating mix (traffic share) effects from rate effects for ratio metrics
+ */
+
+import type {
+  DimensionAttribution,
+  DimensionalBreakdown,
+  DimensionSlice,
+  MetricValue,
+  SliceContribution,
+} from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { getSliceKey } from '@/utils/helpers';
+import { getMetricValuesByCampaignAndMetric } from '@/utils/storage';
+import { getZonedTime } from '@/utils/timezone';
+import { mean } from './baseline';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Recent window compared against the same hours of day on previous days
+const CURRENT_WINDOW_HOURS = 6;
+const BASELINE_DAYS = 7;
+
+// A combined slice (e.g. UK × Mobile) replaces its parent as the primary driver
+// when it accounts for at least this share of the parent's contribution
+const REFINE_SHARE = 0.75;
+
+interface SliceWindows {
+  dimensions: DimensionSlice;
+  current: number[];
+  baseline: number[];
+}
+
+function getDimensionKey(slice: DimensionSlice): string {
+  return Object.keys(slice).sort().join('|');
+}
+
+/**
+ * Per-slice values in the recent window and in the same local hours of day on
+ * the previous days, grouped by dimension
+ */
+function splitWindows(
+  history: MetricValue[],
+  at: Date,
+  timeZone?: string
+): Map<string, Map<string, SliceWindows>> {
+  const windowStart = at.getTime() - CURRENT_WINDOW_HOURS * HOUR_MS;
+  const baselineStart = at.getTime() - BASELINE_DAYS * 24 * HOUR_MS;
+
+  const currentHours = new Set<number>();
+  for (let t = windowStart; t < at.getTime(); t += HOUR_MS) {
+    currentHours.add(getZonedTime(t, timeZone).hour);
+  }
+
+  const groups = new Map<string, Map<string, SliceWindows>>();
+
+  history.forEach((v) => {
+    if (!v.dimensions) return;
+    const time = new Date(v.timestamp).getTime();
+    if (time >= at.getTime() || time < baselineStart) return;
+
+    const isCurrent = time >= windowStart;
+    if (!isCurrent && !currentHours.has(getZonedTime(time, timeZone).hour)) return;
+
+    const dimension = getDimensionKey(v.dimensions);
+    const sliceKey = getSliceKey(v.dimensions);
+    const group = groups.get(dimension) || new Map<string, SliceWindows>();
+    const windows = group.get(sliceKey) || { dimensions: v.dimensions, current: [], baseline: [] };
+
+    (isCurrent ? windows.current : windows.baseline).push(v.value);
+    group.set(sliceKey, windows);
+    groups.set(dimension, group);
+  });
+
+  return groups;
+}
+
+function toShares(values: number[]): number[] {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  return values.map((v) => (total > 0 ? v / total : 1 / values.length));
+}
+
+/**
+ * Attribute one dimension's change. For ratio metrics the total is the
+ * volume-weighted mean of slice rates, so each slice's part splits exactly into
+ *   rate = avg share × Δrate   and   mix = Δshare × (avg rate - avg total)
+ * For volume metrics the total is the sum of slices and every change is a rate effect.
+ */
+function attributeDimension(
+  dimension: string,
+  slices: SliceWindows[],
+  volumes: Map<string, SliceWindows> | undefined,
+  isRatio: boolean
+): DimensionAttribution {
+  const currentValues = slices.map((s) => mean(s.current));
+  const baselineValues = slices.map((s) => mean(s.baseline));
+
+  const volumeOf = (slice: SliceWindows, window: 'current' | 'baseline', fallback: number) => {
+    const volume = volumes?.get(getSliceKey(slice.dimensions));
+    return volume && volume[window].length > 0 ? mean(volume[window]) : fallback;
+  };
+
+  // Ratio metrics weight by denominator volume (equal weights if it isn't sliced);
+  // volume metrics weight by their own values
+  const currentShares = toShares(
+    slices.map((s, i) => (isRatio ? volumeOf(s, 'current', 1) : currentValues[i]))
+  );
+  const baselineShares = toShares(
+    slices.map((s, i) => (isRatio ? volumeOf(s, 'baseline', 1) : baselineValues[i]))
+  );
+
+  const currentTotal = isRatio
+    ? currentValues.reduce((sum, v, i) => sum + v * currentShares[i], 0)
+    : currentValues.reduce((sum, v) => sum + v, 0);
+  const baselineTotal = isRatio
+    ? baselineValues.reduce((sum, v, i) => sum + v * baselineShares[i], 0)
+    : baselineValues.reduce((sum, v) => sum + v, 0);
+  const totalChange = currentTotal - baselineTotal;
+  const averageTotal = (currentTotal + baselineTotal) / 2;
+
+  const contributions: SliceContribution[] = slices.map((slice, i) => {
+    const valueChange = currentValues[i] - baselineValues[i];
+    const shareChange = currentShares[i] - baselineShares[i];
+
+    const rateEffect = isRatio
+      ? ((currentShares[i] + baselineShares[i]) / 2) * valueChange
+      : valueChange;
+    const mixEffect = isRatio
+      ? shareChange * ((currentValues[i] + baselineValues[i]) / 2 - averageTotal)
+      : 0;
+
+    return {
+      sliceKey: getSliceKey(slice.dimensions),
+      dimensions: slice.dimensions,
+      currentValue: currentValues[i],
+      expectedValue: baselineValues[i],
+      currentShare: currentShares[i],
+      baselineShare: baselineShares[i],
+      rateEffect,
+      mixEffect,
+      contributionPercent: totalChange !== 0 ? ((rateEffect + mixEffect) / totalChange) * 100 : 0,
+    };
+  });
+
+  contributions.sort((a, b) => b.contributionPercent - a.contributionPercent);
+
+  return {
+    dimension,
+    totalChange,
+    rateEffect: contributions.reduce((sum, c) => sum + c.rateEffect, 0),
+    mixEffect: contributions.reduce((sum, c) => sum + c.mixEffect, 0),
+    slices: contributions,
+  };
+}
+
+/**
+ * Slice driving most of the change: the top single-dimension slice, narrowed to
+ * a combined slice inside it when that combination explains most of it
+ */
+function findPrimaryDriver(
+  groups: Record<string, DimensionAttribution>
+): DimensionalBreakdown['primaryDriver'] {
+  const all = Object.values(groups);
+  const single = all
+    .filter((g) => !g.dimension.includes('|'))
+    .flatMap((g) => g.slices.map((slice) => ({ dimension: g.dimension, slice })));
+  if (single.length === 0) return undefined;
+
+  const top = single.reduce((best, c) =>
+    c.slice.contributionPercent > best.slice.contributionPercent ? c : best
+  );
+  if (top.slice.contributionPercent <= 0) return undefined;
+
+  const [key, value] = Object.entries(top.slice.dimensions)[0];
+  const refinement = all
+    .filter((g) => g.dimension.includes('|'))
+    .flatMap((g) => g.slices.map((slice) => ({ dimension: g.dimension, slice })))
+    .filter((c) => c.slice.dimensions[key] === value)
+    .find(
+      (c) => c.slice.contributionPercent >= top.slice.contributionPercent * REFINE_SHARE
+    );
+
+  const driver = refinement ?? top;
+  return { dimension: driver.dimension, sliceKey: driver.slice.sliceKey };
+}
+
+/**
+ * Break a metric's recent change down by every stored dimension slice.
+ * Returns null when the metric has no sliced history.
+ */
+export function computeAttribution(
+  history: MetricValue[],
+  metricId: string,
+  at: Date = new Date(),
+  denominatorHistory: MetricValue[] = [],
+  timeZone?: string
+): DimensionalBreakdown | null {
+  const metric = DEFAULT_METRICS.find((m) => m.id === metricId);
+  const isRatio = metric?.isRatio ?? false;
+
+  const windows = splitWindows(history, at, timeZone);
+  const volumeWindows = splitWindows(denominatorHistory, at, timeZone);
+
+  const groups: Record<string, DimensionAttribution> = {};
+  windows.forEach((slices, dimension) => {
+    const comparable = [...slices.values()].filter(
+      (s) => s.current.length > 0 && s.baseline.length > 0
+    );
+    if (comparable.length === 0) return;
+    groups[dimension] = attributeDimension(
+      dimension,
+      comparable,
+      volumeWindows.get(dimension),
+      isRatio
+    );
+  });
+
+  if (Object.keys(groups).length === 0) return null;
+
+  return {
+    metricId,
+    isRatio,
+    windowHours: CURRENT_WINDOW_HOURS,
+    groups,
+    primaryDriver: findPrimaryDriver(groups),
+    generatedAt: at.toISOString(),
+  };
+}
+
+/**
+ * Attribution for a campaign metric from stored data. Ratio metrics are
+ * weighted by their denominator (e.g. impressions for CTR).
+ */
+export function buildAttribution(
+  campaignId: string,
+  metricId: string,
+  at: Date = new Date(),
+  timeZone?: string
+): DimensionalBreakdown | null {
+  const metric = DEFAULT_METRICS.find((m) => m.id === metricId);
+  const denominatorId = metric?.isRatio ? metric.dependsOn?.[1] : undefined;
+
+  return computeAttribution(
+    getMetricValuesByCampaignAndMetric(campaignId, metricId),
+    metricId,
+    at,
+    denominatorId ? getMetricValuesByCampaignAndMetric(campaignId, denominatorId) : [],
+    timeZone
+  );
+}
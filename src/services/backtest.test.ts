@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, MetricValue, Monitor } from '@/types';
+import { replayMonitor } from './backtest';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.UTC(2026, 2, 2); // A Monday, clear of built-in calendar events
+
+// The last of two weeks of history is replayed; the first is what it learns from
+const WINDOW = { from: new Date(START + 7 * DAY_MS), to: new Date(START + 14 * DAY_MS - HOUR_MS) };
+
+const campaign: Campaign = {
+  id: 'backtest-1',
+  name: 'Backtest',
+  vertical: 'E-commerce',
+  objective: 'Performance',
+  dailyBudget: 1000,
+  startDate: '2026-01-01',
+  endDate: '2026-12-31',
+  status: 'ACTIVE',
+  targeting: { geos: ['US'], devices: ['Desktop'] },
+  monitoringEnabled: true,
+  anomalyDetectionEnabled: true,
+  sensitivity: 'Balanced',
+  timezone: 'UTC',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function impressionsMonitor(overrides: Partial<Monitor> = {}): Monitor {
+  return {
+    id: 'monitor-1',
+    campaignId: campaign.id,
+    metricId: 'impressions',
+    metricName: 'Impressions',
+    metricCategory: 'Volume',
+    monitorType: 'SIMPLE',
+    enabled: true,
+    sensitivity: 'Balanced',
+    direction: 'BOTH',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Two weeks of a steady 1,000 impressions an hour, scaled by `factor` for
+ * `hours` hours at each dip. With no spread to learn, readings are judged on
+ * their percentage deviation (15% / 25% / 40% from Strict to Loose).
+ */
+function impressions(dips: Array<{ at: number; hours: number; factor: number }> = []): MetricValue[] {
+  return Array.from({ length: 14 * 24 }, (_, i) => {
+    const time = START + i * HOUR_MS;
+    const dip = dips.find((d) => time >= d.at && time < d.at + d.hours * HOUR_MS);
+    return {
+      campaignId: campaign.id,
+      metricId: 'impressions',
+      timestamp: new Date(time).toISOString(),
+      value: 1000 * (dip?.factor ?? 1),
+    };
+  });
+}
+
+// Hours into the replayed week
+const hour = (h: number) => WINDOW.from.getTime() + h * HOUR_MS;
+
+describe('replayMonitor', () => {
+  it('opens one alarm per breach and closes it when the metric recovers', () => {
+    const values = impressions([
+      { at: hour(30), hours: 3, factor: 0.3 },
+      { at: hour(100), hours: 2, factor: 0.3 },
+    ]);
+    const result = replayMonitor(impressionsMonitor(), campaign, values, WINDOW);
+
+    expect(result.hoursEvaluated).toBe(7 * 24);
+    expect(result.hoursNotJudged).toBe(0);
+    expect(result.alarms).toHaveLength(2);
+    expect(result.alarms.map((a) => a.triggeredAt)).toEqual([
+      new Date(hour(30)).toISOString(),
+      new Date(hour(100)).toISOString(),
+    ]);
+    expect(result.alarms.map((a) => a.resolvedAt)).toEqual([
+      new Date(hour(33)).toISOString(),
+      new Date(hour(102)).toISOString(),
+    ]);
+    expect(result.alarms.map((a) => a.durationHours)).toEqual([3, 2]);
+    expect(result.hoursInAlarm).toBe(5);
+  });
+
+  it('sizes alarms by their deviation', () => {
+    const values = impressions([
+      { at: hour(30), hours: 2, factor: 0.3 },
+      { at: hour(100), hours: 2, factor: 0.7 },
+    ]);
+    const result = replayMonitor(impressionsMonitor(), campaign, values, WINDOW);
+
+    expect(result.alarms.map((a) => a.severity)).toEqual(['CRITICAL', 'MEDIUM']);
+    expect(result.alarmsBySeverity).toEqual({ CRITICAL: 1, HIGH: 0, MEDIUM: 1, LOW: 0 });
+    expect(result.alarms[0].peakDeviationPercent).toBeCloseTo(-70, 5);
+  });
+
+  it('counts an alarm still open at the end of the window up to its end', () => {
+    const values = impressions([{ at: hour(7 * 24 - 3), hours: 3, factor: 0.3 }]);
+    const result = replayMonitor(impressionsMonitor(), campaign, values, WINDOW);
+
+    expect(result.alarms).toHaveLength(1);
+    expect(result.alarms[0].resolvedAt).toBeUndefined();
+    expect(result.alarms[0].durationHours).toBe(2);
+  });
+
+  it('shows how many alarms each configuration would have raised', () => {
+    // A one-hour blip, a moderate three-hour dip and a deep one
+    const values = impressions([
+      { at: hour(20), hours: 1, factor: 0.3 },
+      { at: hour(60), hours: 3, factor: 0.8 },
+      { at: hour(120), hours: 3, factor: 0.3 },
+    ]);
+    const count = (overrides: Partial<Monitor>) =>
+      replayMonitor(impressionsMonitor(overrides), campaign, values, WINDOW).alarms.length;
+
+    expect(count({ sensitivity: 'Strict' })).toBe(3);
+    expect(count({ sensitivity: 'Loose' })).toBe(2);
+    expect(count({ sensitivity: 'Strict', alarmPolicy: { minBreachMinutes: 120 } })).toBe(2);
+  });
+});
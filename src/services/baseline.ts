@@ -0,0 +1,231 @@
+/**
+ * Baseline engine - learns expected metric values from a campaign's own history
+ */
+
+import type { BaselineModel, DimensionSlice, MetricValue } from '@/types';
+import { getZonedTime } from '@/utils/timezone';
+
+export const DEFAULT_BASELINE_MODEL: BaselineModel = 'SEASONAL';
+
+// Trailing window used by the median model (hours)
+const TRAILING_WINDOW_HOURS = 24;
+
+// Smoothing factor for EWMA (higher = reacts faster to recent values)
+const EWMA_ALPHA = 0.3;
+
+// Minimum seasonal samples needed before we trust a variance estimate
+const MIN_DISPERSION_SAMPLES = 3;
+
+// Scales MAD to be a consistent estimator of the standard deviation
+const MAD_TO_SIGMA = 1.4826;
+
+export interface BaselineResult {
+  expectedValue: number;
+  model: BaselineModel;
+  sampleSize: number;
+}
+
+export interface DispersionResult {
+  scale: number; // Sigma-equivalent spread of the metric's normal values
+  method: 'MAD' | 'STDDEV';
+  sampleSize: number;
+}
+
+// How far calendar events move a metric at an instant, against a normal day (1)
+export type EventFactor = (time: number) => number;
+
+export const BASELINE_MODEL_LABELS: Record<BaselineModel, string> = {
+  TRAILING_MEDIAN: 'Trailing Median (24h)',
+  EWMA: 'Exponentially Weighted Average',
+  SEASONAL: 'Hour-of-Week Seasonal Mean',
+};
+
+// Hour of week (0-167), Sunday 00:00 = 0, on the local clock of `timeZone`
+// (the browser's when omitted)
+export function getHourOfWeek(date: Date, timeZone?: string): number {
+  const { dayOfWeek, hour } = getZonedTime(date, timeZone);
+  return dayOfWeek * 24 + hour;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function matchesSlice(value: MetricValue, slice?: DimensionSlice): boolean {
+  if (!slice) return !value.dimensions;
+  if (!value.dimensions) return false;
+
+  const keys = Object.keys(slice);
+  return (
+    Object.keys(value.dimensions).length === keys.length &&
+    keys.every((key) => value.dimensions?.[key] === slice[key])
+  );
+}
+
+/**
+ * Points for exactly one slice (campaign-level when omitted) strictly before `at`, oldest first
+ */
+export function getSliceSeries(
+  history: MetricValue[],
+  at: Date,
+  slice?: DimensionSlice
+): MetricValue[] {
+  const cutoff = at.getTime();
+  return history
+    .filter((v) => matchesSlice(v, slice) && new Date(v.timestamp).getTime() < cutoff)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Campaign-level (non-dimensional) points strictly before `at`, oldest first
+ */
+export function getAggregateSeries(history: MetricValue[], at: Date): MetricValue[] {
+  return getSliceSeries(history, at);
+}
+
+function trailingMedian(series: MetricValue[], at: Date): number[] {
+  const windowStart = at.getTime() - TRAILING_WINDOW_HOURS * 60 * 60 * 1000;
+  return series
+    .filter((v) => new Date(v.timestamp).getTime() >= windowStart)
+    .map((v) => v.value);
+}
+
+function ewma(values: number[]): number {
+  return values.reduce((acc, value, i) => (i === 0 ? value : EWMA_ALPHA * value + (1 - EWMA_ALPHA) * acc), 0);
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+export function medianAbsoluteDeviation(values: number[]): number {
+  const center = median(values);
+  return median(values.map((v) => Math.abs(v - center)));
+}
+
+/**
+ * Values observed in the same local hour-of-week as `at`, falling back to the
+ * same hour-of-day when the history doesn't yet cover enough weeks
+ */
+export function getSeasonalSamples(
+  series: MetricValue[],
+  at: Date,
+  minSamples: number = 1,
+  timeZone?: string
+): number[] {
+  const targetHourOfWeek = getHourOfWeek(at, timeZone);
+  const sameHourOfWeek = series.filter(
+    (v) => getHourOfWeek(new Date(v.timestamp), timeZone) === targetHourOfWeek
+  );
+  if (sameHourOfWeek.length >= minSamples) return sameHourOfWeek.map((v) => v.value);
+
+  const targetHour = targetHourOfWeek % 24;
+  return series
+    .filter((v) => getHourOfWeek(new Date(v.timestamp), timeZone) % 24 === targetHour)
+    .map((v) => v.value);
+}
+
+/**
+ * Series as it would have been on normal days - each value divided by how far
+ * the calendar moved it
+ */
+function removeEventEffects(series: MetricValue[], eventFactor?: EventFactor): MetricValue[] {
+  if (!eventFactor) return series;
+  return series.map((v) => {
+    const factor = eventFactor(new Date(v.timestamp).getTime());
+    return factor > 0 ? { ...v, value: v.value / factor } : v;
+  });
+}
+
+/**
+ * Compute the expected value for `at` from stored history, for the campaign
+ * total or a single dimension slice. Seasonality follows the local clock of
+ * `timeZone` (the browser's when omitted). With an event factor, past event
+ * days are evened out and the expectation moves with any event at `at`.
+ * Returns null when there is no usable history (caller supplies a cold-start prior).
+ */
+export function computeBaseline(
+  history: MetricValue[],
+  model: BaselineModel,
+  at: Date = new Date(),
+  slice?: DimensionSlice,
+  timeZone?: string,
+  eventFactor?: EventFactor
+): BaselineResult | null {
+  const series = removeEventEffects(getSliceSeries(history, at, slice), eventFactor);
+  if (series.length === 0) return null;
+
+  let samples: number[];
+  let expectedValue: number;
+
+  switch (model) {
+    case 'TRAILING_MEDIAN':
+      samples = trailingMedian(series, at);
+      if (samples.length === 0) samples = series.map((v) => v.value);
+      expectedValue = median(samples);
+      break;
+
+    case 'EWMA':
+      samples = series.map((v) => v.value);
+      expectedValue = ewma(samples);
+      break;
+
+    case 'SEASONAL':
+      samples = getSeasonalSamples(series, at, 1, timeZone);
+      if (samples.length === 0) {
+        // Not enough coverage yet - degrade to the trailing median
+        return computeBaseline(history, 'TRAILING_MEDIAN', at, slice, timeZone, eventFactor);
+      }
+      expectedValue = mean(samples);
+      break;
+  }
+
+  return {
+    expectedValue: expectedValue * (eventFactor?.(at.getTime()) ?? 1),
+    model,
+    sampleSize: samples.length,
+  };
+}
+
+/**
+ * Estimate how much a metric normally varies at this hour-of-week.
+ * Prefers the MAD (robust to past anomalies); falls back to the standard
+ * deviation when more than half the samples are identical. With an event
+ * factor, the spread scales with the event at `at` like the baseline does.
+ * Returns null when the history is too thin to say.
+ */
+export function computeDispersion(
+  history: MetricValue[],
+  at: Date = new Date(),
+  slice?: DimensionSlice,
+  timeZone?: string,
+  eventFactor?: EventFactor
+): DispersionResult | null {
+  const series = removeEventEffects(getSliceSeries(history, at, slice), eventFactor);
+  const samples = getSeasonalSamples(series, at, MIN_DISPERSION_SAMPLES, timeZone);
+  if (samples.length < MIN_DISPERSION_SAMPLES) return null;
+  const factor = eventFactor?.(at.getTime()) ?? 1;
+
+  const mad = medianAbsoluteDeviation(samples);
+  if (mad > 0) {
+    return { scale: mad * MAD_TO_SIGMA * factor, method: 'MAD', sampleSize: samples.length };
+  }
+
+  const stdDev = standardDeviation(samples);
+  if (stdDev > 0) {
+    return { scale: stdDev * factor, method: 'STDDEV', sampleSize: samples.length };
+  }
+
+  return null;
+}
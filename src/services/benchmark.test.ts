@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { AnomalyLabel, Campaign, LabeledDataset, MetricValue } from '@/types';
+import { runDetectorBenchmark } from './benchmark';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.UTC(2026, 2, 2); // A Monday, clear of built-in calendar events
+const DAYS = 7;
+
+const campaign: Campaign = {
+  id: 'benchmark-test',
+  name: 'Benchmark test',
+  vertical: 'E-commerce',
+  objective: 'Performance',
+  dailyBudget: 1000,
+  startDate: '2026-01-01',
+  endDate: '2026-12-31',
+  status: 'ACTIVE',
+  targeting: { geos: ['US'], devices: ['Desktop'] },
+  monitoringEnabled: true,
+  anomalyDetectionEnabled: true,
+  sensitivity: 'Balanced',
+  timezone: 'UTC',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+// Hours after the two warm-up days, where scoring starts
+const hour = (h: number) => START + 2 * DAY_MS + h * HOUR_MS;
+
+/**
+ * A week of a steady 1,000 impressions an hour, down 70% for `hours` hours at
+ * each dip - the threshold detector alarms on exactly those hours
+ */
+function dataset(dips: Array<{ at: number; hours: number }>, labels: AnomalyLabel[]): LabeledDataset {
+  const values = Array.from({ length: DAYS * 24 }, (_, i): MetricValue => {
+    const time = START + i * HOUR_MS;
+    const dipped = dips.some((d) => time >= d.at && time < d.at + d.hours * HOUR_MS);
+    return {
+      campaignId: campaign.id,
+      metricId: 'impressions',
+      timestamp: new Date(time).toISOString(),
+      value: dipped ? 300 : 1000,
+    };
+  });
+  return { campaign, values, labels };
+}
+
+function label(
+  kind: AnomalyLabel['kind'],
+  start: number,
+  end: number,
+  extra: Partial<AnomalyLabel> = {}
+): AnomalyLabel {
+  return {
+    campaignId: campaign.id,
+    metricId: 'impressions',
+    kind,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    ...extra,
+  };
+}
+
+function score(data: LabeledDataset) {
+  const report = runDetectorBenchmark({
+    datasets: [data],
+    metricIds: ['impressions'],
+    detectors: ['THRESHOLD'],
+    sensitivities: ['Balanced'],
+  });
+  return report.scores[0];
+}
+
+describe('runDetectorBenchmark', () => {
+  it('counts an alarm overlapping a labeled window as a detection', () => {
+    const result = score(
+      dataset([{ at: hour(20), hours: 3 }], [label('DROP', hour(20), hour(22))])
+    );
+
+    expect(result.labeledWindows).toBe(1);
+    expect(result.detectedWindows).toBe(1);
+    expect(result.alarms).toBe(1);
+    expect(result.falseAlarms).toBe(0);
+    expect(result.precision).toBe(1);
+    expect(result.recall).toBe(1);
+    expect(result.meanTimeToDetectHours).toBe(0);
+  });
+
+  it('scores true positives, false alarms and missed windows', () => {
+    const result = score(
+      dataset(
+        [
+          { at: hour(20), hours: 3 }, // Labeled
+          { at: hour(60), hours: 2 }, // Not labeled: a false alarm
+        ],
+        [
+          label('DROP', hour(20), hour(22)),
+          label('SPIKE', hour(90), hour(92)), // Nothing happened in the data: missed
+        ]
+      )
+    );
+
+    expect(result.labeledWindows).toBe(2);
+    expect(result.detectedWindows).toBe(1);
+    expect(result.alarms).toBe(2);
+    expect(result.falseAlarms).toBe(1);
+    expect(result.precision).toBe(0.5);
+    expect(result.recall).toBe(0.5);
+    expect(result.recallByKind).toEqual({ DROP: 1, SPIKE: 0 });
+    // Scored from the end of warm-up to the last reading
+    expect(result.falseAlarmsPerDay).toBeCloseTo(24 / ((DAYS - 2) * 24 - 1), 5);
+  });
+
+  it('times detection from the start of the window, which covers its last hour', () => {
+    // Labeled from two hours before the data moves, ending on its first hour
+    const result = score(
+      dataset([{ at: hour(20), hours: 3 }], [label('GRADUAL_DECLINE', hour(18), hour(20))])
+    );
+
+    expect(result.detectedWindows).toBe(1);
+    expect(result.falseAlarms).toBe(0);
+    expect(result.meanTimeToDetectHours).toBe(2);
+  });
+
+  it('scores only campaign-level labels on the monitored metric', () => {
+    const result = score(
+      dataset(
+        [{ at: hour(20), hours: 3 }],
+        [
+          label('DROP', hour(20), hour(22), { dimensions: { geo: 'US' } }),
+          label('DROP', hour(20), hour(22), { metricId: 'clicks' }),
+        ]
+      )
+    );
+
+    expect(result.labeledWindows).toBe(0);
+    expect(result.recall).toBeUndefined();
+    expect(result.falseAlarms).toBe(1);
+    expect(result.precision).toBe(0);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Detector benchmark - scores each detector against the anomaly windows the
+ * simulator labels, so detector defaults can be chosen on evidence
+ */
+
+import { addDays } from 'date-fns';
+import type {
+  AnomalyKind,
+  AnomalyLabel,
+  BacktestResult,
+  BenchmarkDetector,
+  BenchmarkReport,
+  Campaign,
+  CampaignObjective,
+  CampaignVertical,
+  DetectorScore,
+  LabeledDataset,
+  Monitor,
+  Sensitivity,
+} from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { DEFAULT_BASELINE_MODEL } from './baseline';
+import { replayMonitor } from './backtest';
+import { generateLabeledData } from './simulation';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Days at the start of each dataset used only as history, never scored
+const WARMUP_DAYS = 2;
+
+export const BENCHMARK_DETECTORS: Record<BenchmarkDetector, Partial<Monitor>> = {
+  THRESHOLD: { monitorType: 'SIMPLE', baselineModel: 'TRAILING_MEDIAN' },
+  SEASONAL: { monitorType: 'SIMPLE', baselineModel: 'SEASONAL' },
+  FORECAST: { monitorType: 'FORECAST' },
+  DRIFT: { monitorType: 'DRIFT', driftConfig: { method: 'CUSUM' } },
+  COMPOSITE: {
+    monitorType: 'COMPOSITE',
+    baselineModel: DEFAULT_BASELINE_MODEL,
+    compositeConfig: { n: 2, m: 3 },
+  },
+};
+
+// Budget metrics are judged on spend projections rather than their own series
+export const BENCHMARK_METRIC_IDS = DEFAULT_METRICS.map((m) => m.id).filter(
+  (id) => id !== 'budget_utilization' && id !== 'pacing'
+);
+
+// Scored unless told otherwise - the core delivery and outcome metrics at
+// Balanced, about a minute's run. The full grid is several times that.
+const DEFAULT_METRIC_IDS = ['impressions', 'clicks', 'spend', 'ctr', 'cvr', 'cpc'];
+const DEFAULT_SENSITIVITIES: Sensitivity[] = ['Balanced'];
+
+const BENCHMARK_CAMPAIGNS: Array<[CampaignVertical, CampaignObjective]> = [
+  ['E-commerce', 'Performance'],
+  ['SaaS', 'Performance'],
+  ['Travel', 'Brand Awareness'],
+  ['B2B', 'Performance'],
+  ['Finance', 'App Install'],
+  ['Healthcare', 'Video'],
+];
+
+export interface BenchmarkOptions {
+  datasets?: LabeledDataset[];
+  metricIds?: string[];
+  detectors?: BenchmarkDetector[];
+  sensitivities?: Sensitivity[];
+}
+
+/**
+ * Simulated campaigns across verticals and objectives, with their anomaly
+ * labels. The same seed and clock give the same datasets.
+ */
+export function generateBenchmarkDatasets(
+  count = BENCHMARK_CAMPAIGNS.length,
+  seed = 1,
+  now: Date = new Date()
+): LabeledDataset[] {
+  const timestamp = now.toISOString();
+  return Array.from({ length: count }, (_, i) => {
+    const [vertical, objective] = BENCHMARK_CAMPAIGNS[i % BENCHMARK_CAMPAIGNS.length];
+    const campaign: Campaign = {
+      id: `benchmark-${i + 1}`,
+      name: `Benchmark ${vertical} ${objective}`,
+      vertical,
+      objective,
+      dailyBudget: 5000,
+      startDate: addDays(now, -30).toISOString(),
+      endDate: addDays(now, 30).toISOString(),
+      status: 'ACTIVE',
+      targeting: { geos: ['US', 'GB'], devices: ['Desktop', 'Mobile'] },
+      monitoringEnabled: true,
+      anomalyDetectionEnabled: true,
+      sensitivity: 'Balanced',
+      seed: seed + i,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    return generateLabeledData(campaign, now);
+  });
+}
+
+function buildDetectorMonitor(
+  detector: BenchmarkDetector,
+  campaign: Campaign,
+  metricId: string,
+  sensitivity: Sensitivity
+): Monitor {
+  const metric = DEFAULT_METRICS.find((m) => m.id === metricId);
+  return {
+    id: `benchmark-${detector}-${metricId}`,
+    campaignId: campaign.id,
+    metricId,
+    metricName: metric?.name ?? metricId,
+    metricCategory: metric?.category ?? 'Volume',
+    enabled: true,
+    sensitivity,
+    // Labels don't say which way a move hurts, so every move counts
+    direction: 'BOTH',
+    createdAt: campaign.createdAt,
+    monitorType: 'SIMPLE',
+    ...BENCHMARK_DETECTORS[detector],
+  };
+}
+
+// Alarm and label spans in ms; a label covers its last hour in full
+function alarmSpan(alarm: BacktestResult['alarms'][number], result: BacktestResult): [number, number] {
+  return [new Date(alarm.triggeredAt).getTime(), new Date(alarm.resolvedAt ?? result.to).getTime()];
+}
+
+function labelSpan(label: AnomalyLabel): [number, number] {
+  return [new Date(label.start).getTime(), new Date(label.end).getTime() + HOUR_MS];
+}
+
+function overlaps([aStart, aEnd]: [number, number], [bStart, bEnd]: [number, number]): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+interface Tally {
+  labels: AnomalyLabel[];
+  detected: AnomalyLabel[];
+  alarms: number;
+  falseAlarms: number;
+  detectHours: number[];
+  monitorDays: number;
+}
+
+/**
+ * Score one replay against the campaign-level labels for its metric: an alarm
+ * overlapping a labeled window detects it, any other alarm is a false alarm
+ */
+function tallyReplay(tally: Tally, result: BacktestResult, labels: AnomalyLabel[]): void {
+  const from = new Date(result.from).getTime();
+  const to = new Date(result.to).getTime();
+  const inWindow = labels.filter((label) => overlaps(labelSpan(label), [from, to]));
+
+  tally.labels.push(...inWindow);
+  tally.alarms += result.alarms.length;
+  tally.falseAlarms += result.alarms.filter(
+    (alarm) => !inWindow.some((label) => overlaps(alarmSpan(alarm, result), labelSpan(label)))
+  ).length;
+  tally.monitorDays += (to - from) / (24 * HOUR_MS);
+
+  inWindow.forEach((label) => {
+    const first = result.alarms.find((alarm) => overlaps(alarmSpan(alarm, result), labelSpan(label)));
+    if (!first) return;
+    tally.detected.push(label);
+    tally.detectHours.push(
+      Math.max(0, new Date(first.triggeredAt).getTime() - new Date(label.start).getTime()) / HOUR_MS
+    );
+  });
+}
+
+function toScore(detector: BenchmarkDetector, sensitivity: Sensitivity, tally: Tally): DetectorScore {
+  const kinds = [...new Set(tally.labels.map((label) => label.kind))];
+  const recallByKind: Partial<Record<AnomalyKind, number>> = {};
+  kinds.forEach((kind) => {
+    recallByKind[kind] =
+      tally.detected.filter((label) => label.kind === kind).length /
+      tally.labels.filter((label) => label.kind === kind).length;
+  });
+
+  return {
+    detector,
+    sensitivity,
+    labeledWindows: tally.labels.length,
+    detectedWindows: tally.detected.length,
+    alarms: tally.alarms,
+    falseAlarms: tally.falseAlarms,
+    precision: tally.alarms > 0 ? (tally.alarms - tally.falseAlarms) / tally.alarms : undefined,
+    recall: tally.labels.length > 0 ? tally.detected.length / tally.labels.length : undefined,
+    recallByKind,
+    meanTimeToDetectHours:
+      tally.detectHours.length > 0
+        ? tally.detectHours.reduce((sum, h) => sum + h, 0) / tally.detectHours.length
+        : undefined,
+    falseAlarmsPerDay: tally.monitorDays > 0 ? tally.falseAlarms / tally.monitorDays : 0,
+  };
+}
+
+/**
+ * Replay every detector at every sensitivity over each labeled dataset, one
+ * monitor per metric, and score them. False alarms per day are per monitor.
+ * Runs synchronously - see `npm run benchmark` for the command-line report.
+ */
+export function runDetectorBenchmark(options: BenchmarkOptions = {}): BenchmarkReport {
+  const datasets = options.datasets ?? generateBenchmarkDatasets();
+  const metricIds = options.metricIds ?? DEFAULT_METRIC_IDS;
+  const detectors = options.detectors ?? (Object.keys(BENCHMARK_DETECTORS) as BenchmarkDetector[]);
+  const sensitivities = options.sensitivities ?? DEFAULT_SENSITIVITIES;
+
+  const scores: DetectorScore[] = [];
+  let evaluatedDays = 0;
+
+  detectors.forEach((detector) => {
+    sensitivities.forEach((sensitivity) => {
+      const tally: Tally = {
+        labels: [],
+        detected: [],
+        alarms: 0,
+        falseAlarms: 0,
+        detectHours: [],
+        monitorDays: 0,
+      };
+
+      datasets.forEach(({ campaign, values, labels }) => {
+        if (values.length === 0) return;
+        const times = values.map((v) => new Date(v.timestamp).getTime());
+        const from = addDays(new Date(times.reduce((a, b) => Math.min(a, b))), WARMUP_DAYS);
+        const to = new Date(times.reduce((a, b) => Math.max(a, b)));
+        evaluatedDays = Math.max(0, (to.getTime() - from.getTime()) / (24 * HOUR_MS));
+
+        metricIds.forEach((metricId) => {
+          const result = replayMonitor(
+            buildDetectorMonitor(detector, campaign, metricId, sensitivity),
+            campaign,
+            values,
+            { from, to }
+          );
+          tallyReplay(
+            tally,
+            result,
+            labels.filter((label) => label.metricId === metricId && !label.dimensions)
+          );
+        });
+      });
+
+      scores.push(toScore(detector, sensitivity, tally));
+    });
+  });
+
+  return {
+    datasets: datasets.length,
+    metricIds,
+    evaluatedDays,
+    scores,
+    generatedAt: new Date().toISOString(),
+  };
+}
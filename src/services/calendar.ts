@@ -0,0 +1,264 @@
+/**
+ * Event calendar - retail events and holidays per market plus a campaign's own
+ * events (e.g. promo launches), and how far they move traffic and the metrics
+ * built on it
+ */
+
+import type { Campaign, CalendarEvent, DimensionSlice } from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { getCampaignTimezone, getSliceTimezone, getZonedTime } from '@/utils/timezone';
+import type { EventFactor } from './baseline';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Local midnights fall on quarter hours, so a day's events hold for a 15-minute block
+const BLOCK_MS = 15 * MINUTE_MS;
+
+// Markets each built-in event is observed in
+const BLACK_FRIDAY_GEOS = ['US', 'CA', 'UK', 'GB', 'AU', 'DE', 'FR', 'BR'];
+const CYBER_MONDAY_GEOS = ['US', 'CA', 'UK', 'GB'];
+const BOXING_DAY_GEOS = ['UK', 'GB', 'CA', 'AU'];
+const CHRISTMAS_GEOS = ['US', 'CA', 'UK', 'GB', 'AU', 'DE', 'FR', 'BR'];
+
+// Diwali follows the lunar calendar, so its dates are listed per year
+const DIWALI_DATES: Record<number, string> = {
+  2024: '2024-11-01',
+  2025: '2025-10-20',
+  2026: '2026-11-08',
+  2027: '2027-10-29',
+  2028: '2028-10-17',
+  2029: '2029-11-05',
+  2030: '2030-10-26',
+};
+
+// Volumes that rise and fall with traffic; spend follows the budget instead
+const TRAFFIC_VOLUMES = ['impressions', 'clicks', 'conversions', 'revenue'];
+
+// 'yyyy-MM-dd' of a calendar date; out-of-range days roll over
+function toDateKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function shiftDateKey(key: string, days: number): string {
+  const [year, month, day] = key.split('-').map(Number);
+  return toDateKey(year, month, day + days);
+}
+
+// Day after the fourth Thursday of November
+function getBlackFriday(year: number): string {
+  const firstWeekday = new Date(Date.UTC(year, 10, 1)).getUTCDay();
+  const firstThursday = 1 + ((4 - firstWeekday + 7) % 7);
+  return toDateKey(year, 11, firstThursday + 22);
+}
+
+// Easter Sunday (anonymous Gregorian algorithm)
+function getEaster(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateKey(year, month, day);
+}
+
+const builtInCache = new Map<number, CalendarEvent[]>();
+
+// Multiplier of each market per 15-minute block, by campaign
+const marketMultipliers = new WeakMap<Campaign, Map<string, number>>();
+
+/**
+ * Built-in retail events and holidays of a year, per market
+ */
+export function getBuiltInEvents(year: number): CalendarEvent[] {
+  const cached = builtInCache.get(year);
+  if (cached) return cached;
+
+  const event = (
+    id: string,
+    name: string,
+    category: CalendarEvent['category'],
+    startDate: string,
+    endDate: string,
+    trafficMultiplier: number,
+    geos?: string[]
+  ): CalendarEvent => ({
+    id: `builtin-${id}-${year}`,
+    name,
+    category,
+    startDate,
+    endDate,
+    geos,
+    trafficMultiplier,
+    builtIn: true,
+  });
+
+  const blackFriday = getBlackFriday(year);
+  const carnivalStart = shiftDateKey(getEaster(year), -50); // Saturday before Ash Wednesday
+  const diwali = DIWALI_DATES[year];
+
+  const events = [
+    event('new-year', "New Year's Day", 'HOLIDAY', `${year}-01-01`, `${year}-01-01`, 0.8),
+    event('carnival', 'Carnival', 'HOLIDAY', carnivalStart, shiftDateKey(carnivalStart, 3), 0.75, ['BR']),
+    event('golden-week', 'Golden Week', 'HOLIDAY', `${year}-04-29`, `${year}-05-05`, 1.3, ['JP']),
+    ...(diwali
+      ? [event('diwali', 'Diwali', 'RETAIL', shiftDateKey(diwali, -2), diwali, 1.8, ['IN'])]
+      : []),
+    event('black-friday', 'Black Friday', 'RETAIL', blackFriday, blackFriday, 2.5, BLACK_FRIDAY_GEOS),
+    event(
+      'cyber-monday',
+      'Cyber Monday',
+      'RETAIL',
+      shiftDateKey(blackFriday, 3),
+      shiftDateKey(blackFriday, 3),
+      2,
+      CYBER_MONDAY_GEOS
+    ),
+    event('christmas', 'Christmas Day', 'HOLIDAY', `${year}-12-25`, `${year}-12-25`, 0.7, CHRISTMAS_GEOS),
+    event('boxing-day', 'Boxing Day', 'RETAIL', `${year}-12-26`, `${year}-12-26`, 1.8, BOXING_DAY_GEOS),
+  ];
+  builtInCache.set(year, events);
+  return events;
+}
+
+function appliesTo(event: CalendarEvent, geo: string | undefined): boolean {
+  if (!event.geos) return true;
+  return geo !== undefined && event.geos.includes(geo);
+}
+
+/**
+ * Events on a local calendar date in a market (no geo: only events held everywhere)
+ */
+export function getEventsOnDate(campaign: Campaign, dateKey: string, geo?: string): CalendarEvent[] {
+  const year = Number(dateKey.slice(0, 4));
+  return [...getBuiltInEvents(year), ...(campaign.calendarEvents ?? [])].filter(
+    (event) => event.startDate <= dateKey && dateKey <= event.endDate && appliesTo(event, geo)
+  );
+}
+
+// The campaign's markets: its geos, or one market on the reporting clock
+function getMarkets(campaign: Campaign): Array<string | undefined> {
+  return campaign.targeting.geos.length > 0 ? campaign.targeting.geos : [undefined];
+}
+
+function getLocalDateKey(time: number, timeZone: string): string {
+  const { year, month, day } = getZonedTime(time, timeZone);
+  return toDateKey(year, month, day);
+}
+
+/**
+ * Events in effect somewhere in the campaign's markets at an instant, each
+ * read on its market's local calendar
+ */
+export function getActiveEvents(campaign: Campaign, time: number): CalendarEvent[] {
+  const active = new Map<string, CalendarEvent>();
+  getMarkets(campaign).forEach((geo) => {
+    const dateKey = getLocalDateKey(time, getSliceTimezone(campaign, geo ? { geo } : undefined));
+    getEventsOnDate(campaign, dateKey, geo).forEach((event) => active.set(event.id, event));
+  });
+  return [...active.values()];
+}
+
+/**
+ * Events of the campaign's markets overlapping a range of instants, in date order
+ */
+export function getCampaignEvents(campaign: Campaign, from: Date, to: Date): CalendarEvent[] {
+  const events = new Map<string, CalendarEvent>();
+  // A day either side covers markets whose local date differs from the reporting one
+  const first = getLocalDateKey(from.getTime() - DAY_MS, getCampaignTimezone(campaign));
+  const last = getLocalDateKey(to.getTime() + DAY_MS, getCampaignTimezone(campaign));
+  const years = new Set([Number(first.slice(0, 4)), Number(last.slice(0, 4))]);
+
+  [...years].forEach((year) => {
+    [...getBuiltInEvents(year), ...(campaign.calendarEvents ?? [])].forEach((event) => {
+      const inMarket = getMarkets(campaign).some((geo) => appliesTo(event, geo));
+      if (inMarket && event.startDate <= last && event.endDate >= first) events.set(event.id, event);
+    });
+  });
+  return [...events.values()].sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// Usual traffic of a slice at an instant, to weigh markets by
+export type MarketWeight = (slice: DimensionSlice, time: number) => number;
+
+/**
+ * Traffic of a slice at an instant against a normal day: the product of the
+ * events on its market's local date. Slices without a geo blend the
+ * campaign's markets, weighted by their usual traffic at that instant (evenly
+ * without weights) - an event in a market that is asleep barely moves the total.
+ */
+export function getTrafficMultiplier(
+  campaign: Campaign,
+  slice: DimensionSlice | undefined,
+  time: number,
+  weightOf?: MarketWeight
+): number {
+  if (!slice?.geo && campaign.targeting.geos.length > 0) {
+    const markets = campaign.targeting.geos.map((geo) => ({ ...slice, geo }));
+    const multipliers = markets.map((market) => getTrafficMultiplier(campaign, market, time));
+    if (multipliers.every((m) => m === multipliers[0])) return multipliers[0];
+
+    const weights = markets.map((market) => (weightOf ? Math.max(0, weightOf(market, time)) : 1));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    return totalWeight > 0
+      ? multipliers.reduce((sum, m, i) => sum + m * weights[i], 0) / totalWeight
+      : multipliers.reduce((sum, m) => sum + m, 0) / multipliers.length;
+  }
+
+  // Keyed by campaign object, so edits to its events start a fresh cache
+  let cache = marketMultipliers.get(campaign);
+  if (!cache) {
+    cache = new Map();
+    marketMultipliers.set(campaign, cache);
+  }
+  const key = `${slice?.geo ?? ''}|${Math.floor(time / BLOCK_MS)}`;
+  let multiplier = cache.get(key);
+  if (multiplier === undefined) {
+    const dateKey = getLocalDateKey(time, getSliceTimezone(campaign, slice));
+    multiplier = getEventsOnDate(campaign, dateKey, slice?.geo).reduce(
+      (product, event) => product * event.trafficMultiplier,
+      1
+    );
+    cache.set(key, multiplier);
+  }
+  return multiplier;
+}
+
+/**
+ * How a metric responds to traffic, as the power of the traffic multiplier it
+ * moves by: 1 for traffic volumes, 0 for spend and quality rates, and a
+ * ratio's numerator minus its denominator (CTR 0, CPM -1, ROAS 1)
+ */
+export function getTrafficExponent(metricId: string): number {
+  if (TRAFFIC_VOLUMES.includes(metricId)) return 1;
+  const metric = DEFAULT_METRICS.find((m) => m.id === metricId);
+  if (metric?.isRatio && metric.dependsOn?.length === 2) {
+    return getTrafficExponent(metric.dependsOn[0]) - getTrafficExponent(metric.dependsOn[1]);
+  }
+  return 0;
+}
+
+/**
+ * How far the calendar moves a metric (of a slice) at any instant, for the
+ * baseline engine. Undefined for metrics traffic doesn't move.
+ */
+export function getEventFactor(
+  campaign: Campaign,
+  metricId: string,
+  slice?: DimensionSlice,
+  weightOf?: MarketWeight
+): EventFactor | undefined {
+  const exponent = getTrafficExponent(metricId);
+  if (exponent === 0) return undefined;
+
+  return (time: number) => getTrafficMultiplier(campaign, slice, time, weightOf) ** exponent;
+}
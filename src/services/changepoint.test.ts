@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, MetricValue, Sensitivity } from '@/types';
+import { detectDrift } from './changepoint';
+import { generateHistoricalData } from './simulation';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.UTC(2026, 2, 2); // A Monday, clear of built-in calendar events
+const TIME_ZONE = 'America/New_York';
+const SEEDS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+// Checks run hourly for four days, each on the week of history before it
+const CHECK_FROM = START + 7 * DAY_MS;
+const CHECK_HOURS = 4 * 24;
+
+function seededCampaign(seed: number): Campaign {
+  return {
+    id: `drift-${seed}`,
+    name: `Drift ${seed}`,
+    vertical: 'E-commerce',
+    objective: 'Performance',
+    dailyBudget: 1000,
+    startDate: '2026-01-01',
+    endDate: '2026-12-31',
+    status: 'ACTIVE',
+    targeting: { geos: ['US'], devices: ['Desktop'] },
+    monitoringEnabled: true,
+    anomalyDetectionEnabled: true,
+    sensitivity: 'Balanced',
+    timezone: TIME_ZONE,
+    seed,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+// Campaign-level CVR with nothing injected: the simulator only seeds random
+// anomalies into the last 12 hours before `now`, so those hours are dropped
+function cleanCvr(campaign: Campaign): MetricValue[] {
+  const byTime = new Map<number, MetricValue>();
+  [7, 12].forEach((days) => {
+    const now = START + days * DAY_MS + 12 * HOUR_MS;
+    generateHistoricalData(campaign, new Date(now)).forEach((v) => {
+      const time = new Date(v.timestamp).getTime();
+      if (v.metricId === 'cvr' && !v.dimensions && time >= START && time < now - 12 * HOUR_MS) {
+        byTime.set(time, v);
+      }
+    });
+  });
+  return [...byTime.keys()].sort((a, b) => a - b).map((time) => byTime.get(time)!);
+}
+
+// CVR sliding down `perDay` (as a share of its level) from CHECK_FROM on
+function withSlide(series: MetricValue[], perDay: number): MetricValue[] {
+  return series.map((v) => {
+    const days = Math.max(0, new Date(v.timestamp).getTime() - CHECK_FROM) / DAY_MS;
+    return { ...v, value: v.value * (1 - perDay * days) };
+  });
+}
+
+// Hours after CHECK_FROM of the first downward drift, or null when none is raised
+function firstDownwardDrift(series: MetricValue[], sensitivity: Sensitivity): number | null {
+  for (let hour = 0; hour < CHECK_HOURS; hour++) {
+    const at = CHECK_FROM + hour * HOUR_MS;
+    const current = series.find((v) => new Date(v.timestamp).getTime() === at)!;
+    const history = series.filter((v) => {
+      const time = new Date(v.timestamp).getTime();
+      return time < at && time >= at - 7 * DAY_MS;
+    });
+    const drift = detectDrift(history, current, sensitivity, 'CUSUM', TIME_ZONE);
+    if (drift?.inDrift && drift.direction === 'DOWN') return hour;
+  }
+  return null;
+}
+
+describe('detectDrift', () => {
+  const series = SEEDS.map((seed) => cleanCvr(seededCampaign(seed)));
+
+  it('rarely raises a drift on clean campaigns at Balanced', () => {
+    // Hourly CUSUM raised one on 5 of these 12 within the four days
+    const falseAlarms = series.filter((s) => firstDownwardDrift(s, 'Balanced') !== null);
+    expect(falseAlarms.length).toBeLessThanOrEqual(2);
+  });
+
+  it('catches a 2%/day CVR slide within days', () => {
+    const delays = series.map((s) => firstDownwardDrift(withSlide(s, 0.02), 'Balanced'));
+    const caught = delays.filter((d): d is number => d !== null).sort((a, b) => a - b);
+
+    expect(caught.length).toBeGreaterThanOrEqual(10);
+    // Median delay of about three days, once the slide has moved CVR by ~6%
+    expect(caught[Math.floor(caught.length / 2)]).toBeLessThanOrEqual(80);
+  });
+
+  it('flags the slide sooner at Strict than at Loose', () => {
+    const total = (sensitivity: Sensitivity) =>
+      series
+        .map((s) => firstDownwardDrift(withSlide(s, 0.02), sensitivity) ?? CHECK_HOURS)
+        .reduce((sum, d) => sum + d, 0);
+    expect(total('Strict')).toBeLessThan(total('Loose'));
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Change-point detection (CUSUM / Page-Hinkley) for slow drifts in a metric's level
+ */
+
+import type { DriftMethod, MetricValue, Sensitivity } from '@/types';
+import { getZonedTime, isZonedWeekend } from '@/utils/timezone';
+import { getAggregateSeries, mean, median, medianAbsoluteDeviation } from './baseline';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Most recent hours excluded from the reference profile so a fresh drift
+// doesn't teach the detector that the drifted level is normal. These hours
+// are the ones tested for a shift.
+const DETECTION_WINDOW_HOURS = 48;
+
+// Reference needs at least this many points to estimate a profile and spread
+const MIN_REFERENCE_POINTS = 48;
+
+const MAD_TO_SIGMA = 1.4826;
+
+// Weekend hours the reference needs before weekends get their own level; a
+// factor from a handful of hours is mostly noise
+const MIN_WEEKEND_POINTS = 24;
+
+export interface DriftParams {
+  k: number; // Allowance (slack) per day, in sigma units of a day's mean
+  h: number; // Decision threshold, in the same units
+}
+
+export interface DriftResult {
+  method: DriftMethod;
+  inDrift: boolean;
+  direction: 'UP' | 'DOWN' | null;
+  statistic: number; // Signed test statistic in sigma units (+ = upward shift)
+  threshold: number;
+  startedAt?: string; // Estimated start of the shift
+  magnitudePercent?: number; // Mean level since start vs reference, in %
+  expectedValue: number; // Reference expectation for the latest point
+}
+
+// Drift thresholds per sensitivity, on daily residuals. The allowance ignores
+// shifts under half a day's noise; the threshold trades detection delay for
+// false alarms.
+export function getDriftParams(sensitivity: Sensitivity): DriftParams {
+  switch (sensitivity) {
+    case 'Strict':
+      return { k: 0.5, h: 2.5 };
+    case 'Balanced':
+      return { k: 0.5, h: 3 };
+    case 'Loose':
+      return { k: 0.5, h: 4 };
+  }
+}
+
+/**
+ * Local hour-of-day profile with a weekend factor, built from the reference
+ * period and used to remove seasonality before testing for a level shift
+ */
+function buildSeasonalProfile(reference: MetricValue[], timeZone?: string) {
+  const weekdayByHour = new Map<number, number[]>();
+  const allByHour = new Map<number, number[]>();
+  const hourOf = (date: Date) => getZonedTime(date, timeZone).hour;
+  const isWeekend = (date: Date) => isZonedWeekend(date, timeZone);
+
+  reference.forEach((v) => {
+    const date = new Date(v.timestamp);
+    const hour = hourOf(date);
+    allByHour.set(hour, [...(allByHour.get(hour) || []), v.value]);
+    if (!isWeekend(date)) {
+      weekdayByHour.set(hour, [...(weekdayByHour.get(hour) || []), v.value]);
+    }
+  });
+
+  const hourly = (hour: number) => mean(weekdayByHour.get(hour) || allByHour.get(hour) || []);
+
+  const weekendRatios = reference
+    .filter((v) => isWeekend(new Date(v.timestamp)))
+    .map((v) => {
+      const base = hourly(hourOf(new Date(v.timestamp)));
+      return base > 0 ? v.value / base : 1;
+    });
+  const weekendFactor = weekendRatios.length >= MIN_WEEKEND_POINTS ? mean(weekendRatios) : 1;
+
+  return (date: Date): number =>
+    hourly(hourOf(date)) * (isWeekend(date) ? weekendFactor : 1);
+}
+
+interface Standardised {
+  timestamp: string;
+  relative: number; // value / profile - 1
+  z: number; // (relative - reference center) / reference sigma
+}
+
+/**
+ * Hourly points averaged into 24-hour blocks counted back from `at`, so the
+ * newest block always ends at the latest reading. A day's mean is scaled back
+ * to unit variance; hour-to-hour noise then can't add up to a false drift.
+ */
+function toDailyResiduals(points: Standardised[], at: Date): Standardised[] {
+  const days = new Map<number, Standardised[]>();
+  points.forEach((p) => {
+    const day = Math.max(0, Math.ceil((at.getTime() - new Date(p.timestamp).getTime()) / DAY_MS) - 1);
+    days.set(day, [...(days.get(day) || []), p]);
+  });
+
+  return [...days.keys()]
+    .sort((a, b) => b - a)
+    .map((day) => {
+      const dayPoints = days.get(day)!;
+      return {
+        timestamp: dayPoints[0].timestamp,
+        relative: mean(dayPoints.map((p) => p.relative)),
+        z: mean(dayPoints.map((p) => p.z)) * Math.sqrt(dayPoints.length),
+      };
+    });
+}
+
+function runCusum(points: Standardised[], params: DriftParams) {
+  let upper = 0;
+  let lower = 0;
+  let upperStart = 0;
+  let lowerStart = 0;
+
+  points.forEach((p, i) => {
+    if (upper === 0) upperStart = i;
+    if (lower === 0) lowerStart = i;
+    upper = Math.max(0, upper + p.z - params.k);
+    lower = Math.max(0, lower - p.z - params.k);
+  });
+
+  return upper >= lower
+    ? { statistic: upper, startIndex: upperStart, direction: 'UP' as const }
+    : { statistic: -lower, startIndex: lowerStart, direction: 'DOWN' as const };
+}
+
+function runPageHinkley(points: Standardised[], params: DriftParams) {
+  // Cumulative deviations from the reference mean; the test statistic is the
+  // distance of the running sum from its extreme so far
+  let upSum = 0;
+  let downSum = 0;
+  let upMin = 0;
+  let downMin = 0;
+  let upMinIndex = 0;
+  let downMinIndex = 0;
+
+  points.forEach((p, i) => {
+    upSum += p.z - params.k;
+    downSum += -p.z - params.k;
+    if (upSum < upMin) {
+      upMin = upSum;
+      upMinIndex = i + 1;
+    }
+    if (downSum < downMin) {
+      downMin = downSum;
+      downMinIndex = i + 1;
+    }
+  });
+
+  const up = upSum - upMin;
+  const down = downSum - downMin;
+  return up >= down
+    ? { statistic: up, startIndex: upMinIndex, direction: 'UP' as const }
+    : { statistic: -down, startIndex: downMinIndex, direction: 'DOWN' as const };
+}
+
+/**
+ * Test the last DETECTION_WINDOW_HOURS of the stored series (plus the latest
+ * reading) for a sustained level shift against the history before them, one
+ * day at a time, with seasonality removed on the local clock of `timeZone`.
+ * Returns null when the history is too short to build a reference.
+ */
+export function detectDrift(
+  history: MetricValue[],
+  current: { timestamp: string; value: number },
+  sensitivity: Sensitivity,
+  method: DriftMethod = 'CUSUM',
+  timeZone?: string
+): DriftResult | null {
+  const at = new Date(current.timestamp);
+  const series = getAggregateSeries(history, at);
+  const referenceEnd = at.getTime() - DETECTION_WINDOW_HOURS * HOUR_MS;
+  const reference = series.filter((v) => new Date(v.timestamp).getTime() < referenceEnd);
+  if (reference.length < MIN_REFERENCE_POINTS) return null;
+
+  const profile = buildSeasonalProfile(reference, timeZone);
+  const toRelative = (v: { timestamp: string; value: number }) => {
+    const expected = profile(new Date(v.timestamp));
+    return expected > 0 ? v.value / expected - 1 : 0;
+  };
+
+  const referenceRelative = reference.map(toRelative);
+  const center = median(referenceRelative);
+
+  // Spread from same-hour differences on consecutive days: unlike residuals
+  // from the in-sample profile, these aren't shrunk by overfitting
+  const byTime = new Map(reference.map((v, i) => [new Date(v.timestamp).getTime(), referenceRelative[i]]));
+  const dayOverDay: number[] = [];
+  byTime.forEach((relative, time) => {
+    const previous = byTime.get(time - 24 * HOUR_MS);
+    if (previous !== undefined) dayOverDay.push(relative - previous);
+  });
+  const noiseSigma = (medianAbsoluteDeviation(dayOverDay) * MAD_TO_SIGMA) / Math.SQRT2;
+  if (noiseSigma <= 0) return null;
+
+  // New points are also off by the profile's own estimation error
+  const samplesPerHour = reference.length / 24;
+  const sigma = noiseSigma * Math.sqrt(1 + 1 / samplesPerHour);
+
+  // Reference points fit the profile by construction; only newer ones are tested
+  const points: Standardised[] = [...series, current]
+    .filter((v) => new Date(v.timestamp).getTime() >= referenceEnd)
+    .map((v) => {
+      const relative = toRelative(v);
+      return { timestamp: v.timestamp, relative, z: (relative - center) / sigma };
+    });
+
+  const days = toDailyResiduals(points, at);
+  const params = getDriftParams(sensitivity);
+  const { statistic, startIndex, direction } =
+    method === 'PAGE_HINKLEY' ? runPageHinkley(days, params) : runCusum(days, params);
+
+  const inDrift = Math.abs(statistic) > params.h;
+  const expectedValue = profile(at) * (1 + center);
+
+  if (!inDrift) {
+    return {
+      method,
+      inDrift,
+      direction: null,
+      statistic,
+      threshold: params.h,
+      expectedValue,
+    };
+  }
+
+  const startedAt = days[Math.min(startIndex, days.length - 1)].timestamp;
+  const shifted = points.filter((p) => p.timestamp >= startedAt);
+  const shiftedMean = shifted.reduce((sum, p) => sum + p.relative, 0) / shifted.length;
+
+  return {
+    method,
+    inDrift,
+    direction,
+    statistic,
+    threshold: params.h,
+    startedAt,
+    magnitudePercent: ((1 + shiftedMean) / (1 + center) - 1) * 100,
+    expectedValue,
+  };
+}
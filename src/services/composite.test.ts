@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { CompositeRule, MetricCondition } from '@/types';
+import { evaluateCompositeRule, validateCompositeRule } from './composite';
+
+const spendUp: MetricCondition = {
+  type: 'CONDITION',
+  metricId: 'spend',
+  direction: 'UP',
+  thresholdPercent: 20,
+};
+const conversionsDown: MetricCondition = {
+  type: 'CONDITION',
+  metricId: 'conversions',
+  direction: 'DOWN',
+};
+const viewabilityMoved: MetricCondition = {
+  type: 'CONDITION',
+  metricId: 'viewability',
+  direction: 'BOTH',
+};
+
+// Judges each condition as met when its metric is in `moved`
+function evaluate(rule: CompositeRule, moved: string[]) {
+  return evaluateCompositeRule(rule, (condition) => ({
+    metricId: condition.metricId,
+    met: moved.includes(condition.metricId),
+    currentValue: 0,
+    expectedValue: 0,
+    deviationPercent: 0,
+  }));
+}
+
+describe('evaluateCompositeRule', () => {
+  it('needs every condition of an AND', () => {
+    const rule: CompositeRule = { type: 'AND', conditions: [spendUp, conversionsDown] };
+
+    expect(evaluate(rule, ['spend', 'conversions']).satisfied).toBe(true);
+    expect(evaluate(rule, ['spend']).satisfied).toBe(false);
+  });
+
+  it('needs any condition of an OR', () => {
+    const rule: CompositeRule = { type: 'OR', conditions: [spendUp, conversionsDown] };
+
+    expect(evaluate(rule, ['conversions']).satisfied).toBe(true);
+    expect(evaluate(rule, []).satisfied).toBe(false);
+  });
+
+  it('holds a NOT when its condition is false', () => {
+    const rule: CompositeRule = {
+      type: 'AND',
+      conditions: [conversionsDown, { type: 'NOT', condition: viewabilityMoved }],
+    };
+
+    expect(evaluate(rule, ['conversions']).satisfied).toBe(true);
+    expect(evaluate(rule, ['conversions', 'viewability']).satisfied).toBe(false);
+  });
+
+  it('reports every condition and which of them fired', () => {
+    const rule: CompositeRule = {
+      type: 'OR',
+      conditions: [
+        { type: 'AND', conditions: [spendUp, conversionsDown] },
+        { type: 'NOT', condition: viewabilityMoved },
+      ],
+    };
+    const { satisfied, results } = evaluate(rule, ['spend', 'viewability']);
+
+    expect(satisfied).toBe(false);
+    expect(results.map(({ description, met, negated }) => ({ description, met, negated }))).toEqual([
+      { description: 'Spend up >20%', met: true, negated: false },
+      { description: 'Conversions down', met: false, negated: false },
+      { description: 'Viewability anomalous', met: true, negated: true },
+    ]);
+  });
+});
+
+describe('validateCompositeRule', () => {
+  it('accepts the rules monitors are created with', () => {
+    const rule: CompositeRule = {
+      type: 'AND',
+      conditions: [
+        { type: 'CONDITION', metricId: 'ctr', direction: 'DOWN' },
+        { type: 'NOT', condition: { type: 'CONDITION', metricId: 'viewability', direction: 'BOTH' } },
+      ],
+    };
+
+    expect(validateCompositeRule(rule)).toEqual([]);
+  });
+
+  it('rejects groups with fewer than two conditions', () => {
+    const rule: CompositeRule = {
+      type: 'OR',
+      conditions: [{ type: 'CONDITION', metricId: 'spend', direction: 'UP' }],
+    };
+
+    expect(validateCompositeRule(rule)).toEqual(['OR needs at least two conditions']);
+  });
+
+  it('rejects thresholds that are not above zero and metrics a rule cannot test', () => {
+    const rule: CompositeRule = {
+      type: 'AND',
+      conditions: [
+        { type: 'CONDITION', metricId: 'spend', direction: 'UP', thresholdPercent: 0 },
+        { type: 'CONDITION', metricId: 'pacing', direction: 'BOTH' },
+      ],
+    };
+
+    expect(validateCompositeRule(rule)).toEqual([
+      'Spend: threshold must be greater than 0%',
+      "Pacing can't be used in a rule",
+    ]);
+  });
+
+  it('rejects a rule made only of negated conditions', () => {
+    const rule: CompositeRule = {
+      type: 'NOT',
+      condition: { type: 'CONDITION', metricId: 'viewability', direction: 'BOTH' },
+    };
+
+    expect(validateCompositeRule(rule)).toEqual([
+      'Rule needs at least one condition that is not under NOT',
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Multi-metric composite rules - AND / OR / NOT over single-metric conditions
+ */
+
+import type { CompositeRule, ConditionResult, MetricCondition } from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+
+type ConditionOutcome = Omit<ConditionResult, 'negated' | 'description'>;
+
+// Metrics a condition can test - pacing is a status, not a value with a baseline
+export const RULE_METRICS = DEFAULT_METRICS.filter((m) => m.unit !== 'status');
+
+function getMetricName(metricId: string): string {
+  return DEFAULT_METRICS.find((m) => m.id === metricId)?.name ?? metricId;
+}
+
+/**
+ * Plain-English condition, e.g. 'Spend up >20%' or 'Viewability anomalous'
+ */
+export function describeCondition(condition: MetricCondition): string {
+  const movement =
+    condition.direction === 'UP' ? 'up' : condition.direction === 'DOWN' ? 'down' : 'anomalous';
+  const threshold =
+    condition.thresholdPercent !== undefined
+      ? ` ${condition.direction === 'BOTH' ? '±' : '>'}${condition.thresholdPercent}%`
+      : '';
+  return `${getMetricName(condition.metricId)} ${movement}${threshold}`;
+}
+
+/**
+ * Whole rule as text, e.g. 'CTR down AND NOT Viewability anomalous'
+ */
+export function describeCompositeRule(rule: CompositeRule, nested = false): string {
+  switch (rule.type) {
+    case 'CONDITION':
+      return describeCondition(rule);
+    case 'NOT':
+      return `NOT ${describeCompositeRule(rule.condition, true)}`;
+    case 'AND':
+    case 'OR': {
+      const text = rule.conditions.map((c) => describeCompositeRule(c, true)).join(` ${rule.type} `);
+      return nested && rule.conditions.length > 1 ? `(${text})` : text;
+    }
+  }
+}
+
+/**
+ * Metrics a rule reads, in the order they appear
+ */
+export function getRuleMetricIds(rule: CompositeRule): string[] {
+  switch (rule.type) {
+    case 'CONDITION':
+      return [rule.metricId];
+    case 'NOT':
+      return getRuleMetricIds(rule.condition);
+    case 'AND':
+    case 'OR':
+      return [...new Set(rule.conditions.flatMap(getRuleMetricIds))];
+  }
+}
+
+/**
+ * Evaluate a rule, judging each condition with the supplied single-metric check.
+ * Every condition is evaluated (no short-circuit) so alarms can list them all.
+ */
+export function evaluateCompositeRule(
+  rule: CompositeRule,
+  evaluateCondition: (condition: MetricCondition) => ConditionOutcome,
+  negated = false
+): { satisfied: boolean; results: ConditionResult[] } {
+  switch (rule.type) {
+    case 'CONDITION': {
+      const outcome = evaluateCondition(rule);
+      return {
+        satisfied: outcome.met,
+        results: [{ ...outcome, description: describeCondition(rule), negated }],
+      };
+    }
+    case 'NOT': {
+      const inner = evaluateCompositeRule(rule.condition, evaluateCondition, !negated);
+      return { satisfied: !inner.satisfied, results: inner.results };
+    }
+    case 'AND':
+    case 'OR': {
+      const children = rule.conditions.map((c) =>
+        evaluateCompositeRule(c, evaluateCondition, negated)
+      );
+      const satisfied =
+        rule.type === 'AND'
+          ? children.length > 0 && children.every((c) => c.satisfied)
+          : children.some((c) => c.satisfied);
+      return { satisfied, results: children.flatMap((c) => c.results) };
+    }
+  }
+}
+
+/**
+ * Problems that would stop a rule from saving, e.g. an empty group or a
+ * rule made only of NOTs (it would alarm whenever every metric looks normal)
+ */
+export function validateCompositeRule(rule: CompositeRule): string[] {
+  const errors = new Set<string>();
+  let positiveConditions = 0;
+
+  const visit = (node: CompositeRule, negated: boolean) => {
+    switch (node.type) {
+      case 'CONDITION': {
+        if (!RULE_METRICS.some((m) => m.id === node.metricId)) {
+          errors.add(`${getMetricName(node.metricId)} can't be used in a rule`);
+        }
+        if (node.thresholdPercent !== undefined && !(node.thresholdPercent > 0)) {
+          errors.add(`${getMetricName(node.metricId)}: threshold must be greater than 0%`);
+        }
+        if (!negated) positiveConditions++;
+        return;
+      }
+      case 'NOT':
+        visit(node.condition, !negated);
+        return;
+      case 'AND':
+      case 'OR':
+        if (node.conditions.length < 2) errors.add(`${node.type} needs at least two conditions`);
+        node.conditions.forEach((c) => visit(c, negated));
+    }
+  };
+
+  visit(rule, false);
+  if (positiveConditions === 0) errors.add('Rule needs at least one condition that is not under NOT');
+  return [...errors];
+}
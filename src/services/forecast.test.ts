@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { MetricValue, Sensitivity } from '@/types';
+import { getSensitivityIntervalZ } from '@/utils/helpers';
+import { fitHoltWinters, forecastAt } from './forecast';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 5); // A Monday, midnight UTC
+
+// Deterministic noise in [-1, 1)
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return (state / 4294967296) * 2 - 1;
+  };
+}
+
+// Hourly series peaking at 06:00 and bottoming out at 18:00 UTC
+function dailyPattern(hours: number, amplitude = 20): MetricValue[] {
+  const jitter = noise(7);
+  return Array.from({ length: hours }, (_, i) => ({
+    campaignId: 'c1',
+    metricId: 'impressions',
+    timestamp: new Date(START + i * HOUR_MS).toISOString(),
+    value: 100 + amplitude * Math.sin((2 * Math.PI * i) / 24) + jitter(),
+  }));
+}
+
+describe('fitHoltWinters', () => {
+  it('needs two days of history', () => {
+    const history = dailyPattern(47);
+    expect(fitHoltWinters(history, new Date(START + 48 * HOUR_MS), 'UTC')).toBeNull();
+  });
+
+  it('learns the hour-of-day profile', () => {
+    const history = dailyPattern(7 * 24);
+    const model = fitHoltWinters(history, new Date(START + 7 * 24 * HOUR_MS), 'UTC')!;
+
+    expect(model).not.toBeNull();
+    const peak = model.daily.indexOf(Math.max(...model.daily));
+    const trough = model.daily.indexOf(Math.min(...model.daily));
+    expect(Math.abs(peak - 6)).toBeLessThanOrEqual(1);
+    expect(Math.abs(trough - 18)).toBeLessThanOrEqual(1);
+    model.daily.forEach((component, hour) => {
+      expect(component).toBeCloseTo(20 * Math.sin((2 * Math.PI * hour) / 24), -1);
+    });
+    // The seasonal components explain the swing, leaving roughly the noise
+    expect(model.residualStd).toBeLessThan(3);
+  });
+
+  it('forecasts the next day on the learned profile', () => {
+    const history = dailyPattern(7 * 24);
+    const model = fitHoltWinters(history, new Date(START + 7 * 24 * HOUR_MS), 'UTC')!;
+
+    const morning = forecastAt(model, new Date(START + (7 * 24 + 6) * HOUR_MS));
+    const evening = forecastAt(model, new Date(START + (7 * 24 + 18) * HOUR_MS));
+    expect(morning.expected).toBeCloseTo(120, -1);
+    expect(evening.expected).toBeCloseTo(80, -1);
+  });
+
+  it('widens the interval from Strict to Loose', () => {
+    const history = dailyPattern(7 * 24);
+    const model = fitHoltWinters(history, new Date(START + 7 * 24 * HOUR_MS), 'UTC')!;
+    const at = new Date(START + (7 * 24 + 2) * HOUR_MS);
+
+    const widths = (['Strict', 'Balanced', 'Loose'] as Sensitivity[]).map((sensitivity) => {
+      const point = forecastAt(model, at, getSensitivityIntervalZ(sensitivity));
+      return point.upperBound - point.lowerBound;
+    });
+
+    expect(widths[0]).toBeGreaterThan(0);
+    expect(widths[1]).toBeGreaterThan(widths[0]);
+    expect(widths[2]).toBeGreaterThan(widths[1]);
+    // Width scales with z: the band is expected ± z × forecast std
+    expect(widths[2] / widths[0]).toBeCloseTo(3.29 / 1.96, 5);
+  });
+});
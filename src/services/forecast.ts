@@ -0,0 +1,302 @@
+/**
+ * Holt-Winters forecasting - triple exponential smoothing with daily and
+ * weekly seasonality over the hourly MetricValue series
+ */
+
+import type { ChartDataPoint, MetricValue } from '@/types';
+import { getMetricValuesByCampaignAndMetric } from '@/utils/storage';
+import { getZonedTime } from '@/utils/timezone';
+import { getAggregateSeries, getHourOfWeek, mean } from './baseline';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAILY_PERIOD = 24;
+const WEEKLY_PERIOD = 168;
+
+// Need at least two full days to initialise and score the daily profile
+const MIN_FIT_HOURS = 2 * DAILY_PERIOD;
+
+// Smoothing parameter grid searched during fitting (by one-step-ahead SSE)
+const ALPHA_GRID = [0.05, 0.15, 0.3, 0.5];
+const GAMMA_GRID = [0.05, 0.15, 0.3];
+const BETA = 0.01;
+
+export interface HoltWintersParams {
+  alpha: number; // Level
+  beta: number; // Trend
+  gammaDaily: number; // Hour-of-day seasonality
+  gammaWeekly: number; // Hour-of-week seasonality
+}
+
+export interface HoltWintersModel {
+  params: HoltWintersParams;
+  level: number;
+  trend: number;
+  daily: number[]; // 24 additive hour-of-day components
+  weekly: number[]; // 168 additive hour-of-week components
+  residualStd: number; // Std dev of one-step-ahead errors
+  lastTimestamp: number; // Epoch ms of the last fitted hour
+  timeZone?: string; // Local clock the seasonal components follow (the browser's when unset)
+  fitted: Array<{ timestamp: string; actual: number | null; expected: number }>;
+}
+
+export interface ForecastPoint {
+  timestamp: string;
+  expected: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+interface HourlySeries {
+  timestamps: number[];
+  values: Array<number | null>; // null = no data for that hour
+}
+
+function floorToHour(ms: number): number {
+  return Math.floor(ms / HOUR_MS) * HOUR_MS;
+}
+
+/**
+ * Bucket campaign-level points into a regular hourly grid
+ */
+function buildHourlySeries(history: MetricValue[], at: Date): HourlySeries {
+  const buckets = new Map<number, number[]>();
+  getAggregateSeries(history, at).forEach((v) => {
+    const hour = floorToHour(new Date(v.timestamp).getTime());
+    const bucket = buckets.get(hour) || [];
+    bucket.push(v.value);
+    buckets.set(hour, bucket);
+  });
+
+  if (buckets.size === 0) return { timestamps: [], values: [] };
+
+  const hours = [...buckets.keys()].sort((a, b) => a - b);
+  const timestamps: number[] = [];
+  const values: Array<number | null> = [];
+
+  for (let t = hours[0]; t <= hours[hours.length - 1]; t += HOUR_MS) {
+    timestamps.push(t);
+    const bucket = buckets.get(t);
+    values.push(bucket ? mean(bucket) : null);
+  }
+
+  return { timestamps, values };
+}
+
+/**
+ * Initial components: level from the first day, daily profile from per-day
+ * deviations, weekly profile from day-of-week means. Trend starts flat - a raw
+ * day-over-day difference would mistake the weekday effect for a trend.
+ */
+function initialiseComponents(series: HourlySeries, timeZone?: string) {
+  const observed = (from: number, to: number) =>
+    series.values.slice(from, to).filter((v): v is number => v !== null);
+
+  const level = mean(observed(0, DAILY_PERIOD));
+  const trend = 0;
+
+  const overallMean = mean(observed(0, series.values.length));
+  const dailySums = new Array(DAILY_PERIOD).fill(0);
+  const dailyCounts = new Array(DAILY_PERIOD).fill(0);
+  const dayOfWeekValues: number[][] = Array.from({ length: 7 }, () => []);
+
+  for (let start = 0; start < series.values.length; start += DAILY_PERIOD) {
+    const dayValues = observed(start, start + DAILY_PERIOD);
+    if (dayValues.length === 0) continue;
+    const dayMean = mean(dayValues);
+
+    for (let i = start; i < Math.min(start + DAILY_PERIOD, series.values.length); i++) {
+      const value = series.values[i];
+      if (value === null) continue;
+      const { hour } = getZonedTime(series.timestamps[i], timeZone);
+      dailySums[hour] += value - dayMean;
+      dailyCounts[hour]++;
+    }
+    dayOfWeekValues[getZonedTime(series.timestamps[start], timeZone).dayOfWeek].push(dayMean);
+  }
+
+  const daily = dailySums.map((sum, h) => (dailyCounts[h] > 0 ? sum / dailyCounts[h] : 0));
+  const weekly = new Array(WEEKLY_PERIOD).fill(0).map((_, hourOfWeek) => {
+    const dayMeans = dayOfWeekValues[Math.floor(hourOfWeek / DAILY_PERIOD)];
+    return dayMeans.length > 0 ? mean(dayMeans) - overallMean : 0;
+  });
+
+  return { level, trend, daily, weekly };
+}
+
+function runHoltWinters(
+  series: HourlySeries,
+  params: HoltWintersParams,
+  timeZone?: string
+): HoltWintersModel {
+  const { alpha, beta, gammaDaily, gammaWeekly } = params;
+  let { level, trend, daily, weekly } = initialiseComponents(series, timeZone);
+  daily = [...daily];
+  weekly = [...weekly];
+
+  const fitted: HoltWintersModel['fitted'] = [];
+  const errors: number[] = [];
+
+  series.values.forEach((y, i) => {
+    const date = new Date(series.timestamps[i]);
+    const w = getHourOfWeek(date, timeZone);
+    const h = w % 24;
+    const expected = level + trend + daily[h] + weekly[w];
+
+    fitted.push({ timestamp: date.toISOString(), actual: y, expected });
+
+    if (y === null) {
+      // Missing hour - carry the forecast forward without updating seasonality
+      level = level + trend;
+      return;
+    }
+
+    // Skip the first day when scoring: those errors reflect initialisation
+    if (i >= DAILY_PERIOD) errors.push(y - expected);
+
+    const previousLevel = level;
+    const previousDaily = daily[h];
+    level = alpha * (y - daily[h] - weekly[w]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    daily[h] = gammaDaily * (y - level - weekly[w]) + (1 - gammaDaily) * daily[h];
+    weekly[w] = gammaWeekly * (y - level - previousDaily) + (1 - gammaWeekly) * weekly[w];
+  });
+
+  const residualStd =
+    errors.length > 1
+      ? Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / (errors.length - 1))
+      : 0;
+
+  return {
+    params,
+    level,
+    trend,
+    daily,
+    weekly,
+    residualStd,
+    lastTimestamp: series.timestamps[series.timestamps.length - 1],
+    timeZone,
+    fitted,
+  };
+}
+
+/**
+ * Fit a Holt-Winters model to the history strictly before `at`, with
+ * seasonality on the local clock of `timeZone`.
+ * Returns null when there isn't enough history to fit.
+ */
+export function fitHoltWinters(
+  history: MetricValue[],
+  at: Date = new Date(),
+  timeZone?: string
+): HoltWintersModel | null {
+  const series = buildHourlySeries(history, at);
+  if (series.values.length < MIN_FIT_HOURS) return null;
+
+  let best: HoltWintersModel | null = null;
+
+  for (const alpha of ALPHA_GRID) {
+    for (const gamma of GAMMA_GRID) {
+      const model = runHoltWinters(
+        series,
+        { alpha, beta: BETA, gammaDaily: gamma, gammaWeekly: gamma / 2 },
+        timeZone
+      );
+      if (!best || model.residualStd < best.residualStd) {
+        best = model;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Std dev of an h-step-ahead forecast error (level/trend contribution)
+ */
+function forecastStd(model: HoltWintersModel, stepsAhead: number): number {
+  const { alpha, beta } = model.params;
+  let variance = 1;
+  for (let j = 1; j < stepsAhead; j++) {
+    variance += (alpha * (1 + j * beta)) ** 2;
+  }
+  return model.residualStd * Math.sqrt(variance);
+}
+
+function pointForecast(model: HoltWintersModel, timestamp: number, z: number): ForecastPoint {
+  const stepsAhead = Math.max(1, Math.round((timestamp - model.lastTimestamp) / HOUR_MS));
+  const date = new Date(timestamp);
+  const hourOfWeek = getHourOfWeek(date, model.timeZone);
+  const expected =
+    model.level +
+    stepsAhead * model.trend +
+    model.daily[hourOfWeek % 24] +
+    model.weekly[hourOfWeek];
+  const margin = z * forecastStd(model, stepsAhead);
+
+  return {
+    timestamp: date.toISOString(),
+    expected: Math.max(0, expected),
+    lowerBound: Math.max(0, expected - margin),
+    upperBound: Math.max(0, expected + margin),
+  };
+}
+
+/**
+ * Forecast and prediction interval for the next `hours` hours after the fitted history
+ */
+export function forecastHoltWinters(
+  model: HoltWintersModel,
+  hours: number,
+  z: number = 1.96
+): ForecastPoint[] {
+  return Array.from({ length: hours }, (_, i) =>
+    pointForecast(model, model.lastTimestamp + (i + 1) * HOUR_MS, z)
+  );
+}
+
+/**
+ * Forecast and prediction interval for a specific moment
+ */
+export function forecastAt(model: HoltWintersModel, at: Date, z: number = 1.96): ForecastPoint {
+  return pointForecast(model, floorToHour(at.getTime()), z);
+}
+
+/**
+ * Chart series for a metric: recent actuals with their fitted band, followed by
+ * forecast-only points for the next `horizonHours`
+ */
+export function buildForecastChartData(
+  campaignId: string,
+  metricId: string,
+  options: {
+    lookbackHours?: number;
+    horizonHours?: number;
+    z?: number;
+    at?: Date;
+    timeZone?: string;
+  } = {}
+): ChartDataPoint[] {
+  const { lookbackHours = 24, horizonHours = 12, z = 1.96, at = new Date(), timeZone } = options;
+
+  const history = getMetricValuesByCampaignAndMetric(campaignId, metricId);
+  const model = fitHoltWinters(history, at, timeZone);
+  if (!model) return [];
+
+  const margin = z * model.residualStd;
+  const past: ChartDataPoint[] = model.fitted.slice(-lookbackHours).map((point) => ({
+    timestamp: point.timestamp,
+    value: point.actual ?? undefined,
+    expected: Math.max(0, point.expected),
+    lowerBound: Math.max(0, point.expected - margin),
+    upperBound: Math.max(0, point.expected + margin),
+  }));
+
+  const future: ChartDataPoint[] = forecastHoltWinters(model, horizonHours, z).map((point) => ({
+    timestamp: point.timestamp,
+    expected: point.expected,
+    lowerBound: point.lowerBound,
+    upperBound: point.upperBound,
+  }));
+
+  return [...past, ...future];
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Campaign, MetricValue, Monitor } from '@/types';
+import { getMetricValuesByCampaignAndMetric, saveMetricValues } from '@/utils/storage';
+import { evaluateAllMonitors } from './anomaly';
+import { checkCampaignFreshness, getDataFreshness } from './freshness';
+import { generateHistoricalData } from './simulation';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Stored history is pruned against the clock, so the tests run at the present
+const NOW = Math.floor(Date.now() / HOUR_MS) * HOUR_MS + 20 * 60 * 1000;
+
+function hourlyFeed(hours: number, end: number): MetricValue[] {
+  const last = Math.floor(end / HOUR_MS) * HOUR_MS;
+  return Array.from({ length: hours }, (_, i) => ({
+    campaignId: 'fresh-1',
+    metricId: 'impressions',
+    timestamp: new Date(last - (hours - 1 - i) * HOUR_MS).toISOString(),
+    value: 1000,
+  }));
+}
+
+describe('getDataFreshness', () => {
+  const now = new Date(NOW);
+
+  it('does not flag a feed that is arriving on time', () => {
+    const freshness = getDataFreshness(hourlyFeed(48, NOW), 'impressions', now);
+
+    expect(freshness.cadenceMinutes).toBe(60);
+    expect(freshness.lateByMinutes).toBe(0);
+    expect(freshness.isStale).toBe(false);
+  });
+
+  it('flags a feed once it has missed three points', () => {
+    expect(getDataFreshness(hourlyFeed(48, NOW - 3 * HOUR_MS), 'impressions', now).isStale).toBe(false);
+    expect(getDataFreshness(hourlyFeed(48, NOW - 4 * HOUR_MS), 'impressions', now).isStale).toBe(true);
+  });
+
+  it('treats a feed with nothing stored yet as unknown, not stale', () => {
+    const freshness = getDataFreshness([], 'impressions', now);
+
+    expect(freshness.isStale).toBe(false);
+    expect(freshness.lastReceivedAt).toBeUndefined();
+  });
+});
+
+describe('evaluateAllMonitors', () => {
+  const campaign: Campaign = {
+    id: 'fresh-1',
+    name: 'Fresh',
+    vertical: 'E-commerce',
+    objective: 'Performance',
+    dailyBudget: 1000,
+    startDate: '2026-01-01',
+    endDate: '2027-12-31',
+    status: 'ACTIVE',
+    targeting: { geos: ['US'], devices: ['Desktop'] },
+    monitoringEnabled: true,
+    anomalyDetectionEnabled: true,
+    sensitivity: 'Balanced',
+    timezone: 'UTC',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const monitor: Monitor = {
+    id: 'fresh-monitor',
+    campaignId: campaign.id,
+    metricId: 'impressions',
+    metricName: 'Impressions',
+    metricCategory: 'Volume',
+    monitorType: 'SIMPLE',
+    enabled: true,
+    sensitivity: 'Balanced',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      get length() {
+        return items.size;
+      },
+      key: (index: number) => [...items.keys()][index] ?? null,
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+      clear: () => items.clear(),
+    });
+    saveMetricValues([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores the reading it evaluated, so a live feed stays fresh', async () => {
+    // History last stored five hours ago
+    saveMetricValues(generateHistoricalData(campaign, new Date(NOW - 5 * HOUR_MS)));
+    expect(checkCampaignFreshness(campaign.id, ['impressions'], new Date(NOW))[0].isStale).toBe(true);
+
+    const { states, newAlarms } = await evaluateAllMonitors(campaign, [monitor], new Date(NOW));
+
+    const stored = getMetricValuesByCampaignAndMetric(campaign.id, 'impressions');
+    const latest = stored[stored.length - 1];
+    expect(latest.timestamp).toBe(new Date(Math.floor(NOW / HOUR_MS) * HOUR_MS).toISOString());
+    expect(latest.value).toBeCloseTo(states[0].currentValue, 2);
+    expect(checkCampaignFreshness(campaign.id, ['impressions'], new Date(NOW))[0].isStale).toBe(false);
+    expect(newAlarms.filter((a) => a.alarmType === 'STALE_DATA')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Data freshness - notices when a campaign's metric feed stops arriving
+ */
+
+import type { AlarmInsights, AlarmSeverity, Campaign, DataFreshness, MetricValue } from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { getMetricValuesByCampaign } from '@/utils/storage';
+import { getAggregateSeries, median } from './baseline';
+
+const MINUTE_MS = 60 * 1000;
+
+// Assumed cadence until a feed has enough points to measure its own
+const DEFAULT_CADENCE_MINUTES = 60;
+
+// Consecutive data points a feed may miss before it counts as stale
+const MISSED_POINTS_BEFORE_STALE = 3;
+
+/**
+ * Freshness of one metric's campaign-level feed. The cadence is the typical
+ * gap between its stored points, so hourly and daily feeds are both judged fairly.
+ */
+export function getDataFreshness(
+  values: MetricValue[],
+  metricId: string,
+  now: Date = new Date()
+): DataFreshness {
+  const series = getAggregateSeries(
+    values.filter((v) => v.metricId === metricId),
+    new Date(now.getTime() + 1)
+  );
+  const times = series.map((v) => new Date(v.timestamp).getTime());
+  const gaps = times.slice(1).map((t, i) => t - times[i]).filter((gap) => gap > 0);
+  const cadenceMinutes = gaps.length > 0 ? median(gaps) / MINUTE_MS : DEFAULT_CADENCE_MINUTES;
+
+  // Nothing stored yet (a new campaign before its first reading) - freshness is unknown
+  const latest = times[times.length - 1];
+  if (latest === undefined) {
+    return { metricId, cadenceMinutes, lateByMinutes: 0, isStale: false };
+  }
+
+  const lateByMinutes = Math.max(0, (now.getTime() - latest) / MINUTE_MS - cadenceMinutes);
+  return {
+    metricId,
+    lastReceivedAt: new Date(latest).toISOString(),
+    cadenceMinutes,
+    lateByMinutes,
+    isStale: lateByMinutes >= cadenceMinutes * MISSED_POINTS_BEFORE_STALE,
+  };
+}
+
+/**
+ * Freshness of each metric's feed for a campaign (every metric when none are given)
+ */
+export function checkCampaignFreshness(
+  campaignId: string,
+  metricIds: string[] = DEFAULT_METRICS.map((m) => m.id),
+  now: Date = new Date()
+): DataFreshness[] {
+  const values = getMetricValuesByCampaign(campaignId);
+  return metricIds.map((metricId) => getDataFreshness(values, metricId, now));
+}
+
+/**
+ * Campaigns with monitoring on whose feeds have stopped, with their stale metrics
+ */
+export function findStaleFeeds(
+  campaigns: Campaign[],
+  now: Date = new Date()
+): Array<{ campaign: Campaign; stale: DataFreshness[] }> {
+  return campaigns
+    .filter((c) => c.monitoringEnabled && c.status === 'ACTIVE')
+    .map((campaign) => ({
+      campaign,
+      stale: checkCampaignFreshness(campaign.id, undefined, now).filter((f) => f.isStale),
+    }))
+    .filter(({ stale }) => stale.length > 0);
+}
+
+/**
+ * Severity of a stale feed - the longer monitors have been blind, the higher
+ */
+export function getStaleDataSeverity(freshness: DataFreshness): AlarmSeverity {
+  const lateHours = freshness.lateByMinutes / 60;
+  if (lateHours >= 24) return 'CRITICAL';
+  if (lateHours >= 6) return 'HIGH';
+  if (lateHours >= 3) return 'MEDIUM';
+  return 'LOW';
+}
+
+export function formatLateness(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)} minutes`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${Math.round(hours)} hours`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Insights for a stale-data alarm - the usual causes are upstream of the campaign
+ */
+export function buildStaleDataInsights(freshness: DataFreshness, metricName: string): AlarmInsights {
+  const summary = `No new ${metricName} data for ${formatLateness(
+    freshness.lateByMinutes + freshness.cadenceMinutes
+  )} (expected every ${formatLateness(freshness.cadenceMinutes)}). Monitors on this metric are holding their last state until data resumes.`;
+
+  return {
+    summary,
+    rootCauses: [
+      { cause: 'Reporting feed or API ingestion job has stopped or is delayed', confidence: 0.6 },
+      { cause: 'Tracking pixel or tag removed from the landing page', confidence: 0.25 },
+      { cause: 'Campaign stopped serving upstream (paused line item or exhausted budget)', confidence: 0.15 },
+    ],
+    recommendations: [
+      {
+        action: 'Check the reporting feed status',
+        reasoning: 'Most gaps come from ingestion delays rather than the campaign itself',
+        expectedImpact: 'Restores monitoring coverage',
+        confidence: 'High',
+      },
+      {
+        action: 'Verify the campaign is still serving in the DSP',
+        reasoning: 'A campaign that stopped delivering also stops reporting',
+        expectedImpact: 'Rules out a delivery outage',
+        confidence: 'Medium',
+      },
+    ],
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -3,8 +3,8 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { Alarm, AlarmInsights, Campaign, Monitor } from '@/types';
-import { formatMetricValue } from '@/utils/helpers';
+import type { Alarm, AlarmInsights, Campaign, ConditionResult, Incident, Monitor } from '@/types';
+import { formatMetricValue, formatSliceLabel, parseSliceKey } from '@/utils/helpers';
 
 // For demo purposes, we'll use a simulated response
 // In production, you would use the actual API key
@@ -45,6 +45,34 @@ export async function generateAlarmInsights(
   }
 }
 
+/**
+ * Generate one set of AI insights for an incident, led by its primary alarm.
+ * `alarms` are the incident's alarms, primary first.
+ */
+export async function generateIncidentInsights(
+  incident: Incident,
+  alarms: Alarm[],
+  campaign: Campaign
+): Promise<AlarmInsights> {
+  if (USE_MOCK || !genAI) {
+    return generateMockIncidentInsights(incident, alarms, campaign);
+  }
+
+  try {
+    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
+
+    const prompt = buildIncidentPrompt(incident, alarms, campaign);
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    const text = response.text();
+
+    return parseInsightsFromText(text);
+  } catch (error) {
+    console.error('Error generating Gemini incident insights:', error);
+    return generateMockIncidentInsights(incident, alarms, campaign);
+  }
+}
+
 /**
  * Build prompt for Gemini
  */
@@ -52,6 +80,12 @@ function buildPrompt(alarm: Alarm, campaign: Campaign, _monitor: Monitor): strin
   const metricUnit = getMetricUnit(alarm.metricName);
   const currentValueFormatted = formatMetricValue(alarm.currentValue, metricUnit);
   const expectedValueFormatted = formatMetricValue(alarm.expectedValue, metricUnit);
+  const sliceLine = alarm.affectedSlices?.length
+    ? `\n- Affected Slices: ${formatAffectedSlices(alarm.affectedSlices)}`
+    : '';
+  const conditionLine = alarm.conditionResults?.length
+    ? `\n- Rule Conditions Met: ${formatMetConditions(alarm.conditionResults)}`
+    : '';
 
   return `You are an expert advertising campaign analyst. Analyze this campaign anomaly and provide insights.
 
@@ -68,7 +102,7 @@ Anomaly Details:
 - Severity: ${alarm.severity}
 - Current Value: ${currentValueFormatted}
 - Expected Value: ${expectedValueFormatted}
-- Deviation: ${alarm.deviationPercent.toFixed(1)}%
+- Deviation: ${alarm.deviationPercent.toFixed(1)}%${sliceLine}${conditionLine}
 - Duration: Detected recently
 
 Please provide:
@@ -93,6 +127,60 @@ Format your response as JSON with this structure:
 }`;
 }
 
+/**
+ * Build prompt for an incident - the alarms that fired together, so the model
+ * explains them as one problem
+ */
+function buildIncidentPrompt(incident: Incident, alarms: Alarm[], campaign: Campaign): string {
+  const alarmLines = alarms
+    .map((alarm) => {
+      const unit = getMetricUnit(alarm.metricName);
+      const role = alarm.id === incident.primaryAlarmId ? ' [probable source]' : '';
+      const slices = alarm.affectedSlices?.length ? ` in ${formatAffectedSlices(alarm.affectedSlices)}` : '';
+      return `- ${alarm.metricName}${role}: ${alarm.severity}, ${formatMetricValue(
+        alarm.currentValue,
+        unit
+      )} vs expected ${formatMetricValue(alarm.expectedValue, unit)} (${
+        alarm.deviationPercent > 0 ? '+' : ''
+      }${alarm.deviationPercent.toFixed(1)}%)${slices}`;
+    })
+    .join('\n');
+
+  return `You are an expert advertising campaign analyst. These alarms fired together on one campaign and are probably one problem. Explain the incident as a whole.
+
+Campaign Details:
+- Name: ${campaign.name}
+- Vertical: ${campaign.vertical}
+- Objective: ${campaign.objective}
+- Daily Budget: $${campaign.dailyBudget.toLocaleString()}
+- Target Geos: ${campaign.targeting.geos.join(', ')}
+- Target Devices: ${campaign.targeting.devices.join(', ')}
+
+Alarms:
+${alarmLines}
+
+Please provide:
+1. A brief summary (1-2 sentences) of what's happening across these metrics
+2. 3-4 potential root causes with confidence levels (0-1)
+3. 3-4 actionable recommendations with reasoning and expected impact
+
+Format your response as JSON with this structure:
+{
+  "summary": "Brief description of the incident",
+  "rootCauses": [
+    {"cause": "Description", "confidence": 0.8}
+  ],
+  "recommendations": [
+    {
+      "action": "What to do",
+      "reasoning": "Why this helps",
+      "expectedImpact": "What will improve",
+      "confidence": "High|Medium|Low"
+    }
+  ]
+}`;
+}
+
 /**
  * Parse Gemini response into structured insights
  */
@@ -154,6 +242,21 @@ function getMetricUnit(metricName: string): string {
   return unitMap[metricName] || '#';
 }
 
+function formatAffectedSlices(sliceKeys: string[]): string {
+  return sliceKeys.map((key) => formatSliceLabel(parseSliceKey(key))).join(', ');
+}
+
+function formatMetConditions(results: ConditionResult[]): string {
+  return results
+    .filter((r) => r.met !== r.negated)
+    .map((r) =>
+      r.negated
+        ? `not ${r.description}`
+        : `${r.description} (${r.deviationPercent > 0 ? '+' : ''}${r.deviationPercent.toFixed(1)}%)`
+    )
+    .join(', ');
+}
+
 /**
  * Generate mock insights for demo purposes
  */
@@ -185,8 +288,13 @@ function generateMockInsights(
 
   const summaryKey = isDecrease ? 'decrease' : 'increase';
   const summarySet = summaries[summaryKey] as Record<string, string>;
-  const summary = summarySet[metricName] ||
+  const baseSummary = summarySet[metricName] ||
     `${metricName} has changed ${absDeviation.toFixed(1)}% from expected levels, requiring attention.`;
+  const summary = alarm.affectedSlices?.length
+    ? `${baseSummary} Concentrated in ${formatAffectedSlices(alarm.affectedSlices)}.`
+    : alarm.conditionResults?.length
+      ? `${baseSummary} Rule conditions met: ${formatMetConditions(alarm.conditionResults)}.`
+      : baseSummary;
 
   // Generate root causes based on metric type
   const rootCauses = generateRootCauses(metricName, isDecrease, campaign);
@@ -202,6 +310,38 @@ function generateMockInsights(
   };
 }
 
+/**
+ * Generate mock incident insights - the primary alarm's causes and
+ * recommendations, with a summary covering the alarms that followed it
+ */
+function generateMockIncidentInsights(
+  incident: Incident,
+  alarms: Alarm[],
+  campaign: Campaign
+): AlarmInsights {
+  const primary = alarms.find((a) => a.id === incident.primaryAlarmId) ?? alarms[0];
+  const isDecrease = primary.deviationPercent < 0;
+  const absDeviation = Math.abs(primary.deviationPercent);
+  const followers = alarms.filter((a) => a.id !== primary.id).map((a) => a.metricName);
+
+  const lead = `${primary.metricName} moved ${absDeviation.toFixed(1)}% ${
+    isDecrease ? 'below' : 'above'
+  } expected on ${campaign.name}`;
+  const spread = followers.length
+    ? `, and ${followers.join(', ')} alarmed with it - most likely the same problem showing up downstream.`
+    : '.';
+  const sliceNote = incident.sharedSlices?.length
+    ? ` Concentrated in ${formatAffectedSlices(incident.sharedSlices)}.`
+    : '';
+
+  return {
+    summary: `${lead}${spread}${sliceNote}`,
+    rootCauses: generateRootCauses(primary.metricName, isDecrease, campaign),
+    recommendations: generateRecommendations(primary.metricName, isDecrease, campaign, absDeviation),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
 function generateRootCauses(
   metricName: string,
   _isDecrease: boolean,
@@ -0,0 +1,181 @@
+/**
+ * Incident grouping - open alarms on a campaign that fired close together and
+ * are related through the metric graph or a shared slice are one incident, so
+ * a broken traffic source shows up once instead of as five separate alarms
+ */
+
+import type { Alarm, AlarmSeverity, Incident, IncidentLink, Monitor } from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { getSliceKey, parseSliceKey } from '@/utils/helpers';
+
+// Alarms firing further apart than this are separate incidents
+export const INCIDENT_WINDOW_MINUTES = 30;
+
+const SEVERITY_RANK: AlarmSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+/**
+ * Metrics a metric is computed from, directly or through other metrics
+ */
+function getUpstreamMetrics(metricId: string, seen: Set<string> = new Set()): Set<string> {
+  const metric = DEFAULT_METRICS.find((m) => m.id === metricId);
+  for (const dependency of metric?.dependsOn ?? []) {
+    if (seen.has(dependency)) continue;
+    seen.add(dependency);
+    getUpstreamMetrics(dependency, seen);
+  }
+  return seen;
+}
+
+/**
+ * Metrics an alarm is about - its monitor's metric plus, for composite rules,
+ * the metrics whose conditions held
+ */
+function getAlarmMetrics(alarm: Alarm, monitors: Monitor[]): string[] {
+  const monitor = monitors.find((m) => m.id === alarm.monitorId);
+  const conditionMetrics = (alarm.conditionResults ?? [])
+    .filter((r) => r.met && !r.negated)
+    .map((r) => r.metricId);
+  return [...new Set([...(monitor ? [monitor.metricId] : []), ...conditionMetrics])];
+}
+
+// True when `upstream` feeds into `metricId`
+function feeds(upstream: string, metricId: string): boolean {
+  return upstream !== metricId && getUpstreamMetrics(metricId).has(upstream);
+}
+
+// The same metric, one feeding the other, or both inputs to the same ratio
+function metricsRelated(a: string, b: string): boolean {
+  if (a === b || feeds(a, b) || feeds(b, a)) return true;
+  return DEFAULT_METRICS.some((m) => m.dependsOn?.includes(a) && m.dependsOn.includes(b));
+}
+
+/**
+ * Slice two alarms share, as the dimensions they agree on - 'device=Mobile'
+ * and 'device=Mobile|geo=US' share 'device=Mobile'
+ */
+function getSharedSlice(a: Alarm, b: Alarm): string | undefined {
+  for (const keyA of a.affectedSlices ?? []) {
+    const sliceA = parseSliceKey(keyA);
+    for (const keyB of b.affectedSlices ?? []) {
+      const sliceB = parseSliceKey(keyB);
+      const common = Object.keys(sliceA).filter((dim) => dim in sliceB);
+      if (common.length > 0 && common.every((dim) => sliceA[dim] === sliceB[dim])) {
+        return getSliceKey(Object.fromEntries(common.map((dim) => [dim, sliceA[dim]])));
+      }
+    }
+  }
+  return undefined;
+}
+
+// When the alarm last fired - its re-open time if it came back
+function firedAt(alarm: Alarm): number {
+  return new Date(alarm.reopenedAt ?? alarm.triggeredAt).getTime();
+}
+
+/**
+ * Alarms in the group whose metrics are fed by this one's
+ */
+function countDownstream(alarm: Alarm, group: Alarm[], metrics: Map<string, string[]>): number {
+  const own = metrics.get(alarm.id) ?? [];
+  return group.filter(
+    (other) =>
+      other.id !== alarm.id &&
+      (metrics.get(other.id) ?? []).some((metricId) => own.some((m) => feeds(m, metricId)))
+  ).length;
+}
+
+/**
+ * Probable source of a group: the alarm feeding the most others, then the
+ * earliest, then the most severe
+ */
+function pickPrimaryAlarm(group: Alarm[], metrics: Map<string, string[]>): Alarm {
+  return [...group].sort(
+    (a, b) =>
+      countDownstream(b, group, metrics) - countDownstream(a, group, metrics) ||
+      firedAt(a) - firedAt(b) ||
+      SEVERITY_RANK.indexOf(b.severity) - SEVERITY_RANK.indexOf(a.severity)
+  )[0];
+}
+
+/**
+ * Group alarms into incidents, most severe first. Alarms join an incident
+ * when they are on the same campaign, fired within INCIDENT_WINDOW_MINUTES of
+ * each other and either have related metrics or share a slice; the grouping
+ * is transitive. An alarm with nothing related is an incident of its own.
+ */
+export function groupAlarmsIntoIncidents(alarms: Alarm[], monitors: Monitor[]): Incident[] {
+  const metrics = new Map(alarms.map((a) => [a.id, getAlarmMetrics(a, monitors)]));
+  const windowMs = INCIDENT_WINDOW_MINUTES * 60 * 1000;
+
+  // Union-find over related pairs
+  const parent = new Map(alarms.map((a) => [a.id, a.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const links = new Map<string, Set<IncidentLink>>();
+  const sharedSlices = new Map<string, Set<string>>();
+  const pairs: Array<{ a: Alarm; b: Alarm; link: IncidentLink; slice?: string }> = [];
+
+  alarms.forEach((a, i) => {
+    alarms.slice(i + 1).forEach((b) => {
+      if (a.campaignId !== b.campaignId) return;
+      if (Math.abs(firedAt(a) - firedAt(b)) > windowMs) return;
+
+      const related = (metrics.get(a.id) ?? []).some((ma) =>
+        (metrics.get(b.id) ?? []).some((mb) => metricsRelated(ma, mb))
+      );
+      const slice = getSharedSlice(a, b);
+      if (related) pairs.push({ a, b, link: 'DEPENDENCY' });
+      if (slice) pairs.push({ a, b, link: 'SLICE', slice });
+      if (related || slice) parent.set(find(a.id), find(b.id));
+    });
+  });
+
+  pairs.forEach(({ a, link, slice }) => {
+    const root = find(a.id);
+    links.set(root, (links.get(root) ?? new Set()).add(link));
+    if (slice) sharedSlices.set(root, (sharedSlices.get(root) ?? new Set()).add(slice));
+  });
+
+  const groups = new Map<string, Alarm[]>();
+  alarms.forEach((alarm) => {
+    const root = find(alarm.id);
+    groups.set(root, [...(groups.get(root) ?? []), alarm]);
+  });
+
+  const incidents = [...groups.entries()].map(([root, group]): Incident => {
+    const primary = pickPrimaryAlarm(group, metrics);
+    const others = group.filter((a) => a.id !== primary.id).sort((a, b) => firedAt(a) - firedAt(b));
+    const impacts = group
+      .map((a) => a.estimatedImpactUSD)
+      .filter((impact): impact is number => impact !== undefined);
+    const slices = sharedSlices.get(root);
+
+    return {
+      id: primary.id,
+      campaignId: primary.campaignId,
+      campaignName: primary.campaignName,
+      primaryAlarmId: primary.id,
+      alarmIds: [primary.id, ...others.map((a) => a.id)],
+      severity: group.reduce<AlarmSeverity>(
+        (worst, a) =>
+          SEVERITY_RANK.indexOf(a.severity) > SEVERITY_RANK.indexOf(worst) ? a.severity : worst,
+        'LOW'
+      ),
+      startedAt: group.map((a) => a.triggeredAt).sort()[0],
+      links: [...(links.get(root) ?? [])],
+      sharedSlices: slices ? [...slices] : undefined,
+      estimatedImpactUSD: impacts.length > 0 ? impacts.reduce((sum, v) => sum + v, 0) : undefined,
+    };
+  });
+
+  return incidents.sort(
+    (a, b) =>
+      SEVERITY_RANK.indexOf(b.severity) - SEVERITY_RANK.indexOf(a.severity) ||
+      b.startedAt.localeCompare(a.startedAt)
+  );
+}
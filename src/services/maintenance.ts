@@ -0,0 +1,144 @@
+/**
+ * Maintenance windows - planned periods when monitors keep evaluating but
+ * raise no alarms, and which monitors each one covers
+ */
+
+import type { MaintenanceWindow, Monitor } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between occurrences of a recurring window
+const RECURRENCE_DAYS: Record<MaintenanceWindow['recurrence'], number> = {
+  NONE: 0,
+  DAILY: 1,
+  WEEKLY: 7,
+};
+
+export type MaintenanceStatus = 'ACTIVE' | 'SCHEDULED' | 'ENDED';
+
+// One run of a window; `end` is Infinity for open-ended windows
+export interface MaintenanceOccurrence {
+  start: number;
+  end: number;
+}
+
+// The k-th occurrence, on the local wall clock so a nightly slot stays put across DST
+function getOccurrence(window: MaintenanceWindow, k: number): MaintenanceOccurrence {
+  const start = new Date(window.startsAt);
+  const end = window.endsAt ? new Date(window.endsAt) : undefined;
+  const days = k * RECURRENCE_DAYS[window.recurrence];
+  start.setDate(start.getDate() + days);
+  end?.setDate(end.getDate() + days);
+  return { start: start.getTime(), end: end ? end.getTime() : Infinity };
+}
+
+/**
+ * The occurrence of a window in effect at an instant, if any
+ */
+export function getOccurrenceAt(
+  window: MaintenanceWindow,
+  time: number
+): MaintenanceOccurrence | undefined {
+  const periodMs = RECURRENCE_DAYS[window.recurrence] * DAY_MS;
+  const first = getOccurrence(window, 0);
+  if (time < first.start) return undefined;
+  if (periodMs === 0) return time < first.end ? first : undefined;
+
+  // Estimate by elapsed time, then allow for an hour gained or lost to DST
+  const k = Math.floor((time - first.start) / periodMs);
+  return [k, k - 1, k + 1]
+    .filter((i) => i >= 0)
+    .map((i) => getOccurrence(window, i))
+    .find((occurrence) => occurrence.start <= time && time < occurrence.end);
+}
+
+/**
+ * Occurrences of a window overlapping a range of instants, in time order
+ */
+export function getWindowOccurrences(
+  window: MaintenanceWindow,
+  from: number,
+  to: number
+): MaintenanceOccurrence[] {
+  const periodMs = RECURRENCE_DAYS[window.recurrence] * DAY_MS;
+  const first = getOccurrence(window, 0);
+  if (periodMs === 0) return first.start < to && first.end > from ? [first] : [];
+
+  const occurrences: MaintenanceOccurrence[] = [];
+  // Start one period early so a run already under way at `from` is included
+  let k = Math.max(0, Math.floor((from - first.end) / periodMs) - 1);
+  let occurrence = getOccurrence(window, k);
+  while (occurrence.start < to) {
+    if (occurrence.end > from) occurrences.push(occurrence);
+    occurrence = getOccurrence(window, ++k);
+  }
+  return occurrences;
+}
+
+/**
+ * Whether a window is in effect now, still to come, or over for good
+ */
+export function getMaintenanceStatus(window: MaintenanceWindow, time: number): MaintenanceStatus {
+  if (getOccurrenceAt(window, time)) return 'ACTIVE';
+  if (window.recurrence !== 'NONE' || time < new Date(window.startsAt).getTime()) return 'SCHEDULED';
+  return 'ENDED';
+}
+
+/**
+ * Whether a window's scope takes in a monitor
+ */
+export function coversMonitor(window: MaintenanceWindow, monitor: Monitor): boolean {
+  const { scope } = window;
+  switch (scope.type) {
+    case 'ALL':
+      return true;
+    case 'CAMPAIGN':
+      return scope.campaignId === monitor.campaignId;
+    case 'MONITOR':
+      return scope.monitorId === monitor.id;
+    case 'CATEGORY':
+      return (
+        scope.category === monitor.metricCategory &&
+        (!scope.campaignId || scope.campaignId === monitor.campaignId)
+      );
+  }
+}
+
+/**
+ * The window silencing a monitor at an instant, if any
+ */
+export function getActiveWindow(
+  windows: MaintenanceWindow[],
+  monitor: Monitor,
+  time: number
+): MaintenanceWindow | undefined {
+  return windows.find((w) => coversMonitor(w, monitor) && getOccurrenceAt(w, time) !== undefined);
+}
+
+/**
+ * Validate a window before it is saved
+ */
+export function validateMaintenanceWindow(window: MaintenanceWindow): string[] {
+  const errors: string[] = [];
+  if (!window.reason.trim()) errors.push('Reason is required');
+
+  const start = new Date(window.startsAt).getTime();
+  const end = window.endsAt ? new Date(window.endsAt).getTime() : undefined;
+  if (Number.isNaN(start)) errors.push('Start time is required');
+  if (end !== undefined && (Number.isNaN(end) || end <= start)) {
+    errors.push('End time must be after the start time');
+  }
+
+  if (window.recurrence !== 'NONE') {
+    const periodMs = RECURRENCE_DAYS[window.recurrence] * DAY_MS;
+    if (end === undefined) errors.push('A recurring window needs an end time');
+    else if (end - start >= periodMs) {
+      errors.push(`A ${window.recurrence.toLowerCase()} window must be shorter than its period`);
+    }
+  }
+
+  const { scope } = window;
+  if (scope.type === 'CAMPAIGN' && !scope.campaignId) errors.push('Choose a campaign');
+  if (scope.type === 'MONITOR' && !scope.monitorId) errors.push('Choose a monitor');
+  return errors;
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import type { Campaign, MetricValue } from '@/types';
+import { createDefaultMonitors, evaluateMonitor, type MonitorDataSource } from './anomaly';
+import { forecastPacing, getPacingBreach } from './pacing';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BUDGET = 1000;
+const TODAY = Date.UTC(2026, 2, 11); // A Wednesday, midnight UTC
+
+// Delivery curve: quiet nights, an evening peak
+const WEIGHTS = Array.from({ length: 24 }, (_, hour) => (hour < 6 ? 0.4 : hour >= 19 && hour <= 22 ? 1.3 : 1));
+const WEIGHT_TOTAL = WEIGHTS.reduce((sum, w) => sum + w, 0);
+
+// A normal day spends 95% of the budget, a little more or less day to day
+const TYPICAL_DAY = BUDGET * 0.95;
+const DAY_SWING = [1, 1.03, 0.98, 1.02, 0.97, 1.01, 0.99];
+
+function pacingCampaign(overrides: Partial<Campaign> = {}): Campaign {
+  return {
+    id: 'pacing-1',
+    name: 'Pacing',
+    vertical: 'E-commerce',
+    objective: 'Performance',
+    dailyBudget: BUDGET,
+    startDate: '2026-03-04',
+    endDate: '2026-03-17',
+    status: 'ACTIVE',
+    targeting: { geos: ['US'], devices: ['Desktop'] },
+    monitoringEnabled: true,
+    anomalyDetectionEnabled: true,
+    sensitivity: 'Balanced',
+    timezone: 'UTC',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function spendRow(time: number, value: number): MetricValue {
+  return { campaignId: 'pacing-1', metricId: 'spend', timestamp: new Date(time).toISOString(), value };
+}
+
+/**
+ * A week of full days on the curve, then today up to `hour` spending at
+ * `pace` times a normal day
+ */
+function spendHistory(hour: number, pace: number, pastPace = 1): MetricValue[] {
+  const past = DAY_SWING.flatMap((swing, i) => {
+    const dayStart = TODAY - (DAY_SWING.length - i) * DAY_MS;
+    return WEIGHTS.map((w, h) =>
+      spendRow(dayStart + h * HOUR_MS, ((TYPICAL_DAY * swing * pastPace) / WEIGHT_TOTAL) * w)
+    );
+  });
+  const today = WEIGHTS.slice(0, hour).map((w, h) =>
+    spendRow(TODAY + h * HOUR_MS, ((TYPICAL_DAY * pace) / WEIGHT_TOTAL) * w)
+  );
+  return [...past, ...today];
+}
+
+describe('forecastPacing', () => {
+  const noon = new Date(TODAY + 12 * HOUR_MS);
+
+  it('projects a day on pace to its usual total', () => {
+    const forecast = forecastPacing(spendHistory(12, 1), pacingCampaign(), noon);
+
+    expect(forecast.projectedDaySpend).toBeCloseTo(TYPICAL_DAY, -1);
+    expect(forecast.projectedDayLow).toBeLessThan(TYPICAL_DAY);
+    expect(forecast.projectedDayHigh).toBeGreaterThan(TYPICAL_DAY);
+    // Expected spend follows the learned curve, not a straight line
+    const curveShare = WEIGHTS.slice(0, 12).reduce((sum, w) => sum + w, 0) / WEIGHT_TOTAL;
+    expect(forecast.expectedSpendToDate / BUDGET).toBeCloseTo(curveShare, 2);
+    expect(forecast.status).toBe('ON_TRACK');
+  });
+
+  it('alarms on overspend before the budget runs out', () => {
+    const forecast = forecastPacing(spendHistory(12, 1.6), pacingCampaign(), noon);
+
+    expect(forecast.spentToday).toBeLessThan(BUDGET);
+    expect(forecast.projectedDayLow).toBeGreaterThan(BUDGET);
+    expect(forecast.status).toBe('OVER');
+    const exhaustsAt = new Date(forecast.exhaustsAt!).getTime();
+    expect(exhaustsAt).toBeGreaterThan(noon.getTime());
+    expect(exhaustsAt).toBeLessThan(TODAY + DAY_MS);
+  });
+
+  it('flags a day that will underdeliver', () => {
+    const forecast = forecastPacing(spendHistory(12, 0.4), pacingCampaign(), noon);
+
+    expect(forecast.projectedDayHigh).toBeLessThan(BUDGET * 0.75);
+    expect(forecast.exhaustsAt).toBeUndefined();
+    expect(forecast.status).toBe('UNDER');
+  });
+
+  it('leans on a typical day while little of the curve has been seen', () => {
+    const early = new Date(TODAY + 2 * HOUR_MS);
+    const forecast = forecastPacing(spendHistory(2, 3), pacingCampaign(), early);
+
+    // The run rate alone says three normal days; the projection stays near one
+    expect(forecast.projectedDaySpend).toBeGreaterThan(TYPICAL_DAY);
+    expect(forecast.projectedDaySpend).toBeLessThan(TYPICAL_DAY * 1.2);
+  });
+
+  it('projects the flight from spend so far and typical days ahead', () => {
+    const { flight } = forecastPacing(spendHistory(12, 1), pacingCampaign(), noon);
+
+    expect(flight).toBeDefined();
+    expect(flight!.budget).toBe(BUDGET * 14);
+    expect(flight!.daysRemaining).toBe(6);
+    expect(flight!.projectedSpend).toBeCloseTo(TYPICAL_DAY * 14, -2);
+    expect(flight!.projectedLow).toBeLessThan(flight!.projectedSpend);
+    expect(flight!.projectedHigh).toBeGreaterThan(flight!.projectedSpend);
+  });
+
+  it('flags a flight that will underdeliver', () => {
+    const forecast = forecastPacing(spendHistory(12, 0.5, 0.5), pacingCampaign(), noon);
+
+    expect(forecast.flight!.projectedHigh).toBeLessThan(forecast.flight!.budget * 0.75);
+    expect(getPacingBreach(forecast, 'Balanced').underFlight).toBeGreaterThanOrEqual(1);
+    expect(forecast.status).toBe('UNDER');
+  });
+
+  it('only counts overspend outside the flight', () => {
+    const campaign = pacingCampaign({ startDate: '2026-04-01', endDate: '2026-04-30' });
+    const forecast = forecastPacing(spendHistory(12, 0.4), campaign, noon);
+
+    expect(forecast.flight).toBeUndefined();
+    expect(getPacingBreach(forecast, 'Balanced')).toEqual({ overDay: 0, underDay: 0, underFlight: 0 });
+    expect(forecast.status).toBe('ON_TRACK');
+  });
+});
+
+describe('getPacingBreach', () => {
+  it('measures each risk against the sensitivity tolerance', () => {
+    const forecast = {
+      dailyBudget: BUDGET,
+      projectedDayLow: 1300,
+      projectedDayHigh: 1400,
+      flight: undefined,
+    };
+
+    // 30% over against ±25% (Balanced) and ±40% (Loose)
+    expect(getPacingBreach(forecast, 'Balanced').overDay).toBeCloseTo(1.2, 5);
+    expect(getPacingBreach(forecast, 'Loose').overDay).toBeCloseTo(0.75, 5);
+  });
+});
+
+describe('budget monitors', () => {
+  const noon = new Date(TODAY + 12 * HOUR_MS);
+
+  // A feed that has nothing but the spend series
+  function spendSource(history: MetricValue[]): MonitorDataSource {
+    return {
+      getHistory: (metricId) => (metricId === 'spend' ? history : []),
+      getCurrentValue: () => 0,
+      getCurrentSliceValues: () => [],
+    };
+  }
+
+  function budgetMonitor(campaign: Campaign, metricId: 'budget_utilization' | 'pacing') {
+    const monitor = createDefaultMonitors(campaign).find((m) => m.metricId === metricId);
+    expect(monitor).toBeDefined();
+    return monitor!;
+  }
+
+  it('are created for every campaign', () => {
+    const metricIds = createDefaultMonitors(pacingCampaign()).map((m) => m.metricId);
+
+    expect(metricIds).toContain('budget_utilization');
+    expect(metricIds).toContain('pacing');
+  });
+
+  it('alarm on budget utilization before the budget runs out', async () => {
+    const campaign = pacingCampaign();
+    const { state, alarm } = await evaluateMonitor(
+      budgetMonitor(campaign, 'budget_utilization'),
+      campaign,
+      noon,
+      spendSource(spendHistory(12, 1.6))
+    );
+
+    expect(state.state).toBe('IN_ALARM');
+    expect(state.pacing?.status).toBe('OVER');
+    expect(state.currentValue).toBeLessThan(100);
+    expect(state.currentValue).toBeGreaterThan(state.expectedValue);
+    expect(alarm).toBeDefined();
+  });
+
+  it('alarm on pacing when the flight will underdeliver', async () => {
+    const campaign = pacingCampaign();
+    const { state } = await evaluateMonitor(
+      budgetMonitor(campaign, 'pacing'),
+      campaign,
+      noon,
+      spendSource(spendHistory(12, 0.5, 0.5))
+    );
+
+    expect(state.state).toBe('IN_ALARM');
+    expect(state.pacing?.status).toBe('UNDER');
+    expect(state.expectedValue).toBe(100);
+    expect(state.anomalyScore).toBeLessThanOrEqual(-1);
+  });
+
+  it('stay quiet on a campaign without a daily budget', async () => {
+    const campaign = pacingCampaign({ dailyBudget: 0 });
+    const { state, alarm } = await evaluateMonitor(
+      budgetMonitor(campaign, 'pacing'),
+      campaign,
+      noon,
+      spendSource(spendHistory(12, 1.6))
+    );
+
+    expect(state.state).toBe('OK');
+    expect(state.breachLevel).toBe(0);
+    expect(Number.isFinite(state.anomalyScore)).toBe(true);
+    expect(state.pacing?.exhaustsAt).toBeUndefined();
+    expect(alarm).toBeUndefined();
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Budget pacing - projects end-of-day and end-of-flight spend from the
+ * intraday spend series, the daily budget and the hourly delivery curve
+ */
+
+import type { Campaign, MetricValue, PacingForecast, PacingStatus, Sensitivity } from '@/types';
+import { getSensitivityThreshold } from '@/utils/helpers';
+import { getMetricValuesByCampaignAndMetric } from '@/utils/storage';
+import {
+  addZonedDays,
+  differenceInZonedDays,
+  getCampaignTimezone,
+  getZonedTime,
+  isZonedWeekend,
+  parseZonedDate,
+  startOfZonedDay,
+} from '@/utils/timezone';
+import { getAggregateSeries, mean, standardDeviation } from './baseline';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Projection ranges cover 80% of outcomes
+const CONFIDENCE = 0.8;
+const CONFIDENCE_Z = 1.2816;
+
+// Relative end-of-day error assumed until there are enough full days to backtest
+const FALLBACK_ERROR = 0.2;
+const MIN_BACKTEST_DAYS = 3;
+
+interface SpendDay {
+  date: Date; // Midnight in the campaign's timezone
+  weekend: boolean;
+  hourly: number[]; // Spend per local hour of day, 0 where missing
+  hours: number; // Hours with data
+  total: number;
+}
+
+function groupByDay(series: MetricValue[], timeZone: string): Map<number, SpendDay> {
+  const days = new Map<number, SpendDay>();
+  series.forEach((v) => {
+    const timestamp = new Date(v.timestamp);
+    const date = startOfZonedDay(timestamp, timeZone);
+    const day = days.get(date.getTime()) || {
+      date,
+      weekend: isZonedWeekend(date, timeZone),
+      hourly: new Array(24).fill(0),
+      hours: 0,
+      total: 0,
+    };
+    day.hourly[getZonedTime(timestamp, timeZone).hour] += v.value;
+    day.hours++;
+    day.total += v.value;
+    days.set(date.getTime(), day);
+  });
+  return days;
+}
+
+// Spend from midnight to the given point in the day (hour + elapsed fraction of it)
+function spendThrough(hourly: number[], hour: number, fraction: number): number {
+  return hourly.slice(0, hour).reduce((sum, v) => sum + v, 0) + hourly[hour] * fraction;
+}
+
+/**
+ * Share of a day's spend normally delivered by this point in the day, from
+ * the campaign's full past days (a flat curve until there are any)
+ */
+function curveShare(days: SpendDay[], hour: number, fraction: number): number {
+  if (days.length === 0) return (hour + fraction) / 24;
+  return mean(days.map((day) => spendThrough(day.hourly, hour, fraction) / day.total));
+}
+
+// Typical full-day spend for weekdays or weekends, falling back to all days
+function typicalTotal(days: SpendDay[], weekend: boolean, fallback: number): number {
+  const sameType = days.filter((day) => day.weekend === weekend);
+  const pool = sameType.length > 0 ? sameType : days;
+  return pool.length > 0 ? mean(pool.map((day) => day.total)) : fallback;
+}
+
+/**
+ * End-of-day spend. Early in the day the run rate says little, so the
+ * projection leans on a typical day and shifts to today's pace as more of
+ * the curve is observed.
+ */
+function projectDay(spent: number, share: number, typical: number): number {
+  if (share >= 1) return spent;
+  const runRateTotal = share > 0 ? spent / share : typical;
+  return spent + (1 - share) * (share * runRateTotal + (1 - share) * typical);
+}
+
+/**
+ * Typical relative end-of-day error at this time of day, from replaying the
+ * projection on each past day with the other days as history (RMS, so bias counts)
+ */
+function backtestError(days: SpendDay[], hour: number, fraction: number, fallback: number): number {
+  if (days.length < MIN_BACKTEST_DAYS) return FALLBACK_ERROR;
+
+  const errors = days.map((day) => {
+    const others = days.filter((d) => d !== day);
+    const predicted = projectDay(
+      spendThrough(day.hourly, hour, fraction),
+      curveShare(others, hour, fraction),
+      typicalTotal(others, day.weekend, fallback)
+    );
+    return predicted > 0 ? day.total / predicted - 1 : 0;
+  });
+
+  return Math.sqrt(mean(errors.map((e) => e * e)));
+}
+
+/**
+ * When the daily budget runs out if the rest of today's projected spend
+ * follows the delivery curve
+ */
+function findExhaustion(
+  at: Date,
+  hourNow: number,
+  today: Date,
+  days: SpendDay[],
+  shareNow: number,
+  spent: number,
+  projected: number,
+  budget: number
+): string | undefined {
+  if (budget <= 0 || projected <= budget) return undefined;
+  if (spent >= budget) return at.toISOString();
+
+  const spendAtShare = (share: number) =>
+    spent + ((projected - spent) * (share - shareNow)) / (1 - shareNow);
+
+  for (let hour = hourNow; hour < 24; hour++) {
+    const hourEnd = today.getTime() + (hour + 1) * HOUR_MS;
+    const spendEnd = spendAtShare(curveShare(days, hour, 1));
+    if (spendEnd < budget) continue;
+
+    const hourStart = Math.max(at.getTime(), today.getTime() + hour * HOUR_MS);
+    const spendStart = spendAtShare(Math.max(shareNow, curveShare(days, hour, 0)));
+    const portion = spendEnd > spendStart ? (budget - spendStart) / (spendEnd - spendStart) : 0;
+    return new Date(hourStart + portion * (hourEnd - hourStart)).toISOString();
+  }
+
+  return undefined;
+}
+
+/**
+ * Flight-level projection: spend so far in the flight plus today and every
+ * remaining day, each capped at the daily budget. Days before the stored
+ * history are assumed to have spent a typical day.
+ */
+function projectFlight(
+  campaign: Campaign,
+  today: Date,
+  storedDays: Map<number, SpendDay>,
+  fullDays: SpendDay[],
+  spentToday: number,
+  day: { projected: number; low: number; high: number }
+): PacingForecast['flight'] {
+  const timeZone = getCampaignTimezone(campaign);
+  const start = parseZonedDate(campaign.startDate, timeZone);
+  const end = parseZonedDate(campaign.endDate, timeZone);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || today < start || today > end) return undefined;
+
+  const budget = campaign.dailyBudget;
+  const cappedTypical = (date: Date) =>
+    Math.min(budget, typicalTotal(fullDays, isZonedWeekend(date, timeZone), budget));
+
+  let spentBefore = 0;
+  for (let date = start; date < today; date = addZonedDays(date, 1, timeZone)) {
+    spentBefore += storedDays.get(date.getTime())?.total ?? cappedTypical(date);
+  }
+
+  // Today's range plus each remaining day's spread around its typical spend
+  const todaySigma = (day.high - day.low) / (2 * CONFIDENCE_Z);
+  let projectedRemaining = 0;
+  let variance = todaySigma ** 2;
+  const daysRemaining = differenceInZonedDays(end, today);
+  for (let i = 1; i <= daysRemaining; i++) {
+    const date = addZonedDays(today, i, timeZone);
+    const typical = cappedTypical(date);
+    const sameType = fullDays.filter((d) => d.weekend === isZonedWeekend(date, timeZone));
+    const sigma =
+      sameType.length >= 2
+        ? standardDeviation(sameType.map((d) => Math.min(budget, d.total)))
+        : typical * FALLBACK_ERROR;
+    projectedRemaining += typical;
+    variance += sigma ** 2;
+  }
+
+  const spendToDate = spentBefore + spentToday;
+  const maxSpend = spentBefore + budget * (daysRemaining + 1);
+  const projectedSpend = spentBefore + Math.min(day.projected, budget) + projectedRemaining;
+  const spread = CONFIDENCE_Z * Math.sqrt(variance);
+
+  return {
+    budget: budget * (differenceInZonedDays(end, start) + 1),
+    spendToDate,
+    projectedSpend,
+    projectedLow: Math.max(spendToDate, projectedSpend - spread),
+    projectedHigh: Math.min(maxSpend, projectedSpend + spread),
+    daysRemaining,
+  };
+}
+
+/**
+ * How far each pacing risk is past the sensitivity tolerance (1 = at it):
+ * running out of today's budget, under-spending today, under-delivering the
+ * flight. Outside the flight nothing is due, so only overspend counts.
+ */
+export function getPacingBreach(
+  forecast: Pick<PacingForecast, 'dailyBudget' | 'projectedDayLow' | 'projectedDayHigh' | 'flight'>,
+  sensitivity: Sensitivity
+): { overDay: number; underDay: number; underFlight: number } {
+  const tolerance = getSensitivityThreshold(sensitivity);
+  const { dailyBudget, flight } = forecast;
+  // Without a budget there is nothing to pace against
+  if (dailyBudget <= 0) return { overDay: 0, underDay: 0, underFlight: 0 };
+  return {
+    overDay: Math.max(0, forecast.projectedDayLow / dailyBudget - 1) / tolerance,
+    underDay: flight ? Math.max(0, 1 - forecast.projectedDayHigh / dailyBudget) / tolerance : 0,
+    underFlight: flight ? Math.max(0, 1 - flight.projectedHigh / flight.budget) / tolerance : 0,
+  };
+}
+
+/**
+ * Project today's and the flight's spend from the stored hourly spend series.
+ * Days and hours are the campaign's (its reporting timezone).
+ */
+export function forecastPacing(
+  spendHistory: MetricValue[],
+  campaign: Campaign,
+  at: Date = new Date(),
+  sensitivity: Sensitivity = campaign.sensitivity
+): PacingForecast {
+  const budget = campaign.dailyBudget;
+  const timeZone = getCampaignTimezone(campaign);
+  const today = startOfZonedDay(at, timeZone);
+  const { hour, minute } = getZonedTime(at, timeZone);
+  const fraction = (minute * 60 * 1000 + (at.getTime() % (60 * 1000))) / HOUR_MS;
+
+  const storedDays = groupByDay(getAggregateSeries(spendHistory, at), timeZone);
+  const fullDays = [...storedDays.values()].filter(
+    (day) => day.date < today && day.hours === 24 && day.total > 0
+  );
+
+  // The current hour's row covers the whole hour, so count only the elapsed part
+  const todayHourly = storedDays.get(today.getTime())?.hourly ?? new Array(24).fill(0);
+  const spentToday = spendThrough(todayHourly, hour, fraction);
+
+  const share = curveShare(fullDays, hour, fraction);
+  const typical = typicalTotal(fullDays, isZonedWeekend(today, timeZone), budget);
+  const projected = projectDay(spentToday, share, typical);
+  const error = backtestError(fullDays, hour, fraction, budget);
+  const projectedDayLow = Math.max(spentToday, projected * (1 - CONFIDENCE_Z * error));
+  const projectedDayHigh = projected * (1 + CONFIDENCE_Z * error);
+
+  const flight = projectFlight(campaign, today, storedDays, fullDays, spentToday, {
+    projected,
+    low: projectedDayLow,
+    high: projectedDayHigh,
+  });
+
+  const breach = getPacingBreach(
+    { dailyBudget: budget, projectedDayLow, projectedDayHigh, flight },
+    sensitivity
+  );
+  const status: PacingStatus =
+    breach.overDay >= 1
+      ? 'OVER'
+      : breach.underDay >= 1 || breach.underFlight >= 1
+        ? 'UNDER'
+        : 'ON_TRACK';
+
+  return {
+    dailyBudget: budget,
+    spentToday,
+    expectedSpendToDate: budget * share,
+    projectedDaySpend: projected,
+    projectedDayLow,
+    projectedDayHigh,
+    exhaustsAt: findExhaustion(at, hour, today, fullDays, share, spentToday, projected, budget),
+    flight,
+    confidence: CONFIDENCE,
+    status,
+    generatedAt: at.toISOString(),
+  };
+}
+
+/**
+ * Pacing forecast for a campaign from its stored spend
+ */
+export function buildPacingForecast(
+  campaign: Campaign,
+  at: Date = new Date(),
+  sensitivity: Sensitivity = campaign.sensitivity
+): PacingForecast {
+  return forecastPacing(
+    getMetricValuesByCampaignAndMetric(campaign.id, 'spend'),
+    campaign,
+    at,
+    sensitivity
+  );
+}
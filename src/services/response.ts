@@ -0,0 +1,54 @@
+/**
+ * Alarm response times - how long alarms waited to be acknowledged and to be
+ * resolved, for the weekly ops review
+ */
+
+import type { Alarm, ResponseSummary } from '@/types';
+import { mean, median } from './baseline';
+
+const MINUTE_MS = 60 * 1000;
+
+function minutesBetween(from: string, to: string): number {
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / MINUTE_MS);
+}
+
+/**
+ * Minutes from an alarm firing to its acknowledgement; unset until acknowledged
+ */
+export function getTimeToAcknowledge(alarm: Alarm): number | undefined {
+  return alarm.acknowledgedAt ? minutesBetween(alarm.triggeredAt, alarm.acknowledgedAt) : undefined;
+}
+
+/**
+ * Minutes from an alarm firing to its resolution; unset while open, snoozed
+ * or dismissed
+ */
+export function getTimeToResolve(alarm: Alarm): number | undefined {
+  return alarm.state === 'RESOLVED' && alarm.resolvedAt
+    ? minutesBetween(alarm.triggeredAt, alarm.resolvedAt)
+    : undefined;
+}
+
+/**
+ * Response times of the alarms raised in a period
+ */
+export function summarizeResponseTimes(alarms: Alarm[], from: Date, to: Date): ResponseSummary {
+  const raised = alarms.filter((a) => {
+    const triggeredAt = new Date(a.triggeredAt).getTime();
+    return triggeredAt >= from.getTime() && triggeredAt < to.getTime();
+  });
+  const ttas = raised.map(getTimeToAcknowledge).filter((m): m is number => m !== undefined);
+  const ttrs = raised.map(getTimeToResolve).filter((m): m is number => m !== undefined);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    alarms: raised.length,
+    acknowledged: ttas.length,
+    resolved: ttrs.length,
+    medianTimeToAcknowledge: ttas.length > 0 ? median(ttas) : undefined,
+    meanTimeToAcknowledge: ttas.length > 0 ? mean(ttas) : undefined,
+    medianTimeToResolve: ttrs.length > 0 ? median(ttrs) : undefined,
+    meanTimeToResolve: ttrs.length > 0 ? mean(ttrs) : undefined,
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Simulator scenarios - scripted anomalies on a timeline (JSON), e.g. "at
+ * T+30h drop UK mobile CTR by 50% for 6 hours"
+ */
+
+import { isValid, parseISO } from 'date-fns';
+import type {
+  AnomalyKind,
+  DimensionSlice,
+  Scenario,
+  ScenarioEffect,
+  ScenarioEvent,
+} from '@/types';
+import { DEFAULT_METRICS } from '@/types';
+import { getSliceKey } from '@/utils/helpers';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const DURATION_UNITS: Record<string, number> = { m: MINUTE_MS, h: HOUR_MS, d: DAY_MS };
+
+const EFFECT_TYPES: ScenarioEffect['type'][] = ['CHANGE', 'RAMP', 'SET', 'GAP'];
+
+// A scenario event placed on the clock
+export interface TimedScenarioEvent {
+  index: number; // Position in the scenario, so each event gets its own label
+  event: ScenarioEvent;
+  start: number; // ms
+  end: number; // ms, Infinity when it runs to the end
+}
+
+/**
+ * Scenarios for demos and analyst training
+ */
+export const SCENARIO_EXAMPLES: Scenario[] = [
+  {
+    name: 'UK Mobile CTR Collapse',
+    description: 'A broken mobile creative in the UK halves CTR for six hours',
+    events: [
+      {
+        name: 'UK mobile creative broken',
+        metricId: 'ctr',
+        dimensions: { geo: 'UK', device: 'Mobile' },
+        at: 'T+30h',
+        duration: '6h',
+        effect: { type: 'CHANGE', percent: -50 },
+      },
+    ],
+  },
+  {
+    name: 'Bot Traffic Ramp',
+    description: 'Invalid traffic climbs from 2% to 12% over a day and stays there',
+    events: [
+      {
+        name: 'Bot traffic',
+        metricId: 'invalid_traffic',
+        at: 'T+6d',
+        effect: { type: 'RAMP', from: 2, to: 12, over: '1d' },
+      },
+    ],
+  },
+  {
+    name: 'Spend Stops',
+    description: 'The campaign stops spending at 14:00 today',
+    events: [
+      { name: 'Spend stops', metricId: 'spend', at: '14:00', effect: { type: 'SET', value: 0 } },
+    ],
+  },
+];
+
+/**
+ * Duration like '90m', '6h' or '1.5d' in ms
+ */
+export function parseDuration(spec: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhd])$/.exec(spec.trim());
+  return match ? Number(match[1]) * DURATION_UNITS[match[2]] : undefined;
+}
+
+/**
+ * Scenario time in ms: 'T+30h' after the origin (the start of the simulated
+ * history), 'HH:mm' after `today` (midnight of the history's last day in the
+ * campaign's reporting timezone), or an ISO timestamp
+ */
+export function resolveScenarioTime(spec: string, origin: Date, today: Date): number | undefined {
+  const offset = /^T\+(.+)$/.exec(spec.trim());
+  if (offset) {
+    const duration = parseDuration(offset[1]);
+    return duration === undefined ? undefined : origin.getTime() + duration;
+  }
+
+  const clock = /^(\d{1,2}):(\d{2})$/.exec(spec.trim());
+  if (clock) {
+    const hours = Number(clock[1]);
+    const minutes = Number(clock[2]);
+    if (hours > 23 || minutes > 59) return undefined;
+    return today.getTime() + hours * HOUR_MS + minutes * MINUTE_MS;
+  }
+
+  const date = parseISO(spec);
+  return isValid(date) ? date.getTime() : undefined;
+}
+
+function validateEffect(effect: unknown, prefix: string): string[] {
+  if (!effect || typeof effect !== 'object') return [`${prefix}: effect is required`];
+  const { type } = effect as { type?: string };
+  if (!EFFECT_TYPES.includes(type as ScenarioEffect['type'])) {
+    return [`${prefix}: effect type must be one of ${EFFECT_TYPES.join(', ')}`];
+  }
+
+  const e = effect as Record<string, unknown>;
+  const errors: string[] = [];
+  const requireNumber = (key: string) => {
+    if (typeof e[key] !== 'number' || !Number.isFinite(e[key])) {
+      errors.push(`${prefix}: ${type} effect needs a numeric "${key}"`);
+    }
+  };
+  if (type === 'CHANGE') requireNumber('percent');
+  if (type === 'SET') requireNumber('value');
+  if (type === 'RAMP') {
+    requireNumber('from');
+    requireNumber('to');
+    if (e.over !== undefined && (typeof e.over !== 'string' || parseDuration(e.over) === undefined)) {
+      errors.push(`${prefix}: ramp "over" must be a duration like '6h' or '1d'`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Problems with a scenario, one message per problem (empty when valid)
+ */
+export function validateScenario(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return ['Scenario must be a JSON object'];
+  const scenario = value as Partial<Scenario>;
+  const errors: string[] = [];
+
+  if (typeof scenario.name !== 'string' || !scenario.name.trim()) {
+    errors.push('Scenario needs a name');
+  }
+  if (!Array.isArray(scenario.events) || scenario.events.length === 0) {
+    return [...errors, 'Scenario needs at least one event'];
+  }
+
+  // Any fixed dates resolve the same way, so validate times against a fixed origin
+  const origin = new Date(0);
+  scenario.events.forEach((event: Partial<ScenarioEvent>, i) => {
+    const prefix = `Event ${i + 1}${event?.name ? ` (${event.name})` : ''}`;
+    if (!event || typeof event !== 'object') {
+      errors.push(`${prefix}: must be an object`);
+      return;
+    }
+    if (!DEFAULT_METRICS.some((m) => m.id === event.metricId)) {
+      errors.push(`${prefix}: unknown metric "${event.metricId}"`);
+    }
+    if (typeof event.at !== 'string' || resolveScenarioTime(event.at, origin, origin) === undefined) {
+      errors.push(`${prefix}: "at" must be like 'T+30h', '14:00' or an ISO timestamp`);
+    }
+    if (
+      event.duration !== undefined &&
+      (typeof event.duration !== 'string' || parseDuration(event.duration) === undefined)
+    ) {
+      errors.push(`${prefix}: "duration" must be like '90m', '6h' or '1d'`);
+    }
+    if (
+      event.dimensions !== undefined &&
+      (typeof event.dimensions !== 'object' ||
+        Object.values(event.dimensions).some((v) => typeof v !== 'string'))
+    ) {
+      errors.push(`${prefix}: "dimensions" must map dimensions to values, e.g. { "geo": "UK" }`);
+    }
+    errors.push(...validateEffect(event.effect, prefix));
+  });
+
+  return errors;
+}
+
+/**
+ * Parse and validate scenario JSON
+ */
+export function parseScenario(text: string): { scenario?: Scenario; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const errors = validateScenario(value);
+  return errors.length > 0 ? { errors } : { scenario: value as Scenario, errors };
+}
+
+/**
+ * Place a scenario's events on the clock (events with unreadable times are skipped)
+ */
+export function scheduleScenario(scenario: Scenario, origin: Date, today: Date): TimedScenarioEvent[] {
+  return scenario.events.flatMap((event, index) => {
+    const start = resolveScenarioTime(event.at, origin, today);
+    if (start === undefined) return [];
+    const duration = event.duration ? parseDuration(event.duration) : undefined;
+    return [{ index, event, start, end: duration !== undefined ? start + duration : Infinity }];
+  });
+}
+
+/**
+ * Events acting on a metric reading at `time`. An event acts on the reading
+ * with exactly its dimensions - the campaign total when it has none, else
+ * e.g. the UK slice for { geo: 'UK' } - and the slices under it follow.
+ */
+export function getActiveScenarioEvents(
+  events: TimedScenarioEvent[],
+  metricId: string,
+  dimensions: DimensionSlice | undefined,
+  time: number
+): TimedScenarioEvent[] {
+  const sliceKey = getSliceKey(dimensions ?? {});
+  return events.filter(
+    ({ event, start, end }) =>
+      event.metricId === metricId &&
+      time >= start &&
+      time < end &&
+      getSliceKey(event.dimensions ?? {}) === sliceKey
+  );
+}
+
+/**
+ * Reading after an event's effect; undefined when the event stops the feed
+ */
+export function applyScenarioEffect(
+  value: number,
+  { event, start, end }: TimedScenarioEvent,
+  time: number
+): number | undefined {
+  const { effect } = event;
+  switch (effect.type) {
+    case 'CHANGE':
+      return value * (1 + effect.percent / 100);
+    case 'SET':
+      return effect.value;
+    case 'GAP':
+      return undefined;
+    case 'RAMP': {
+      const over = (effect.over && parseDuration(effect.over)) || (Number.isFinite(end) ? end - start : DAY_MS);
+      const progress = Math.min(1, Math.max(0, (time - start) / over));
+      return effect.from + (effect.to - effect.from) * progress;
+    }
+  }
+}
+
+/**
+ * Label kind for an event, given the metric's normal value where it starts
+ */
+export function getScenarioEffectKind(effect: ScenarioEffect, normal: number): AnomalyKind {
+  switch (effect.type) {
+    case 'CHANGE':
+      return effect.percent < 0 ? 'DROP' : 'SPIKE';
+    case 'RAMP':
+      return effect.to < effect.from ? 'GRADUAL_DECLINE' : 'GRADUAL_RISE';
+    case 'SET':
+      return effect.value === 0 ? 'OUTAGE' : effect.value < normal ? 'DROP' : 'SPIKE';
+    case 'GAP':
+      return 'OUTAGE';
+  }
+}
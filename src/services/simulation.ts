@@ -4,13 +4,32 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type {
+  AnomalyKind,
+  AnomalyLabel,
   Campaign,
   CampaignVertical,
   CampaignObjective,
   MetricValue,
   DeviceType,
+  DimensionSlice,
+  LabeledDataset,
 } from '@/types';
 import { DEFAULT_METRICS } from '@/types';
+import { getSliceKey } from '@/utils/helpers';
+import {
+  getCampaignTimezone,
+  getSliceTimezone,
+  getZonedTime,
+  startOfZonedDay,
+} from '@/utils/timezone';
+import {
+  applyScenarioEffect,
+  getActiveScenarioEvents,
+  getScenarioEffectKind,
+  scheduleScenario,
+  type TimedScenarioEvent,
+} from './scenario';
+import { getTrafficMultiplier } from './calendar';
 
 // Baseline values by vertical and objective
 const BASELINE_VALUES: Record<
@@ -29,7 +48,6 @@ const BASELINE_VALUES: Record<
       cpc: 0.5,
       viewability: 75,
       invalid_traffic: 2,
-      spend: 1250,
     },
     'Brand Awareness': {
       impressions: 500000,
@@ -251,7 +269,7 @@ const BASELINE_VALUES: Record<
   },
 };
 
-// Time patterns
+// Time patterns, on the local clock of the market the traffic comes from
 function getHourMultiplier(hour: number, isB2B: boolean): number {
   if (isB2B) {
     // B2B peaks 9am-5pm
@@ -278,163 +296,649 @@ function getDayMultiplier(dayOfWeek: number, isB2B: boolean): number {
   }
 }
 
-// Generate metric value with noise
+// Share of the daily budget a campaign delivers on a normal day
+const TYPICAL_DELIVERY = 0.95;
+
+function isB2BCampaign(campaign: Campaign): boolean {
+  return campaign.vertical === 'B2B' || campaign.vertical === 'Healthcare';
+}
+
+// Traffic level of a slice at an instant relative to its average hour, read
+// on its geo's local clock - so a JP slice sleeps while a BR one peaks - and
+// moved by the calendar events on its local date
+function getTrafficCurve(campaign: Campaign, slice: DimensionSlice, time: number): number {
+  const { hour, dayOfWeek } = getZonedTime(time, getSliceTimezone(campaign, slice));
+  const isB2B = isB2BCampaign(campaign);
+  return (
+    getHourMultiplier(hour, isB2B) *
+    getDayMultiplier(dayOfWeek, isB2B) *
+    getTrafficMultiplier(campaign, slice, time)
+  );
+}
+
+// Share of a day's traffic delivered before the given hour
+function getCurveShareBefore(hour: number, isB2B: boolean): number {
+  let before = 0;
+  let total = 0;
+  for (let h = 0; h < 24; h++) {
+    total += getHourMultiplier(h, isB2B);
+    if (h < hour) before += getHourMultiplier(h, isB2B);
+  }
+  return before / total;
+}
+
+// Spend per unit of the hourly traffic curve, so a normal day delivers close
+// to the daily budget whatever the day of week
+function getHourlySpendBase(campaign: Campaign): number {
+  let curveTotal = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    curveTotal += getHourMultiplier(hour, isB2BCampaign(campaign));
+  }
+  return (campaign.dailyBudget * TYPICAL_DELIVERY) / curveTotal;
+}
+
+// Budget utilization (% of the daily budget spent) and pacing (spend against
+// where the hourly curve says it should be, in %) at the end of an hour
+function getBudgetMetricValue(
+  metricId: string,
+  campaign: Campaign,
+  spentToday: number,
+  hour: number
+): number {
+  if (campaign.dailyBudget <= 0) return 0;
+  if (metricId === 'budget_utilization') return (spentToday / campaign.dailyBudget) * 100;
+
+  const due = campaign.dailyBudget * getCurveShareBefore(hour + 1, isB2BCampaign(campaign));
+  return due > 0 ? (spentToday / due) * 100 : 100;
+}
+
+// Seed for campaigns without their own
+let globalSeed = 0;
+
+/**
+ * Set the seed campaigns without their own derive theirs from. The same seed
+ * and clock reproduce the same history, live readings and alarms.
+ */
+export function setSimulationSeed(seed: number): void {
+  globalSeed = seed;
+}
+
+/**
+ * Seed a campaign's simulated data is drawn from: its own, else the global
+ * seed mixed with its id so campaigns still differ
+ */
+export function getCampaignSeed(campaign: Campaign): number {
+  return campaign.seed ?? hashString(`${globalSeed}|${campaign.id}`);
+}
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Uniform draw in [0, 1) for one quantity, e.g. a metric's noise at an hour.
+ * It is hashed from the campaign seed and the quantity's key (then mixed with
+ * the mulberry32 step), so no draw depends on what was generated before it:
+ * history and live readings for the same moment agree in any order.
+ */
+function seededRandom(campaign: Campaign, ...key: Array<string | number>): number {
+  let t = (hashString([getCampaignSeed(campaign), ...key].join('|')) + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Value with up to ±noiseLevel relative noise (`random` is a uniform draw in [0, 1))
+function applyNoise(value: number, random: number, noiseLevel: number): number {
+  return value * (1 + (random - 0.5) * 2 * noiseLevel);
+}
+
+// Generate metric value with noise (`random` is a uniform draw in [0, 1)).
+// Spend follows the daily budget rather than the day's traffic, so it skips
+// the day-of-week pattern.
 function generateValue(
   baseValue: number,
   hour: number,
   dayOfWeek: number,
   isB2B: boolean,
-  noiseLevel: number = 0.15
+  random: number,
+  noiseLevel: number = 0.15,
+  followsDayPattern: boolean = true
 ): number {
   const hourMult = getHourMultiplier(hour, isB2B);
-  const dayMult = getDayMultiplier(dayOfWeek, isB2B);
-  const noise = 1 + (Math.random() - 0.5) * 2 * noiseLevel; // ±15% noise
+  const dayMult = followsDayPattern ? getDayMultiplier(dayOfWeek, isB2B) : 1;
 
-  return baseValue * hourMult * dayMult * noise;
+  return applyNoise(baseValue * hourMult * dayMult, random, noiseLevel);
 }
 
 // Generate anomaly (for demo purposes)
-function shouldGenerateAnomaly(metricId: string, timestamp: Date): boolean {
-  // 20% of campaigns will have anomalies
-  // Seed based on metricId to make it consistent
-  const seed = metricId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const random = (seed % 100) / 100;
-
-  if (random > 0.2) return false; // This campaign won't have anomalies
+function shouldGenerateAnomaly(
+  campaign: Campaign,
+  anomalyKey: string,
+  timestamp: Date,
+  now: Date
+): boolean {
+  // 20% of metrics (and slices) will have anomalies, chosen by the seed
+  if (seededRandom(campaign, 'anomaly', anomalyKey) > 0.2) return false;
 
   // Check if this is the right time window (last 12 hours for demo)
-  const hoursAgo = (Date.now() - timestamp.getTime()) / (1000 * 60 * 60);
+  const hoursAgo = (now.getTime() - timestamp.getTime()) / (1000 * 60 * 60);
   return hoursAgo <= 12;
 }
 
-function applyAnomaly(value: number, metricId: string): number {
+const ANOMALY_KINDS: AnomalyKind[] = ['DROP', 'SPIKE', 'GRADUAL_DECLINE'];
+
+function getAnomalyKind(campaign: Campaign, anomalyKey: string): AnomalyKind {
   // Different anomaly types
-  const seed = metricId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const anomalyType = seed % 3;
+  const index = Math.floor(seededRandom(campaign, 'anomaly-kind', anomalyKey) * ANOMALY_KINDS.length);
+  return ANOMALY_KINDS[index];
+}
 
-  switch (anomalyType) {
-    case 0:
+function applyAnomaly(value: number, kind: AnomalyKind, random: number): number {
+  switch (kind) {
+    case 'DROP':
       // Sudden drop (40-60%)
-      return value * (0.4 + Math.random() * 0.2);
-    case 1:
+      return value * (0.4 + random * 0.2);
+    case 'SPIKE':
       // Spike (150-200%)
-      return value * (1.5 + Math.random() * 0.5);
-    case 2:
+      return value * (1.5 + random * 0.5);
+    case 'GRADUAL_DECLINE':
       // Gradual decline (apply in caller)
       return value * 0.95;
-    default:
-      return value;
+    case 'GRADUAL_RISE':
+      return value * 1.05;
+    case 'OUTAGE':
+      return 0;
   }
 }
 
-// Generate historical data (last 7 days, hourly)
-export function generateHistoricalData(campaign: Campaign): MetricValue[] {
-  const values: MetricValue[] = [];
-  const now = new Date();
-  const isB2B = campaign.vertical === 'B2B' || campaign.vertical === 'Healthcare';
+// Labels of the anomaly windows injected so far, by anomaly key
+type AnomalyLabels = Map<string, AnomalyLabel[]>;
 
-  // Get baseline for this campaign
-  const baseline =
-    BASELINE_VALUES[campaign.vertical]?.[campaign.objective] ||
-    BASELINE_VALUES['E-commerce']['Performance'];
+/**
+ * Record that an anomaly was injected at this hour: extends the key's open
+ * window when it covered the previous hour, else starts a new one
+ */
+function recordAnomaly(
+  labels: AnomalyLabels,
+  anomalyKey: string,
+  label: Pick<AnomalyLabel, 'campaignId' | 'metricId' | 'dimensions' | 'kind'>,
+  timestamp: Date
+): void {
+  const windows = labels.get(anomalyKey) || [];
+  const open = windows[windows.length - 1];
+  if (open && timestamp.getTime() - new Date(open.end).getTime() <= 60 * 60 * 1000) {
+    open.end = timestamp.toISOString();
+  } else {
+    windows.push({
+      ...label,
+      start: timestamp.toISOString(),
+      end: timestamp.toISOString(),
+    });
+  }
+  labels.set(anomalyKey, windows);
+}
+
+// Days of hourly history generated before today
+const HISTORY_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Start of the simulated history (midnight HISTORY_DAYS days before `now` in
+ * the campaign's reporting timezone) - 'T' in scenario times
+ */
+export function getHistoryStart(now: Date, timeZone?: string): Date {
+  return startOfZonedDay(now.getTime() - HISTORY_DAYS * DAY_MS, timeZone);
+}
+
+/**
+ * Hour of the simulated history a reading taken at `now` is stored under
+ */
+export function getReadingHour(now: Date, timeZone?: string): Date {
+  const start = getHistoryStart(now, timeZone).getTime();
+  return new Date(start + Math.floor((now.getTime() - start) / HOUR_MS) * HOUR_MS);
+}
+
+/**
+ * The campaign's scenario placed on the clock, from the T it was applied at
+ * (else the start of the history generated at `now`)
+ */
+function getScenarioTimeline(campaign: Campaign, now: Date): TimedScenarioEvent[] | undefined {
+  if (!campaign.scenario) return undefined;
+  const timeZone = getCampaignTimezone(campaign);
+  const origin = campaign.scenario.startsAt
+    ? new Date(campaign.scenario.startsAt)
+    : getHistoryStart(now, timeZone);
+  // Midday keeps a DST change in the week from landing on the wrong day
+  const today = startOfZonedDay(origin.getTime() + HISTORY_DAYS * DAY_MS + 12 * HOUR_MS, timeZone);
+  return scheduleScenario(campaign.scenario, origin, today);
+}
+
+interface InjectionContext {
+  now: Date;
+  scenario?: TimedScenarioEvent[]; // Scripted events; without them anomalies are seeded at random
+  labels?: AnomalyLabels; // Collects what was injected, when labeling
+}
 
-  // Generate data for last 7 days, hourly
-  for (let daysAgo = 7; daysAgo >= 0; daysAgo--) {
-    for (let hour = 0; hour < 24; hour++) {
-      const timestamp = new Date(now);
-      timestamp.setDate(timestamp.getDate() - daysAgo);
-      timestamp.setHours(hour, 0, 0, 0);
+/**
+ * Inject the campaign's anomalies into one reading (a slice's when dimensions
+ * are given): its scenario's events if it has one, else a seeded random
+ * anomaly. Undefined when a scripted gap means nothing is reported.
+ */
+function injectAnomalies(
+  campaign: Campaign,
+  value: number,
+  metricId: string,
+  dimensions: DimensionSlice | undefined,
+  timestamp: Date,
+  { now, scenario, labels }: InjectionContext
+): number | undefined {
+  if (scenario) {
+    let injected: number | undefined = value;
+    getActiveScenarioEvents(scenario, metricId, dimensions, timestamp.getTime()).forEach((timed) => {
+      if (injected === undefined) return;
+      injected = applyScenarioEffect(injected, timed, timestamp.getTime());
+      if (labels) {
+        const { event } = timed;
+        recordAnomaly(
+          labels,
+          `scenario-${timed.index}`,
+          {
+            campaignId: campaign.id,
+            metricId,
+            dimensions: event.dimensions,
+            kind: getScenarioEffectKind(event.effect, value),
+          },
+          timestamp
+        );
+      }
+    });
+    return injected;
+  }
+
+  // Slices get their own anomalies so one geo or device can break on its own
+  const anomalyKey = metricId + campaign.id + (dimensions ? getSliceKey(dimensions) : '');
+  if (!shouldGenerateAnomaly(campaign, anomalyKey, timestamp, now)) return value;
+
+  const kind = getAnomalyKind(campaign, anomalyKey);
+  if (labels) {
+    recordAnomaly(labels, anomalyKey, { campaignId: campaign.id, metricId, dimensions, kind }, timestamp);
+  }
+  return applyAnomaly(
+    value,
+    kind,
+    seededRandom(campaign, 'anomaly-size', anomalyKey, timestamp.getTime())
+  );
+}
 
-      const dayOfWeek = timestamp.getDay();
+// Volumes the funnel metrics are built from, in the order they're generated
+const BASE_VOLUMES = ['impressions', 'clicks', 'conversions', 'spend', 'revenue'];
 
-      // Generate value for each metric
-      DEFAULT_METRICS.forEach((metric) => {
-        const baseValue = baseline[metric.id] || 100;
+// Ratio metrics derived from two base volumes (CTR, CVR, CPA, CPM, CPC, ROAS)
+const DERIVED_METRICS = DEFAULT_METRICS.filter(
+  (m) => m.isRatio && m.dependsOn?.length === 2 && m.dependsOn.every((id) => BASE_VOLUMES.includes(id))
+);
 
-        let value = generateValue(baseValue, hour, dayOfWeek, isB2B);
+// Metrics that are also recorded per slice (geo, device, geo × device)
+const DIMENSIONAL_METRICS = [...BASE_VOLUMES, ...DERIVED_METRICS.map((m) => m.id)];
 
-        // Apply anomaly if applicable
-        if (shouldGenerateAnomaly(metric.id + campaign.id, timestamp)) {
-          value = applyAnomaly(value, metric.id + campaign.id);
+// Return on ad spend a campaign delivers on a normal day
+const TYPICAL_ROAS = 4;
+
+type Volumes = Record<string, number>;
+
+/**
+ * A funnel metric from base volumes: the volume itself, or the ratio its
+ * dependsOn/formula define (0 while the denominator is empty)
+ */
+function deriveMetricValue(metricId: string, volumes: Volumes): number {
+  const metric = DERIVED_METRICS.find((m) => m.id === metricId);
+  if (!metric) return volumes[metricId] ?? 0;
+
+  const [numeratorId, denominatorId] = metric.dependsOn!;
+  const denominator = volumes[denominatorId] ?? 0;
+  return denominator > 0 ? ((volumes[numeratorId] ?? 0) / denominator) * (metric.scale ?? 1) : 0;
+}
+
+/**
+ * Every slice the campaign's targeting produces: each geo, each device and
+ * each geo × device pair
+ */
+export function getDimensionSlices(campaign: Campaign): DimensionSlice[] {
+  const { geos, devices } = campaign.targeting;
+  return [
+    ...geos.map((geo) => ({ geo })),
+    ...devices.map((device) => ({ device })),
+    ...geos.flatMap((geo) => devices.map((device) => ({ geo, device }))),
+  ];
+}
+
+// The finest slices the targeting produces; every other slice and the
+// campaign total are rolled up from these
+function getLeafSlices(campaign: Campaign): DimensionSlice[] {
+  const { geos, devices } = campaign.targeting;
+  if (geos.length > 0 && devices.length > 0) {
+    return geos.flatMap((geo) => devices.map((device) => ({ geo, device })));
+  }
+  if (geos.length > 0) return geos.map((geo) => ({ geo }));
+  if (devices.length > 0) return devices.map((device) => ({ device }));
+  return [{}];
+}
+
+function isWithinSlice(leaf: DimensionSlice, slice: DimensionSlice): boolean {
+  return Object.entries(slice).every(([key, value]) => leaf[key] === value);
+}
+
+interface Leaf {
+  slice: DimensionSlice;
+  volumes: Volumes;
+}
+
+function sumVolumes(leaves: Leaf[]): Volumes {
+  const totals: Volumes = {};
+  leaves.forEach(({ volumes }) => {
+    Object.entries(volumes).forEach(([id, value]) => {
+      totals[id] = (totals[id] ?? 0) + value;
+    });
+  });
+  return totals;
+}
+
+/**
+ * Move a funnel metric over a group of leaves to `target` by scaling the
+ * volume it is made of (a ratio's numerator), so everything else derived from
+ * that volume moves with it
+ */
+function setGroupMetricValue(leaves: Leaf[], metricId: string, target: number): void {
+  const metric = DERIVED_METRICS.find((m) => m.id === metricId);
+  const [volumeId, denominatorId] = metric ? metric.dependsOn! : [metricId];
+  const current = deriveMetricValue(metricId, sumVolumes(leaves));
+  const value = Math.max(0, target);
+
+  if (current > 0) {
+    leaves.forEach(({ volumes }) => {
+      volumes[volumeId] *= value / current;
+    });
+    return;
+  }
+
+  // Nothing to scale (e.g. ramping up from zero) - share the target out
+  leaves.forEach(({ volumes }) => {
+    volumes[volumeId] = denominatorId
+      ? (value * volumes[denominatorId]) / (metric!.scale ?? 1)
+      : value / leaves.length;
+  });
+}
+
+// How a leaf's traffic share or rate differs from the campaign's (fixed per
+// campaign, ±30%), jittered ±10% hour to hour
+function getLeafFactor(campaign: Campaign, volumeId: string, slice: DimensionSlice, time: number): number {
+  const sliceKey = getSliceKey(slice);
+  const fixed = 0.7 + seededRandom(campaign, 'leaf', volumeId, sliceKey) * 0.6;
+  return fixed * applyNoise(1, seededRandom(campaign, 'slice', volumeId, sliceKey, time), 0.1);
+}
+
+interface FunnelReading {
+  metricId: string;
+  dimensions?: DimensionSlice;
+  value: number;
+}
+
+/**
+ * One moment of the funnel. Base volumes are generated per leaf slice -
+ * impressions following each geo's local-time traffic curve, spend shared out
+ * of the campaign's budget curve, clicks, conversions and revenue converted
+ * from the volume before them - and anomalies scale the volume behind the
+ * metric they hit. Totals and slices are exact rollups of the leaves, with
+ * ratios derived from the rolled-up volumes. Readings hidden by a scripted
+ * gap are left out.
+ */
+function generateFunnelReadings(
+  campaign: Campaign,
+  timestamp: Date,
+  context: InjectionContext
+): FunnelReading[] {
+  const { hour, dayOfWeek } = getZonedTime(timestamp, getCampaignTimezone(campaign));
+  const time = timestamp.getTime();
+  const isB2B = isB2BCampaign(campaign);
+  const leaves: Leaf[] = getLeafSlices(campaign).map((slice) => ({ slice, volumes: {} }));
+  const targets: Array<DimensionSlice | undefined> = [undefined, ...getDimensionSlices(campaign)];
+  const groupOf = (target: DimensionSlice | undefined) =>
+    target ? leaves.filter((leaf) => isWithinSlice(leaf.slice, target)) : leaves;
+  const gaps: Array<{ metricId: string; slice: DimensionSlice }> = [];
+
+  const shareOut = (volumeId: string, total: number, weightOf: (leaf: Leaf) => number) => {
+    const weights = leaves.map((leaf) => weightOf(leaf) * getLeafFactor(campaign, volumeId, leaf.slice, time));
+    const weightTotal = weights.reduce((sum, w) => sum + w, 0);
+    leaves.forEach((leaf, i) => {
+      leaf.volumes[volumeId] = weightTotal > 0 ? (total * weights[i]) / weightTotal : total / leaves.length;
+    });
+  };
+
+  const convert = (volumeId: string, fromId: string) => {
+    const rate =
+      generateExpectedValue(campaign, volumeId) / generateExpectedValue(campaign, fromId);
+    const hourRate = applyNoise(rate, seededRandom(campaign, 'value', volumeId, time), 0.15);
+    leaves.forEach((leaf) => {
+      leaf.volumes[volumeId] =
+        leaf.volumes[fromId] * hourRate * getLeafFactor(campaign, volumeId, leaf.slice, time);
+    });
+  };
+
+  // Anomalies on the volume, and on the ratios it is the numerator of
+  const inject = (volumeId: string) => {
+    const metricIds = [
+      volumeId,
+      ...DERIVED_METRICS.filter((m) => m.dependsOn![0] === volumeId).map((m) => m.id),
+    ];
+    metricIds.forEach((metricId) => {
+      targets.forEach((target) => {
+        const group = groupOf(target);
+        const normal = deriveMetricValue(metricId, sumVolumes(group));
+        const value = injectAnomalies(campaign, normal, metricId, target, timestamp, context);
+        if (value === undefined) {
+          gaps.push({ metricId, slice: target ?? {} });
+        } else if (value !== normal) {
+          setGroupMetricValue(group, metricId, value);
         }
+      });
+    });
+  };
+
+  // Each market's traffic rises and falls on its own clock; the total is the
+  // average of their curves
+  const curves = new Map(leaves.map((leaf) => [leaf, getTrafficCurve(campaign, leaf.slice, time)]));
+  const averageCurve = [...curves.values()].reduce((sum, c) => sum + c, 0) / leaves.length;
+  const impressions = applyNoise(
+    generateExpectedValue(campaign, 'impressions') * averageCurve,
+    seededRandom(campaign, 'value', 'impressions', time),
+    0.15
+  );
+  shareOut('impressions', impressions, (leaf) => curves.get(leaf)!);
+  inject('impressions');
+
+  convert('clicks', 'impressions');
+  inject('clicks');
+
+  convert('conversions', 'clicks');
+  inject('conversions');
+
+  const spend = generateValue(
+    generateExpectedValue(campaign, 'spend'),
+    hour,
+    dayOfWeek,
+    isB2B,
+    seededRandom(campaign, 'value', 'spend', time),
+    0.15,
+    false
+  );
+  shareOut('spend', spend, (leaf) => leaf.volumes.impressions);
+  inject('spend');
+
+  convert('revenue', 'conversions');
+  inject('revenue');
+
+  return targets.flatMap((target) => {
+    const volumes = sumVolumes(groupOf(target));
+    return DIMENSIONAL_METRICS.flatMap((metricId) => {
+      const hidden = gaps.some(
+        (gap) => gap.metricId === metricId && isWithinSlice(target ?? {}, gap.slice)
+      );
+      return hidden
+        ? []
+        : [{ metricId, dimensions: target, value: deriveMetricValue(metricId, volumes) }];
+    });
+  });
+}
+
+// Generate historical data (last 7 days, hourly, up to `now`)
+export function generateHistoricalData(campaign: Campaign, now: Date = new Date()): MetricValue[] {
+  return generateLabeledData(campaign, now).values;
+}
+
+/**
+ * Historical data plus a label for every anomaly window injected into it,
+ * so detectors can be scored against ground truth
+ */
+export function generateLabeledData(campaign: Campaign, now: Date = new Date()): LabeledDataset {
+  const values: MetricValue[] = [];
+  const labels: AnomalyLabels = new Map();
+  const context: InjectionContext = { now, scenario: getScenarioTimeline(campaign, now), labels };
+  const isB2B = isB2BCampaign(campaign);
+  const timeZone = getCampaignTimezone(campaign);
+
+  // Generate data for last 7 days, hourly from midnight in the reporting
+  // timezone; nothing has been reported for later hours yet
+  let spentToday = 0;
+  let day = -1;
+  for (let time = getHistoryStart(now, timeZone).getTime(); time <= now.getTime(); time += HOUR_MS) {
+    const timestamp = new Date(time);
+    const { day: dayOfMonth, hour, dayOfWeek } = getZonedTime(timestamp, timeZone);
+    if (dayOfMonth !== day) {
+      spentToday = 0;
+      day = dayOfMonth;
+    }
+
+    // Funnel metrics, in total and per slice, all from the same volumes
+    generateFunnelReadings(campaign, timestamp, context).forEach((reading) => {
+      if (reading.metricId === 'spend' && !reading.dimensions) spentToday += reading.value;
+      values.push({
+        campaignId: campaign.id,
+        metricId: reading.metricId,
+        timestamp: timestamp.toISOString(),
+        value: reading.value,
+        ...(reading.dimensions && { dimensions: reading.dimensions }),
+      });
+    });
+
+    // Generate value for each remaining metric
+    DEFAULT_METRICS.forEach((metric) => {
+      if (DIMENSIONAL_METRICS.includes(metric.id)) return;
 
+      // Budget metrics are derived from the day's cumulative spend
+      if (metric.id === 'budget_utilization' || metric.id === 'pacing') {
         values.push({
           campaignId: campaign.id,
           metricId: metric.id,
           timestamp: timestamp.toISOString(),
-          value: Math.max(0, value), // Ensure non-negative
+          value: getBudgetMetricValue(metric.id, campaign, spentToday, hour),
         });
+        return;
+      }
 
-        // Generate dimensional breakdown for some metrics
-        if (
-          ['ctr', 'cvr', 'cpa', 'impressions', 'clicks'].includes(metric.id) &&
-          Math.random() > 0.7
-        ) {
-          // Generate geo breakdown
-          campaign.targeting.geos.forEach((geo) => {
-            const geoValue = value * (0.8 + Math.random() * 0.4); // ±20% variation
-            values.push({
-              campaignId: campaign.id,
-              metricId: metric.id,
-              timestamp: timestamp.toISOString(),
-              value: Math.max(0, geoValue),
-              dimensions: { geo },
-            });
-          });
-
-          // Generate device breakdown
-          campaign.targeting.devices.forEach((device) => {
-            const deviceValue = value * (0.8 + Math.random() * 0.4);
-            values.push({
-              campaignId: campaign.id,
-              metricId: metric.id,
-              timestamp: timestamp.toISOString(),
-              value: Math.max(0, deviceValue),
-              dimensions: { device },
-            });
-          });
-        }
+      const baseValue = generateExpectedValue(campaign, metric.id);
+
+      const random = seededRandom(campaign, 'value', metric.id, timestamp.getTime());
+      const normal = generateValue(baseValue, hour, dayOfWeek, isB2B, random);
+
+      // Apply anomaly if applicable
+      const value = injectAnomalies(campaign, normal, metric.id, undefined, timestamp, context);
+      if (value === undefined) return; // Scripted gap - nothing reported this hour
+
+      values.push({
+        campaignId: campaign.id,
+        metricId: metric.id,
+        timestamp: timestamp.toISOString(),
+        value: Math.max(0, value), // Ensure non-negative
       });
-    }
+    });
   }
 
-  return values;
+  return { campaign, values, labels: [...labels.values()].flat() };
 }
 
-// Generate expected value for a metric (used for baseline)
+// Vertical/objective benchmark for a metric. Used as the simulator's base level
+// and as a cold-start prior before a campaign has any stored history. Funnel
+// ratios are derived from the benchmark volumes.
 export function generateExpectedValue(
   campaign: Campaign,
   metricId: string
 ): number {
+  if (metricId === 'spend') return getHourlySpendBase(campaign);
+  if (metricId === 'revenue') return getHourlySpendBase(campaign) * TYPICAL_ROAS;
+  if (DERIVED_METRICS.some((m) => m.id === metricId)) {
+    const volumes: Volumes = {};
+    BASE_VOLUMES.forEach((id) => {
+      volumes[id] = generateExpectedValue(campaign, id);
+    });
+    return deriveMetricValue(metricId, volumes);
+  }
+
   const baseline =
     BASELINE_VALUES[campaign.vertical]?.[campaign.objective] ||
     BASELINE_VALUES['E-commerce']['Performance'];
 
-  const baseValue = baseline[metricId] || 100;
-
-  // Add random adjustment (-10% to +10%)
-  const adjustment = 0.9 + Math.random() * 0.2;
-
-  return baseValue * adjustment;
+  return baseline[metricId] || 100;
 }
 
-// Simulate real-time metric update
+// Simulate real-time metric update (readings at the same moment are
+// identical). Undefined while a scripted gap means nothing is reported.
 export function generateCurrentMetricValue(
   campaign: Campaign,
   metricId: string,
-  expectedValue: number
-): number {
-  const now = new Date();
-  const hour = now.getHours();
-  const dayOfWeek = now.getDay();
-  const isB2B = campaign.vertical === 'B2B' || campaign.vertical === 'Healthcare';
+  expectedValue: number,
+  now: Date = new Date()
+): number | undefined {
+  const context: InjectionContext = { now, scenario: getScenarioTimeline(campaign, now) };
 
-  let value = generateValue(expectedValue, hour, dayOfWeek, isB2B, 0.15);
-
-  // Apply anomaly if applicable
-  if (shouldGenerateAnomaly(metricId + campaign.id, now)) {
-    value = applyAnomaly(value, metricId + campaign.id);
+  if (DIMENSIONAL_METRICS.includes(metricId)) {
+    return generateFunnelReadings(campaign, now, context).find(
+      (r) => r.metricId === metricId && !r.dimensions
+    )?.value;
   }
 
-  return Math.max(0, value);
+  const random = seededRandom(campaign, 'value', metricId, now.getTime());
+  const { hour, dayOfWeek } = getZonedTime(now, getCampaignTimezone(campaign));
+  const value = injectAnomalies(
+    campaign,
+    generateValue(expectedValue, hour, dayOfWeek, isB2BCampaign(campaign), random),
+    metricId,
+    undefined,
+    now,
+    context
+  );
+  return value === undefined ? undefined : Math.max(0, value);
+}
+
+// Simulate real-time per-slice readings, which roll up to the campaign-level value
+export function generateCurrentSliceValues(
+  campaign: Campaign,
+  metricId: string,
+  currentValue: number,
+  now: Date = new Date()
+): Array<{ dimensions: DimensionSlice; value: number }> {
+  if (!DIMENSIONAL_METRICS.includes(metricId)) return [];
+
+  const context: InjectionContext = { now, scenario: getScenarioTimeline(campaign, now) };
+  return generateFunnelReadings(campaign, now, context).flatMap((r) =>
+    r.metricId === metricId && r.dimensions ? [{ dimensions: r.dimensions, value: r.value }] : []
+  );
 }
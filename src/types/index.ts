@@ -17,13 +17,24 @@ export type CampaignObjective =
 
 export type CampaignStatus = 'ACTIVE' | 'PAUSED' | 'ENDED';
 
-export type MonitorType = 'SIMPLE' | 'COMPOSITE' | 'GRANULAR';
+export type MonitorType = 'SIMPLE' | 'COMPOSITE' | 'GRANULAR' | 'FORECAST' | 'DRIFT';
+
+export type BaselineModel = 'TRAILING_MEDIAN' | 'EWMA' | 'SEASONAL';
+
+export type AnomalyScoreMethod = 'MAD' | 'STDDEV' | 'PERCENT';
+
+export type DriftMethod = 'CUSUM' | 'PAGE_HINKLEY';
+
+export type MonitorDirection = 'UP' | 'DOWN' | 'BOTH';
 
 export type MonitorState = 'OK' | 'IN_ALARM';
 
 export type AlarmSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
 
-export type AlarmState = 'ACTIVE' | 'RESOLVED' | 'DISMISSED';
+// ACTIVE and ACKNOWLEDGED alarms are open; ACKNOWLEDGED means someone is on it
+export type AlarmState = 'ACTIVE' | 'ACKNOWLEDGED' | 'SNOOZED' | 'RESOLVED' | 'DISMISSED';
+
+export type AlarmType = 'ANOMALY' | 'STALE_DATA';
 
 export type ResolutionMethod = 'USER_ACTION' | 'AUTO_RESOLVED' | 'DISMISSED';
 
@@ -35,6 +46,16 @@ export type DeviceType = 'Desktop' | 'Mobile' | 'Tablet';
 
 export type ConfidenceLevel = 'High' | 'Medium' | 'Low';
 
+export type PacingStatus = 'ON_TRACK' | 'UNDER' | 'OVER';
+
+export type CalendarEventCategory = 'RETAIL' | 'HOLIDAY' | 'PROMO';
+
+// How a monitor treats days with calendar events: judge against expectations
+// moved by the event, hold its verdict, or alarm on a tighter threshold
+export type CalendarMode = 'ADJUST' | 'IGNORE' | 'TIGHTEN';
+
+export type MaintenanceRecurrence = 'NONE' | 'DAILY' | 'WEEKLY';
+
 // Campaign
 export interface Campaign {
   id: string;
@@ -53,10 +74,45 @@ export interface Campaign {
   monitoringEnabled: boolean;
   anomalyDetectionEnabled: boolean;
   sensitivity: Sensitivity;
+  timezone?: string; // IANA reporting timezone for days and hours; unset uses the browser's
+  seed?: number; // Simulation seed; unset derives one from the global seed and the id
+  scenario?: Scenario; // Scripted anomalies; replaces the seeded random ones when set
+  calendarEvents?: CalendarEvent[]; // User-defined events, e.g. promo launches, on top of the built-in calendar
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
 }
 
+// A day (or run of days) when traffic departs from the usual weekly pattern
+export interface CalendarEvent {
+  id: string;
+  name: string;
+  category: CalendarEventCategory;
+  startDate: string; // 'yyyy-MM-dd' on each market's local calendar
+  endDate: string; // 'yyyy-MM-dd', inclusive
+  geos?: string[]; // Markets it happens in; every market when unset
+  trafficMultiplier: number; // Traffic against a normal day, e.g. 2.5 on Black Friday
+  builtIn?: boolean;
+}
+
+// What a maintenance window silences
+export type MaintenanceScope =
+  | { type: 'ALL' }
+  | { type: 'CAMPAIGN'; campaignId: string }
+  | { type: 'MONITOR'; monitorId: string }
+  | { type: 'CATEGORY'; category: MetricCategory; campaignId?: string }; // Every campaign when unset
+
+// A planned period (e.g. a tracking migration) when monitors keep evaluating
+// but no alarms are raised
+export interface MaintenanceWindow {
+  id: string;
+  reason: string;
+  scope: MaintenanceScope;
+  startsAt: string; // ISO timestamp
+  endsAt?: string; // ISO timestamp; open-ended (until ended by hand) when unset
+  recurrence: MaintenanceRecurrence; // Repeats the start-end slot every day or week
+  createdAt: string; // ISO timestamp
+}
+
 // Monitor
 export interface Monitor {
   id: string;
@@ -67,27 +123,138 @@ export interface Monitor {
   monitorType: MonitorType;
   enabled: boolean;
   sensitivity: Sensitivity;
+  baselineModel?: BaselineModel; // Defaults to SEASONAL for monitors created before baselines existed
   compositeConfig?: {
     n: number; // N of M data points must breach
     m: number;
   };
+  compositeRule?: CompositeRule; // Multi-metric rule; takes the place of N of M when set
   granularDimensions?: string[]; // ['geo', 'device']
+  direction?: MonitorDirection; // Which deviations alarm; defaults to the metric's alarmDirection
+  driftConfig?: {
+    method: DriftMethod; // Change-point test used by DRIFT monitors
+  };
+  alarmPolicy?: Partial<AlarmPolicy>; // Overrides of the default alarm damping
+  minVolume?: number; // Ratio metrics: minimum denominator volume to evaluate; defaults to the metric's
+  calendarMode?: CalendarMode; // Defaults to ADJUST
   createdAt: string; // ISO timestamp
 }
 
+// Single-metric test inside a composite rule, judged like a simple monitor
+export interface MetricCondition {
+  type: 'CONDITION';
+  metricId: string;
+  direction: MonitorDirection; // Which way the metric has to move
+  thresholdPercent?: number; // Fixed deviation (e.g. 20 = more than 20%); defaults to the sensitivity threshold
+}
+
+export type CompositeRule =
+  | MetricCondition
+  | { type: 'AND' | 'OR'; conditions: CompositeRule[] }
+  | { type: 'NOT'; condition: CompositeRule };
+
+// Outcome of one rule condition, kept so alarms can show which parts were true
+export interface ConditionResult {
+  metricId: string;
+  description: string; // e.g. 'Spend up >20%'
+  negated: boolean; // Under a NOT - the rule needs this condition to be false
+  met: boolean; // Whether the condition itself held
+  currentValue: number;
+  expectedValue: number;
+  deviationPercent: number;
+}
+
+// Alarm damping, so a metric hovering at its threshold doesn't open and close
+// alarms on every refresh
+export interface AlarmPolicy {
+  recoveryRatio: number; // Must fall back inside this fraction of the alarm threshold to recover
+  minBreachMinutes: number; // Continuous breach required before alarming
+  cooldownMinutes: number; // Quiet period after recovering before the monitor can alarm again
+  flapThreshold: number; // Breach/clear flips within the window that mark the monitor unstable
+  flapWindowMinutes: number;
+  reopenWindowMinutes: number; // Breaching again this soon after auto-resolving re-opens the same alarm
+}
+
 // Monitor State
 export interface MonitorStateData {
   monitorId: string;
   state: MonitorState;
   currentValue: number;
   expectedValue: number;
-  anomalyScore: number; // Z-score
+  baselineModel?: BaselineModel; // Model that produced expectedValue
+  anomalyScore: number; // Robust z-score: (current - expected) / historical scale (CUSUM/PH statistic for drift monitors)
+  scoreMethod?: AnomalyScoreMethod; // PERCENT when history is too thin to estimate variance
   enteredStateAt: string; // ISO timestamp
   dataPointsBreached?: number; // For composite monitors
-  dimensions?: Record<string, string>; // For granular monitors
+  conditionResults?: ConditionResult[]; // For multi-metric composite rules
+  lowerBound?: number; // Prediction interval for forecast monitors; projected end-of-day range (% of budget) for budget monitors
+  upperBound?: number;
+  driftStartedAt?: string; // Estimated start of a detected shift, for drift monitors
+  driftMagnitude?: number; // Size of the shift vs reference level, in %
+  breachLevel?: number; // Signal relative to the alarm threshold (>= 1 breaches)
+  breachStartedAt?: string; // Start of the current continuous breach
+  lastRecoveredAt?: string; // When the monitor last left IN_ALARM
+  recentFlips?: string[]; // Breach/clear flips inside the flapping window
+  unstable?: boolean; // Flapping - state is held and no alarms are raised
+  insufficientData?: {
+    metricId: string; // Denominator that was too thin (e.g. clicks for CVR)
+    volume: number;
+    minVolume: number;
+  }; // Set when the reading wasn't evaluated - state is held
+  dimensions?: Record<string, SliceEvaluation>; // Per-slice results keyed by slice key, for granular monitors
+  pacing?: PacingForecast; // Spend projection, for budget utilization and pacing monitors
+  calendarEvents?: string[]; // Names of the calendar events in effect when evaluated
+  staleData?: DataFreshness; // Set when the metric's feed stopped arriving - state is held
+  suppressedBy?: string; // Maintenance window that held back this breach's alarm
   updatedAt: string; // ISO timestamp
 }
 
+// Whether a campaign metric's data is still arriving at its usual cadence
+export interface DataFreshness {
+  metricId: string;
+  lastReceivedAt?: string; // Latest data point; absent when nothing is stored yet (freshness unknown)
+  cadenceMinutes: number; // Usual gap between data points
+  lateByMinutes: number; // Time past the next expected data point
+  isStale: boolean;
+}
+
+// Where a campaign's spend is heading against its daily and flight budgets
+export interface PacingForecast {
+  dailyBudget: number;
+  spentToday: number;
+  expectedSpendToDate: number; // Share of the daily budget the hourly curve says should be spent by now
+  projectedDaySpend: number; // End-of-day spend at the current pace, before the budget cap
+  projectedDayLow: number;
+  projectedDayHigh: number;
+  exhaustsAt?: string; // Projected time the daily budget runs out, when it does
+  flight?: {
+    budget: number; // Daily budget × flight days
+    spendToDate: number;
+    projectedSpend: number; // End-of-flight spend, each day capped at the daily budget
+    projectedLow: number;
+    projectedHigh: number;
+    daysRemaining: number; // Full days after today
+  };
+  confidence: number; // Coverage of the low-high ranges, e.g. 0.8
+  status: PacingStatus;
+  generatedAt: string; // ISO timestamp
+}
+
+// A dimension slice, e.g. { geo: 'US' } or { geo: 'US', device: 'Mobile' }
+export type DimensionSlice = Record<string, string>;
+
+// Result of evaluating one slice of a granular monitor against its own baseline
+export interface SliceEvaluation {
+  dimensions: DimensionSlice;
+  currentValue: number;
+  expectedValue: number;
+  deviationPercent: number;
+  anomalyScore: number;
+  scoreMethod: AnomalyScoreMethod;
+  inAlarm: boolean;
+  insufficientData?: boolean; // Denominator below the monitor's minimum volume - not judged
+}
+
 // Alarm
 export interface Alarm {
   id: string;
@@ -95,19 +262,153 @@ export interface Alarm {
   campaignId: string;
   campaignName: string;
   metricName: string;
+  alarmType?: AlarmType; // Defaults to ANOMALY for alarms raised before freshness checks
   severity: AlarmSeverity;
   state: AlarmState;
   triggeredAt: string; // ISO timestamp
   resolvedAt?: string; // ISO timestamp
   resolutionMethod?: ResolutionMethod;
+  snoozedUntil?: string; // ISO timestamp; while SNOOZED, when the alarm wakes
+  snoozeReason?: string;
+  acknowledgedAt?: string; // ISO timestamp; cleared on unacknowledge, kept once resolved
+  acknowledgedBy?: string; // User who acknowledged it
+  assignee?: string; // User who owns it
   estimatedImpactUSD?: number;
   currentValue: number;
   expectedValue: number;
-  deviationPercent: number;
-  dimensionalBreakdown?: Record<string, any>;
+  deviationPercent: number; // Latest reading while open; the reading it closed on once resolved
+  peakDeviationPercent?: number; // Furthest the reading has gone while open
+  reopenedAt?: string; // ISO timestamp; last time it breached again soon after auto-resolving
+  reopenCount?: number;
+  affectedSlices?: string[]; // Slice keys in alarm (worst first), for granular monitors
+  conditionResults?: ConditionResult[]; // Rule conditions when triggered, for composite rules
+  staleData?: DataFreshness; // Feed status when raised, for stale-data alarms
   insights?: AlarmInsights;
 }
 
+export type AlarmEventType =
+  | 'TRIGGERED'
+  | 'VALUE_UPDATED'
+  | 'SEVERITY_CHANGED'
+  | 'ACKNOWLEDGED'
+  | 'UNACKNOWLEDGED'
+  | 'ASSIGNED'
+  | 'SNOOZED'
+  | 'WOKEN'
+  | 'COMMENT'
+  | 'RECOMMENDATION_APPLIED'
+  | 'RESOLVED'
+  | 'REOPENED'
+  | 'DISMISSED';
+
+// One entry of an alarm's append-only activity log
+export interface AlarmEvent {
+  id: string;
+  alarmId: string;
+  type: AlarmEventType;
+  at: string; // ISO timestamp
+  actor?: string; // User who acted; unset for the system (evaluations, auto-resolve, snooze wake-up)
+  currentValue?: number; // Reading, for TRIGGERED, VALUE_UPDATED, SEVERITY_CHANGED and REOPENED
+  deviationPercent?: number;
+  fromSeverity?: AlarmSeverity; // For SEVERITY_CHANGED
+  toSeverity?: AlarmSeverity; // For TRIGGERED and SEVERITY_CHANGED
+  assignee?: string; // For ASSIGNED; unset when unassigned
+  snoozedUntil?: string; // For SNOOZED
+  toState?: AlarmState; // For WOKEN
+  resolutionMethod?: ResolutionMethod; // For RESOLVED
+  text?: string; // Comment, snooze reason or applied recommendation
+  mentions?: string[]; // Users @mentioned in a comment
+}
+
+// Why two alarms in an incident were grouped together
+export type IncidentLink = 'DEPENDENCY' | 'SLICE';
+
+// Open alarms on one campaign that fired close together and look like one
+// problem. Worked out from the alarms each time, not stored.
+export interface Incident {
+  id: string; // Id of the primary alarm
+  campaignId: string;
+  campaignName: string;
+  primaryAlarmId: string; // Probable source: furthest upstream in the metric graph, then earliest
+  alarmIds: string[]; // Primary first, then by trigger time
+  severity: AlarmSeverity; // Worst of its alarms
+  startedAt: string; // ISO timestamp; earliest trigger
+  links: IncidentLink[]; // How its alarms are related; empty for a lone alarm
+  sharedSlices?: string[]; // Slice keys more than one of its alarms are in
+  estimatedImpactUSD?: number; // Sum over its alarms
+}
+
+// How quickly alarms raised in a period were picked up and resolved, in minutes
+export interface ResponseSummary {
+  from: string; // ISO timestamp
+  to: string; // ISO timestamp
+  alarms: number;
+  acknowledged: number;
+  resolved: number;
+  medianTimeToAcknowledge?: number; // Unset when none were acknowledged
+  meanTimeToAcknowledge?: number;
+  medianTimeToResolve?: number; // Unset when none were resolved
+  meanTimeToResolve?: number;
+}
+
+// An alarm a monitor configuration would have opened when replayed over stored history
+export interface BacktestAlarm {
+  triggeredAt: string; // ISO timestamp
+  resolvedAt?: string; // Unset while still open at the end of the window
+  durationHours: number;
+  severity: AlarmSeverity;
+  currentValue: number;
+  expectedValue: number;
+  deviationPercent: number;
+  peakDeviationPercent: number; // Largest deviation (by size) while open
+}
+
+// Replay of one monitor configuration hour by hour over a past window
+export interface BacktestResult {
+  monitor: Monitor;
+  from: string; // ISO timestamp
+  to: string; // ISO timestamp
+  hoursEvaluated: number;
+  hoursInAlarm: number;
+  hoursNotJudged: number; // Stale feed or too little volume - previous state held
+  alarms: BacktestAlarm[];
+  alarmsBySeverity: Record<AlarmSeverity, number>;
+}
+
+// One slice's share of a metric change (root-cause attribution)
+export interface SliceContribution {
+  sliceKey: string;
+  dimensions: DimensionSlice;
+  currentValue: number; // Slice metric over the recent window
+  expectedValue: number; // Slice metric over the same hours on previous days
+  currentShare: number; // Share of volume (the denominator, for ratio metrics), 0-1
+  baselineShare: number;
+  rateEffect: number; // Part of the total change from the slice's own value moving
+  mixEffect: number; // Part of the total change from the slice's share moving (ratio metrics)
+  contributionPercent: number; // (rate + mix) as % of the total change
+}
+
+// Attribution of a metric change across one slice group (e.g. device, or geo × device)
+export interface DimensionAttribution {
+  dimension: string; // Dimension keys joined with '|', e.g. 'device' or 'device|geo'
+  totalChange: number;
+  rateEffect: number;
+  mixEffect: number;
+  slices: SliceContribution[]; // Largest contribution first
+}
+
+export interface DimensionalBreakdown {
+  metricId: string;
+  isRatio: boolean;
+  windowHours: number; // Length of the recent window compared against prior days
+  groups: Record<string, DimensionAttribution>; // Keyed by dimension
+  primaryDriver?: {
+    dimension: string;
+    sliceKey: string;
+  };
+  generatedAt: string; // ISO timestamp
+}
+
 // AI-Generated Insights
 export interface AlarmInsights {
   summary: string;
@@ -130,7 +431,80 @@ export interface MetricValue {
   metricId: string;
   timestamp: string; // ISO timestamp
   value: number;
-  dimensions?: Record<string, any>; // { geo: 'US', device: 'mobile' }
+  dimensions?: DimensionSlice; // { geo: 'US', device: 'mobile' }
+}
+
+// Kind of anomaly the simulator injects
+export type AnomalyKind = 'DROP' | 'SPIKE' | 'GRADUAL_DECLINE' | 'GRADUAL_RISE' | 'OUTAGE';
+
+// What a scenario event does to a metric while it runs
+export type ScenarioEffect =
+  | { type: 'CHANGE'; percent: number } // Relative to normal, e.g. -50 halves it
+  | { type: 'RAMP'; from: number; to: number; over?: string } // Absolute values; holds `to` after `over`
+  | { type: 'SET'; value: number } // Absolute value, e.g. 0 for spend stopping
+  | { type: 'GAP' }; // No data reported at all
+
+// One scripted anomaly. Times are 'T+30h' / 'T+2d' (after the start of the
+// simulated history), 'HH:mm' (on the clock's day) or ISO timestamps;
+// durations are like '90m', '6h' or '1d'.
+export interface ScenarioEvent {
+  name?: string;
+  metricId: string;
+  dimensions?: DimensionSlice; // Only slices matching these, e.g. { geo: 'UK', device: 'Mobile' }
+  at: string;
+  duration?: string; // Unset runs to the end of the data
+  effect: ScenarioEffect;
+}
+
+// A named timeline of anomalies to inject, for demos, training and detector regression tests
+export interface Scenario {
+  name: string;
+  description?: string;
+  startsAt?: string; // ISO timestamp of T; set when applied, else the start of the generated history
+  events: ScenarioEvent[];
+}
+
+// A window where the simulator injected an anomaly - ground truth for detector benchmarks
+export interface AnomalyLabel {
+  campaignId: string;
+  metricId: string;
+  dimensions?: DimensionSlice; // Set when only this slice was affected
+  kind: AnomalyKind;
+  start: string; // ISO timestamp of the first affected hour
+  end: string; // ISO timestamp of the last affected hour
+}
+
+// Simulated history with the anomalies injected into it
+export interface LabeledDataset {
+  campaign: Campaign;
+  values: MetricValue[];
+  labels: AnomalyLabel[];
+}
+
+// Detector configurations the benchmark scores
+export type BenchmarkDetector = 'THRESHOLD' | 'SEASONAL' | 'FORECAST' | 'DRIFT' | 'COMPOSITE';
+
+// How well one detector at one sensitivity found the labeled anomalies
+export interface DetectorScore {
+  detector: BenchmarkDetector;
+  sensitivity: Sensitivity;
+  labeledWindows: number;
+  detectedWindows: number;
+  alarms: number;
+  falseAlarms: number; // Alarms overlapping no labeled window
+  precision?: number; // 0-1, unset when the detector raised no alarms
+  recall?: number; // 0-1, unset when there was nothing to find
+  recallByKind: Partial<Record<AnomalyKind, number>>;
+  meanTimeToDetectHours?: number; // From window start to the first alarm on it
+  falseAlarmsPerDay: number;
+}
+
+export interface BenchmarkReport {
+  datasets: number;
+  metricIds: string[];
+  evaluatedDays: number; // Per metric and dataset, after warm-up
+  scores: DetectorScore[];
+  generatedAt: string; // ISO timestamp
 }
 
 // User Preferences
@@ -152,6 +526,7 @@ export interface UserPreferences {
   emailAddress: string;
   phoneNumber?: string;
   theme: 'light' | 'dark';
+  simulationSeed?: number; // Seed of simulated data for campaigns without their own; 0 when unset
 }
 
 // Onboarding State
@@ -172,8 +547,11 @@ export interface MetricDefinition {
   description: string;
   unit: string; // '%', '$', '#', 'ms', etc.
   isRatio: boolean; // CTR, CVR, etc.
+  alarmDirection: MonitorDirection; // Which way is bad for the campaign
   dependsOn?: string[]; // IDs of metrics this depends on
   formula?: string; // For display purposes
+  scale?: number; // Ratio metrics: multiplier on dependsOn[0] / dependsOn[1] (100 for %, 1000 for CPM)
+  minVolume?: number; // Ratio metrics: denominator volume needed before the ratio is trusted
 }
 
 // Default metrics
@@ -186,6 +564,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Total ad impressions served',
     unit: '#',
     isRatio: false,
+    alarmDirection: 'DOWN',
   },
   {
     id: 'clicks',
@@ -194,6 +573,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Total clicks received',
     unit: '#',
     isRatio: false,
+    alarmDirection: 'DOWN',
   },
   {
     id: 'conversions',
@@ -202,6 +582,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Total conversions tracked',
     unit: '#',
     isRatio: false,
+    alarmDirection: 'DOWN',
   },
   {
     id: 'impression_share',
@@ -210,6 +591,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: '% of available impressions won',
     unit: '%',
     isRatio: true,
+    alarmDirection: 'DOWN',
   },
   // Efficiency Metrics
   {
@@ -219,8 +601,11 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Click-Through Rate',
     unit: '%',
     isRatio: true,
+    alarmDirection: 'DOWN',
     dependsOn: ['clicks', 'impressions'],
     formula: '(Clicks / Impressions) × 100',
+    scale: 100,
+    minVolume: 1000,
   },
   {
     id: 'cvr',
@@ -229,8 +614,11 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Conversion Rate',
     unit: '%',
     isRatio: true,
+    alarmDirection: 'DOWN',
     dependsOn: ['conversions', 'clicks'],
     formula: '(Conversions / Clicks) × 100',
+    scale: 100,
+    minVolume: 100,
   },
   {
     id: 'cpa',
@@ -239,8 +627,10 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Cost Per Acquisition',
     unit: '$',
     isRatio: true,
+    alarmDirection: 'UP',
     dependsOn: ['spend', 'conversions'],
     formula: 'Spend / Conversions',
+    minVolume: 10,
   },
   {
     id: 'cpm',
@@ -249,8 +639,11 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Cost Per Mille (1000 impressions)',
     unit: '$',
     isRatio: true,
+    alarmDirection: 'UP',
     dependsOn: ['spend', 'impressions'],
     formula: '(Spend / Impressions) × 1000',
+    scale: 1000,
+    minVolume: 1000,
   },
   {
     id: 'cpc',
@@ -259,8 +652,10 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Cost Per Click',
     unit: '$',
     isRatio: true,
+    alarmDirection: 'UP',
     dependsOn: ['spend', 'clicks'],
     formula: 'Spend / Clicks',
+    minVolume: 100,
   },
   {
     id: 'roas',
@@ -269,8 +664,10 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Return on Ad Spend',
     unit: 'x',
     isRatio: true,
+    alarmDirection: 'DOWN',
     dependsOn: ['revenue', 'spend'],
     formula: 'Revenue / Spend',
+    minVolume: 100,
   },
   // Quality Metrics
   {
@@ -280,6 +677,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: '% of impressions viewable',
     unit: '%',
     isRatio: true,
+    alarmDirection: 'DOWN',
   },
   {
     id: 'invalid_traffic',
@@ -288,6 +686,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: '% of traffic flagged as invalid/bot',
     unit: '%',
     isRatio: true,
+    alarmDirection: 'UP',
   },
   {
     id: 'ad_load_time',
@@ -296,6 +695,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Average time for ad to load',
     unit: 'ms',
     isRatio: false,
+    alarmDirection: 'UP',
   },
   // Financial Metrics
   {
@@ -305,6 +705,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Total amount spent',
     unit: '$',
     isRatio: false,
+    alarmDirection: 'BOTH',
   },
   {
     id: 'budget_utilization',
@@ -313,6 +714,7 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: '% of daily budget spent',
     unit: '%',
     isRatio: true,
+    alarmDirection: 'BOTH',
     dependsOn: ['spend'],
     formula: '(Spend / Daily Budget) × 100',
   },
@@ -323,13 +725,14 @@ export const DEFAULT_METRICS: MetricDefinition[] = [
     description: 'Budget pacing status',
     unit: 'status',
     isRatio: false,
+    alarmDirection: 'BOTH',
   },
 ];
 
 // Helper type for chart data
 export interface ChartDataPoint {
   timestamp: string;
-  value: number;
+  value?: number; // Absent for forecast-only points
   expected?: number;
   upperBound?: number;
   lowerBound?: number;
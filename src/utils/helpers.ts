@@ -3,7 +3,14 @@
  */
 
 import { format, formatDistanceToNow } from 'date-fns';
-import type { AlarmSeverity, Sensitivity } from '@/types';
+import type {
+  Alarm,
+  AlarmSeverity,
+  DimensionSlice,
+  MonitorDirection,
+  Sensitivity,
+  UserPreferences,
+} from '@/types';
 
 // Format currency
 export function formatCurrency(value: number): string {
@@ -39,7 +46,8 @@ export function formatMetricValue(value: number, unit: string): string {
     case 'x':
       return `${value.toFixed(2)}x`;
     case 'status':
-      return value > 0 ? 'On Track' : value < 0 ? 'Under' : 'Over';
+      // Pacing: spend against where it should be by now, in % (100 = on track)
+      return value > 110 ? 'Over' : value < 90 ? 'Under' : 'On Track';
     default:
       return value.toFixed(2);
   }
@@ -74,6 +82,13 @@ export function formatDuration(startDate: string | Date, endDate?: string | Date
   return `${diffHours}h ${diffMinutes}m`;
 }
 
+// Format a span of minutes, e.g. '45m' or '3h 20m'
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.floor(minutes % 60);
+  return hours === 0 ? `${rest}m` : `${hours}h ${rest}m`;
+}
+
 // Get severity color classes
 export function getSeverityColor(severity: AlarmSeverity): {
   bg: string;
@@ -120,25 +135,104 @@ export function getSensitivityThreshold(sensitivity: Sensitivity): number {
   }
 }
 
+// Get robust z-score threshold (used once a metric has enough history)
+export function getSensitivityScoreThreshold(sensitivity: Sensitivity): number {
+  switch (sensitivity) {
+    case 'Strict':
+      return 2.5; // ±2.5σ
+    case 'Balanced':
+      return 3.5; // ±3.5σ
+    case 'Loose':
+      return 5.0; // ±5σ
+  }
+}
+
+// Get z multiplier for forecast prediction intervals
+export function getSensitivityIntervalZ(sensitivity: Sensitivity): number {
+  switch (sensitivity) {
+    case 'Strict':
+      return 1.96; // 95% interval
+    case 'Balanced':
+      return 2.58; // 99% interval
+    case 'Loose':
+      return 3.29; // 99.9% interval
+  }
+}
+
+// One step stricter than a sensitivity (Strict stays Strict)
+export function getStricterSensitivity(sensitivity: Sensitivity): Sensitivity {
+  switch (sensitivity) {
+    case 'Strict':
+    case 'Balanced':
+      return 'Strict';
+    case 'Loose':
+      return 'Balanced';
+  }
+}
+
 // Calculate deviation percentage
 export function calculateDeviation(current: number, expected: number): number {
   if (expected === 0) return 0;
   return ((current - expected) / expected) * 100;
 }
 
-// Determine if value is in alarm state
+// Calculate robust anomaly score (deviation in units of normal variation)
+export function calculateAnomalyScore(current: number, expected: number, scale: number): number {
+  if (scale <= 0) return 0;
+  return (current - expected) / scale;
+}
+
+// Whether a signed deviation (or score) points the way the monitor watches
+export function isAdverseDirection(deviation: number, direction: MonitorDirection = 'BOTH'): boolean {
+  switch (direction) {
+    case 'UP':
+      return deviation > 0;
+    case 'DOWN':
+      return deviation < 0;
+    case 'BOTH':
+      return true;
+  }
+}
+
+// Alarms still needing attention - active, or acknowledged and being worked on
+export function isOpenAlarm(alarm: Alarm): boolean {
+  return alarm.state === 'ACTIVE' || alarm.state === 'ACKNOWLEDGED';
+}
+
+// Who acknowledges and is assigned alarms from this browser
+export function getCurrentUser(preferences: UserPreferences): string {
+  return preferences.emailAddress.trim() || 'You';
+}
+
+// Determine if value is in alarm state.
+// With a historical scale the score threshold applies; otherwise the fixed percentage band.
+// Deviations in a direction the monitor doesn't watch never alarm.
 export function isInAlarm(
   current: number,
   expected: number,
-  sensitivity: Sensitivity
+  sensitivity: Sensitivity,
+  scale?: number,
+  direction: MonitorDirection = 'BOTH'
 ): boolean {
+  if (!isAdverseDirection(current - expected, direction)) return false;
+
+  if (scale && scale > 0) {
+    const score = Math.abs(calculateAnomalyScore(current, expected, scale));
+    return score > getSensitivityScoreThreshold(sensitivity);
+  }
+
   const threshold = getSensitivityThreshold(sensitivity);
   const deviation = Math.abs(calculateDeviation(current, expected)) / 100;
   return deviation > threshold;
 }
 
-// Determine alarm severity based on deviation
-export function calculateSeverity(deviation: number): AlarmSeverity {
+// Determine alarm severity based on deviation (a move in the harmless direction is LOW)
+export function calculateSeverity(
+  deviation: number,
+  direction: MonitorDirection = 'BOTH'
+): AlarmSeverity {
+  if (!isAdverseDirection(deviation, direction)) return 'LOW';
+
   const absDeviation = Math.abs(deviation);
 
   if (absDeviation >= 60) return 'CRITICAL';
@@ -147,6 +241,27 @@ export function calculateSeverity(deviation: number): AlarmSeverity {
   return 'LOW';
 }
 
+// Stable key for a dimension slice, e.g. 'device=Mobile|geo=US'
+export function getSliceKey(slice: DimensionSlice): string {
+  return Object.keys(slice)
+    .sort()
+    .map((key) => `${key}=${slice[key]}`)
+    .join('|');
+}
+
+// Inverse of getSliceKey
+export function parseSliceKey(key: string): DimensionSlice {
+  return Object.fromEntries(key.split('|').map((part) => part.split('=') as [string, string]));
+}
+
+// Human-readable slice name, e.g. 'United States × Mobile'
+export function formatSliceLabel(slice: DimensionSlice): string {
+  return Object.keys(slice)
+    .sort((a, b) => (a === 'geo' ? -1 : b === 'geo' ? 1 : a.localeCompare(b)))
+    .map((key) => (key === 'geo' ? getCountryName(slice[key]) : slice[key]))
+    .join(' × ');
+}
+
 // Generate random ID
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,344 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AlarmEvent, Campaign, MetricValue, MonitorStateData } from '@/types';
+import { createDefaultMonitors } from '@/services/anomaly';
+import { buildAttribution } from '@/services/attribution';
+import { generateHistoricalData } from '@/services/simulation';
+import {
+  appendAlarmEvent,
+  bulkSaveMetricValues,
+  getAlarmBreakdown,
+  getAlarmEvents,
+  getAlarmEventsByAlarm,
+  getMetricValuesByCampaign,
+  getMetricValuesByCampaignAndMetric,
+  getMonitorState,
+  getMonitorsByCampaign,
+  saveAlarmBreakdown,
+  saveAlarmEvents,
+  saveMetricValue,
+  saveMetricValues,
+  saveMonitor,
+  saveMonitorState,
+  saveMonitorStates,
+  saveMonitors,
+} from './storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// In-memory localStorage that refuses writes past `quota` characters
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  constructor(private quota = Infinity) {}
+  get length() {
+    return this.items.size;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    const used = [...this.items].reduce((sum, [k, v]) => (k === key ? sum : sum + v.length), 0);
+    if (used + value.length > this.quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+function alarmEvent(alarmId: string, i: number, type: AlarmEvent['type'] = 'VALUE_UPDATED'): AlarmEvent {
+  return {
+    id: `${alarmId}-${i}`,
+    alarmId,
+    type,
+    at: new Date(Date.UTC(2026, 0, 5) + i * 60 * 1000).toISOString(),
+    currentValue: 100,
+    deviationPercent: -30 - i,
+  };
+}
+
+function hourlySeries(campaignId: string, metricId: string, hours: number, end = Date.now()) {
+  const start = Math.floor(end / HOUR_MS) * HOUR_MS - (hours - 1) * HOUR_MS;
+  return Array.from({ length: hours }, (_, i): MetricValue => ({
+    campaignId,
+    metricId,
+    timestamp: new Date(start + i * HOUR_MS).toISOString(),
+    value: 100 + i * 0.5,
+  }));
+}
+
+describe('metric history storage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+    saveMetricValues([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a week of hourly history, far more than a cookie holds', () => {
+    const values = [
+      ...hourlySeries('c1', 'impressions', 24 * 6),
+      ...hourlySeries('c1', 'clicks', 24 * 6).map((v) => ({ ...v, dimensions: { device: 'Mobile' } })),
+    ];
+    bulkSaveMetricValues(values);
+
+    expect(JSON.stringify(values).length).toBeGreaterThan(4096);
+    expect(getMetricValuesByCampaign('c1')).toHaveLength(values.length);
+    const clicks = getMetricValuesByCampaignAndMetric('c1', 'clicks');
+    expect(clicks[0]).toEqual(values[24 * 6]);
+    expect(clicks[clicks.length - 1].timestamp).toBe(values[values.length - 1].timestamp);
+  });
+
+  it('does not store the same points twice', () => {
+    const values = hourlySeries('c1', 'impressions', 48);
+    bulkSaveMetricValues(values);
+    bulkSaveMetricValues(values);
+
+    expect(getMetricValuesByCampaign('c1')).toHaveLength(48);
+  });
+
+  it('keeps stored points when the history is generated again', () => {
+    const values = hourlySeries('c1', 'impressions', 48);
+    bulkSaveMetricValues(values);
+    bulkSaveMetricValues(values.map((v) => ({ ...v, value: 0 })));
+
+    expect(getMetricValuesByCampaign('c1').every((v) => v.value > 0)).toBe(true);
+  });
+
+  it('replaces a reading for the same metric, slice and time', () => {
+    const [first] = hourlySeries('c1', 'impressions', 1);
+    saveMetricValue(first);
+    saveMetricValue({ ...first, value: 42 });
+
+    expect(getMetricValuesByCampaign('c1')).toEqual([{ ...first, value: 42 }]);
+  });
+
+  it('drops the oldest days when storage is full', () => {
+    storage = new MemoryStorage(600);
+    vi.stubGlobal('localStorage', storage);
+    const values = hourlySeries('c1', 'impressions', 24 * 6);
+    bulkSaveMetricValues(values);
+
+    const kept = getMetricValuesByCampaign('c1');
+    expect(kept.length).toBeGreaterThan(0);
+    expect(kept.length).toBeLessThan(values.length);
+    expect(kept[kept.length - 1].timestamp).toBe(values[values.length - 1].timestamp);
+  });
+});
+
+describe('alarm event log', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+    saveAlarmEvents([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a log far longer than a cookie holds', () => {
+    Array.from({ length: 60 }, (_, i) => alarmEvent('a1', i)).forEach(appendAlarmEvent);
+
+    expect(storage.getItem('app_alarm_events')!.length).toBeGreaterThan(4096);
+    expect(getAlarmEventsByAlarm('a1')).toHaveLength(60);
+  });
+
+  it('caps each alarm, dropping logged readings before what people did', () => {
+    appendAlarmEvent(alarmEvent('a1', 0, 'TRIGGERED'));
+    appendAlarmEvent(alarmEvent('a1', 1, 'COMMENT'));
+    Array.from({ length: 120 }, (_, i) => alarmEvent('a1', i + 2)).forEach(appendAlarmEvent);
+    appendAlarmEvent(alarmEvent('a2', 0, 'TRIGGERED'));
+
+    const log = getAlarmEventsByAlarm('a1');
+    expect(log).toHaveLength(100);
+    expect(log.slice(0, 2).map((e) => e.type)).toEqual(['TRIGGERED', 'COMMENT']);
+    expect(log[log.length - 1].id).toBe('a1-121');
+    expect(getAlarmEventsByAlarm('a2')).toHaveLength(1);
+  });
+
+  it('drops the least recently active alarm when storage is full', () => {
+    storage = new MemoryStorage(2000);
+    vi.stubGlobal('localStorage', storage);
+    saveAlarmEvents([]);
+    Array.from({ length: 10 }, (_, i) => alarmEvent('old', i)).forEach(appendAlarmEvent);
+    Array.from({ length: 10 }, (_, i) => alarmEvent('new', i + 10)).forEach(appendAlarmEvent);
+
+    const alarmIds = new Set(getAlarmEvents().map((e) => e.alarmId));
+    expect(alarmIds).toEqual(new Set(['new']));
+    expect(getAlarmEventsByAlarm('new')).toHaveLength(10);
+    expect(JSON.parse(storage.getItem('app_alarm_events')!)).toEqual(getAlarmEvents());
+  });
+});
+
+describe('monitor storage', () => {
+  const campaign: Campaign = {
+    id: 'c1',
+    name: 'Storage',
+    vertical: 'E-commerce',
+    objective: 'Performance',
+    dailyBudget: 1000,
+    startDate: '2026-01-01',
+    endDate: '2026-12-31',
+    status: 'ACTIVE',
+    targeting: { geos: ['US'], devices: ['Desktop'] },
+    monitoringEnabled: true,
+    anomalyDetectionEnabled: true,
+    sensitivity: 'Balanced',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    saveMonitors([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps every default monitor, though together they're past a cookie's size", () => {
+    const monitors = createDefaultMonitors(campaign);
+    monitors.forEach(saveMonitor);
+
+    // Encoded the way a cookie stores them
+    expect(encodeURIComponent(JSON.stringify(monitors)).length).toBeGreaterThan(4096);
+    expect(getMonitorsByCampaign(campaign.id)).toEqual(monitors);
+  });
+});
+
+describe('monitor state storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    saveMonitorStates([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps a campaign's monitor states, slice results included, for the next evaluation", () => {
+    const geos = ['US', 'GB', 'IN'];
+    const devices = ['Desktop', 'Mobile', 'Tablet'];
+    const dimensions: MonitorStateData['dimensions'] = {};
+    geos.forEach((geo, g) =>
+      devices.forEach((device, d) => {
+        // Readings as evaluated, at full precision
+        const currentValue = (g + 2) / (d + 97);
+        const expectedValue = (g + 3) / (d + 101);
+        dimensions[`device=${device}|geo=${geo}`] = {
+          dimensions: { geo, device },
+          currentValue,
+          expectedValue,
+          deviationPercent: ((currentValue - expectedValue) / expectedValue) * 100,
+          anomalyScore: (currentValue - expectedValue) / 0.0017,
+          scoreMethod: 'MAD',
+          inAlarm: false,
+        };
+      })
+    );
+    const state: MonitorStateData = {
+      monitorId: 'm1',
+      state: 'OK',
+      currentValue: 0.0213,
+      expectedValue: 0.0251,
+      anomalyScore: -2.4,
+      breachLevel: 0.7,
+      breachStartedAt: '2026-01-05T11:00:00.000Z',
+      recentFlips: ['2026-01-05T10:00:00.000Z', '2026-01-05T10:30:00.000Z'],
+      enteredStateAt: '2026-01-05T09:00:00.000Z',
+      updatedAt: '2026-01-05T12:00:00.000Z',
+      dimensions,
+    };
+    const states = ['m1', 'm2', 'm3'].map((monitorId) => ({ ...state, monitorId }));
+    states.forEach(saveMonitorState);
+
+    // Encoded the way a cookie stores them
+    expect(encodeURIComponent(JSON.stringify(states)).length).toBeGreaterThan(4096);
+    expect(getMonitorState('m1')?.dimensions).toEqual(dimensions);
+    expect(getMonitorState('m3')?.breachStartedAt).toBe(state.breachStartedAt);
+  });
+
+  it('keeps the time the state was evaluated at, so a replay reads the same', () => {
+    const state: MonitorStateData = {
+      monitorId: 'm1',
+      state: 'IN_ALARM',
+      currentValue: 420,
+      expectedValue: 1000,
+      anomalyScore: -6.1,
+      enteredStateAt: '2026-03-09T15:00:00.000Z',
+      updatedAt: '2026-03-09T15:30:00.000Z',
+    };
+    saveMonitorState(state);
+
+    expect(getMonitorState('m1')?.updatedAt).toBe('2026-03-09T15:30:00.000Z');
+  });
+});
+
+describe('alarm breakdown storage', () => {
+  const campaign: Campaign = {
+    id: 'c2',
+    name: 'Breakdown',
+    vertical: 'E-commerce',
+    objective: 'Performance',
+    dailyBudget: 1000,
+    startDate: '2026-01-01',
+    endDate: '2027-12-31',
+    status: 'ACTIVE',
+    targeting: { geos: ['US', 'GB'], devices: ['Desktop', 'Mobile'] },
+    monitoringEnabled: true,
+    anomalyDetectionEnabled: true,
+    sensitivity: 'Balanced',
+    timezone: 'UTC',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps a breakdown apart from the alarm, past a cookie's size", () => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    saveMetricValues([]);
+    const now = new Date();
+    bulkSaveMetricValues(generateHistoricalData(campaign, now));
+    const breakdown = buildAttribution(campaign.id, 'ctr', now, 'UTC')!;
+    saveAlarmBreakdown('a1', breakdown);
+
+    expect(encodeURIComponent(JSON.stringify(breakdown)).length).toBeGreaterThan(4096);
+    expect(getAlarmBreakdown('a1')).toEqual(breakdown);
+    expect(getAlarmBreakdown('a2')).toBeUndefined();
+  });
+
+  it('drops the breakdowns of closed alarms when storage is full', () => {
+    const breakdown = {
+      metricId: 'ctr',
+      isRatio: true,
+      windowHours: 6,
+      groups: {},
+      generatedAt: '2026-01-05T12:00:00.000Z',
+    };
+    const size = JSON.stringify(breakdown).length;
+    vi.stubGlobal('localStorage', new MemoryStorage(size * 2));
+    saveAlarmBreakdown('closed-1', breakdown);
+    saveAlarmBreakdown('closed-2', breakdown);
+    saveAlarmBreakdown('a3', breakdown);
+
+    expect(getAlarmBreakdown('a3')).toEqual(breakdown);
+    expect(getAlarmBreakdown('closed-1')).toBeUndefined();
+  });
+});
@@ -1,6 +1,8 @@
 /**
  * Cookie-based storage utilities for persisting application data
- * All data is stored as JSON in browser cookies
+ * All data is stored as JSON in browser cookies, except what outgrows a
+ * cookie's ~4 KB - monitors and their states, alarm breakdowns, metric
+ * history and the alarm event log - which is kept in localStorage
  */
 
 import Cookies from 'js-cookie';
@@ -9,20 +11,29 @@ import type {
   Monitor,
   MonitorStateData,
   Alarm,
+  AlarmEvent,
+  DimensionalBreakdown,
+  MaintenanceWindow,
   MetricValue,
+  DimensionSlice,
   UserPreferences,
   OnboardingState,
 } from '@/types';
+import { getSliceKey, isOpenAlarm } from './helpers';
 
 // Cookie keys
 const COOKIE_KEYS = {
   CAMPAIGNS: 'app_campaigns',
-  MONITORS: 'app_monitors',
-  MONITOR_STATES: 'app_monitor_states',
   ALARMS: 'app_alarms',
-  METRIC_VALUES: 'app_metric_values',
   USER_PREFERENCES: 'app_user_preferences',
   ONBOARDING_STATE: 'app_onboarding_state',
+  MAINTENANCE_WINDOWS: 'app_maintenance_windows',
+} as const;
+
+// localStorage keys, for data a cookie can't hold
+const LOCAL_STORAGE_KEYS = {
+  MONITORS: 'app_monitors',
+  MONITOR_STATES: 'app_monitor_states',
 } as const;
 
 // Cookie options (30 days expiration)
@@ -56,6 +67,52 @@ function removeCookie(key: string): void {
   Cookies.remove(key);
 }
 
+// Unset outside a browser, where callers keep their data in memory instead
+function getLocalStorage(): Storage | undefined {
+  return typeof localStorage === 'undefined' ? undefined : localStorage;
+}
+
+// Stand-in for localStorage outside a browser
+const memoryStorage = new Map<string, string>();
+
+// Read a localStorage value, moving over one an older version left in a cookie
+function getStoredItem<T>(key: string, defaultValue: T): T {
+  try {
+    const storage = getLocalStorage();
+    const stored = storage ? storage.getItem(key) : memoryStorage.get(key);
+    if (stored) return JSON.parse(stored) as T;
+
+    const legacy = getCookie<T | undefined>(key, undefined);
+    if (legacy === undefined) return defaultValue;
+    setStoredItem(key, legacy);
+    removeCookie(key);
+    return legacy;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return defaultValue;
+  }
+}
+
+function setStoredItem<T>(key: string, value: T): void {
+  try {
+    const jsonValue = JSON.stringify(value);
+    const storage = getLocalStorage();
+    if (storage) {
+      storage.setItem(key, jsonValue);
+    } else {
+      memoryStorage.set(key, jsonValue);
+    }
+  } catch (error) {
+    console.error(`Error saving ${key}:`, error);
+  }
+}
+
+function removeStoredItem(key: string): void {
+  getLocalStorage()?.removeItem(key);
+  memoryStorage.delete(key);
+  removeCookie(key);
+}
+
 // Campaigns
 export function getCampaigns(): Campaign[] {
   return getCookie<Campaign[]>(COOKIE_KEYS.CAMPAIGNS, []);
@@ -91,11 +148,11 @@ export function deleteCampaign(id: string): void {
 
 // Monitors
 export function getMonitors(): Monitor[] {
-  return getCookie<Monitor[]>(COOKIE_KEYS.MONITORS, []);
+  return getStoredItem<Monitor[]>(LOCAL_STORAGE_KEYS.MONITORS, []);
 }
 
 export function saveMonitors(monitors: Monitor[]): void {
-  setCookie(COOKIE_KEYS.MONITORS, monitors);
+  setStoredItem(LOCAL_STORAGE_KEYS.MONITORS, monitors);
 }
 
 export function getMonitorsByCampaign(campaignId: string): Monitor[] {
@@ -123,11 +180,11 @@ export function saveMonitor(monitor: Monitor): void {
 
 // Monitor States
 export function getMonitorStates(): MonitorStateData[] {
-  return getCookie<MonitorStateData[]>(COOKIE_KEYS.MONITOR_STATES, []);
+  return getStoredItem<MonitorStateData[]>(LOCAL_STORAGE_KEYS.MONITOR_STATES, []);
 }
 
 export function saveMonitorStates(states: MonitorStateData[]): void {
-  setCookie(COOKIE_KEYS.MONITOR_STATES, states);
+  setStoredItem(LOCAL_STORAGE_KEYS.MONITOR_STATES, states);
 }
 
 export function getMonitorState(monitorId: string): MonitorStateData | undefined {
@@ -139,8 +196,6 @@ export function saveMonitorState(state: MonitorStateData): void {
   const states = getMonitorStates();
   const index = states.findIndex((s) => s.monitorId === state.monitorId);
 
-  state.updatedAt = new Date().toISOString();
-
   if (index >= 0) {
     states[index] = state;
   } else {
@@ -171,7 +226,7 @@ export function getAlarmsByCampaign(campaignId: string): Alarm[] {
 
 export function getActiveAlarms(): Alarm[] {
   const alarms = getAlarms();
-  return alarms.filter((a) => a.state === 'ACTIVE');
+  return alarms.filter(isOpenAlarm);
 }
 
 export function saveAlarm(alarm: Alarm): void {
@@ -187,52 +242,382 @@ export function saveAlarm(alarm: Alarm): void {
   saveAlarms(alarms);
 }
 
+// Alarm Breakdowns
+//
+// An alarm's attribution across slices runs to several KB, past what the
+// alarms cookie holds, so each is kept in localStorage under the alarm's id.
+
+const BREAKDOWN_KEY_PREFIX = 'app_alarm_breakdown_';
+
+function getBreakdownKeys(): string[] {
+  const storage = getLocalStorage();
+  const keys = storage
+    ? Array.from({ length: storage.length }, (_, i) => storage.key(i))
+    : [...memoryStorage.keys()];
+  return keys.filter((key): key is string => !!key?.startsWith(BREAKDOWN_KEY_PREFIX));
+}
+
+export function getAlarmBreakdown(alarmId: string): DimensionalBreakdown | undefined {
+  return getStoredItem<DimensionalBreakdown | undefined>(BREAKDOWN_KEY_PREFIX + alarmId, undefined);
+}
+
+/**
+ * Store an alarm's breakdown. When storage is full, the breakdowns of alarms
+ * no longer open are dropped to make room.
+ */
+export function saveAlarmBreakdown(alarmId: string, breakdown: DimensionalBreakdown): void {
+  const key = BREAKDOWN_KEY_PREFIX + alarmId;
+  const storage = getLocalStorage();
+  if (!storage) {
+    memoryStorage.set(key, JSON.stringify(breakdown));
+    return;
+  }
+
+  try {
+    storage.setItem(key, JSON.stringify(breakdown));
+  } catch {
+    const open = new Set(getAlarms().filter(isOpenAlarm).map((a) => a.id));
+    getBreakdownKeys()
+      .filter((k) => !open.has(k.slice(BREAKDOWN_KEY_PREFIX.length)))
+      .forEach((k) => storage.removeItem(k));
+    try {
+      storage.setItem(key, JSON.stringify(breakdown));
+    } catch (error) {
+      console.error(`Error saving the breakdown of alarm ${alarmId}:`, error);
+    }
+  }
+}
+
+// Alarm Events (append-only)
+//
+// Every logged reading and comment grows the log, soon past the ~4 KB a
+// cookie holds, so it lives in localStorage. Each alarm keeps its latest
+// MAX_EVENTS_PER_ALARM events, giving up logged readings before anything
+// people did.
+
+const ALARM_EVENTS_KEY = 'app_alarm_events';
+const MAX_EVENTS_PER_ALARM = 100;
+
+let alarmEventsCache: AlarmEvent[] | undefined;
+
+function readAlarmEvents(): AlarmEvent[] {
+  if (alarmEventsCache) return alarmEventsCache;
+
+  let events: AlarmEvent[] = [];
+  try {
+    const stored = getLocalStorage()?.getItem(ALARM_EVENTS_KEY);
+    if (stored) {
+      events = JSON.parse(stored) as AlarmEvent[];
+    } else {
+      // A log from before it moved out of cookies
+      events = getCookie<AlarmEvent[]>(ALARM_EVENTS_KEY, []);
+      if (events.length > 0) {
+        writeAlarmEvents(events);
+        removeCookie(ALARM_EVENTS_KEY);
+        return alarmEventsCache!;
+      }
+    }
+  } catch (error) {
+    console.error('Error reading alarm events:', error);
+  }
+
+  alarmEventsCache = events;
+  return events;
+}
+
+// Each alarm's log cut to its cap: oldest readings go first, then oldest events
+function capAlarmLogs(events: AlarmEvent[]): AlarmEvent[] {
+  const byAlarm = new Map<string, AlarmEvent[]>();
+  events.forEach((e) => byAlarm.set(e.alarmId, [...(byAlarm.get(e.alarmId) ?? []), e]));
+
+  const dropped = new Set<string>();
+  byAlarm.forEach((log) => {
+    if (log.length <= MAX_EVENTS_PER_ALARM) return;
+    const readings = log.filter((e) => e.type === 'VALUE_UPDATED');
+    const others = log.filter((e) => e.type !== 'VALUE_UPDATED');
+    [...readings, ...others]
+      .slice(0, log.length - MAX_EVENTS_PER_ALARM)
+      .forEach((e) => dropped.add(e.id));
+  });
+  return dropped.size > 0 ? events.filter((e) => !dropped.has(e.id)) : events;
+}
+
+/**
+ * Store the event log, each alarm's capped at MAX_EVENTS_PER_ALARM. When
+ * storage is full the logs of the alarms least recently active are dropped
+ * until it fits; if even one alarm's doesn't, the log is kept for this
+ * session only.
+ */
+function writeAlarmEvents(events: AlarmEvent[]): void {
+  let kept = capAlarmLogs(events);
+
+  const storage = getLocalStorage();
+  while (storage) {
+    try {
+      storage.setItem(ALARM_EVENTS_KEY, JSON.stringify(kept));
+      break;
+    } catch (error) {
+      const lastActive = new Map<string, string>();
+      kept.forEach((e) => {
+        if (e.at > (lastActive.get(e.alarmId) ?? '')) lastActive.set(e.alarmId, e.at);
+      });
+      if (lastActive.size <= 1) {
+        console.error('Error saving alarm events:', error);
+        break;
+      }
+      const [stalest] = [...lastActive].reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+      console.warn(`Alarm events are over the storage quota - dropping the log of alarm ${stalest}`);
+      kept = kept.filter((e) => e.alarmId !== stalest);
+    }
+  }
+
+  alarmEventsCache = kept;
+}
+
+export function getAlarmEvents(): AlarmEvent[] {
+  return [...readAlarmEvents()];
+}
+
+export function saveAlarmEvents(events: AlarmEvent[]): void {
+  writeAlarmEvents(events);
+}
+
+export function getAlarmEventsByAlarm(alarmId: string): AlarmEvent[] {
+  return readAlarmEvents().filter((e) => e.alarmId === alarmId);
+}
+
+export function appendAlarmEvent(event: AlarmEvent): void {
+  writeAlarmEvents([...readAlarmEvents(), event]);
+}
+
+// Maintenance Windows
+export function getMaintenanceWindows(): MaintenanceWindow[] {
+  return getCookie<MaintenanceWindow[]>(COOKIE_KEYS.MAINTENANCE_WINDOWS, []);
+}
+
+export function saveMaintenanceWindows(windows: MaintenanceWindow[]): void {
+  setCookie(COOKIE_KEYS.MAINTENANCE_WINDOWS, windows);
+}
+
+export function saveMaintenanceWindow(window: MaintenanceWindow): void {
+  const windows = getMaintenanceWindows();
+  const index = windows.findIndex((w) => w.id === window.id);
+
+  if (index >= 0) {
+    windows[index] = window;
+  } else {
+    windows.push(window);
+  }
+
+  saveMaintenanceWindows(windows);
+}
+
+export function deleteMaintenanceWindow(id: string): void {
+  const windows = getMaintenanceWindows();
+  saveMaintenanceWindows(windows.filter((w) => w.id !== id));
+}
+
 // Metric Values
+//
+// Metric history runs to tens of thousands of points per campaign, far past
+// the ~4 KB a cookie holds, so it lives in localStorage instead: one entry per
+// campaign, packed as one series per metric and slice. Points are kept to the
+// minute and to 4 decimal places.
+
+const HISTORY_KEY_PREFIX = 'app_metric_history_';
+const HISTORY_RETENTION_DAYS = 7;
+const MINUTE_MS = 60 * 1000;
+
+interface PackedSeries {
+  metricId: string;
+  dimensions?: DimensionSlice;
+  start: number; // Epoch minutes of the first point
+  steps: number[]; // Minutes from each point to the next
+  values: number[];
+}
+
+// Decoded history per campaign, so evaluations don't re-parse it on every read
+const historyCache = new Map<string, MetricValue[]>();
+
+function getHistoryKeys(): string[] {
+  const storage = getLocalStorage();
+  if (!storage) return [...historyCache.keys()].map((id) => HISTORY_KEY_PREFIX + id);
+
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(HISTORY_KEY_PREFIX)) keys.push(key);
+  }
+  return keys;
+}
+
+// Identifies a point, so the same reading is never stored twice
+function getPointKey(value: MetricValue): string {
+  return `${value.metricId}|${value.timestamp}|${value.dimensions ? getSliceKey(value.dimensions) : ''}`;
+}
+
+function toMinute(timestamp: string): number {
+  return Math.round(new Date(timestamp).getTime() / MINUTE_MS);
+}
+
+function packHistory(values: MetricValue[]): PackedSeries[] {
+  const series = new Map<string, PackedSeries & { last: number }>();
+
+  [...values]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach((value) => {
+      const seriesKey = `${value.metricId}|${value.dimensions ? getSliceKey(value.dimensions) : ''}`;
+      const minute = toMinute(value.timestamp);
+      const rounded = Math.round(value.value * 1e4) / 1e4;
+      const existing = series.get(seriesKey);
+
+      if (!existing) {
+        series.set(seriesKey, {
+          metricId: value.metricId,
+          ...(value.dimensions && { dimensions: value.dimensions }),
+          start: minute,
+          steps: [],
+          values: [rounded],
+          last: minute,
+        });
+        return;
+      }
+      existing.steps.push(minute - existing.last);
+      existing.values.push(rounded);
+      existing.last = minute;
+    });
+
+  return [...series.values()].map(({ last: _last, ...packed }) => packed);
+}
+
+function unpackHistory(campaignId: string, packed: PackedSeries[]): MetricValue[] {
+  return packed.flatMap((series) => {
+    let minute = series.start;
+    return series.values.map((value, i) => {
+      if (i > 0) minute += series.steps[i - 1];
+      return {
+        campaignId,
+        metricId: series.metricId,
+        timestamp: new Date(minute * MINUTE_MS).toISOString(),
+        value,
+        ...(series.dimensions && { dimensions: series.dimensions }),
+      };
+    });
+  });
+}
+
+function readHistory(campaignId: string): MetricValue[] {
+  const cached = historyCache.get(campaignId);
+  if (cached) return cached;
+
+  let values: MetricValue[] = [];
+  try {
+    const stored = getLocalStorage()?.getItem(HISTORY_KEY_PREFIX + campaignId);
+    if (stored) values = unpackHistory(campaignId, JSON.parse(stored) as PackedSeries[]);
+  } catch (error) {
+    console.error(`Error reading metric history for ${campaignId}:`, error);
+  }
+
+  historyCache.set(campaignId, values);
+  return values;
+}
+
+/**
+ * Store a campaign's history, keeping the last HISTORY_RETENTION_DAYS days.
+ * When storage is full the oldest day is dropped until it fits.
+ */
+function writeHistory(campaignId: string, values: MetricValue[]): void {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - HISTORY_RETENTION_DAYS);
+  let kept = values.filter((v) => new Date(v.timestamp) >= cutoff);
+
+  const storage = getLocalStorage();
+  const key = HISTORY_KEY_PREFIX + campaignId;
+  while (storage) {
+    try {
+      if (kept.length === 0) {
+        storage.removeItem(key);
+      } else {
+        storage.setItem(key, JSON.stringify(packHistory(kept)));
+      }
+      break;
+    } catch (error) {
+      if (kept.length === 0) {
+        console.error(`Error saving metric history for ${campaignId}:`, error);
+        break;
+      }
+      const oldest = kept.reduce(
+        (min, v) => Math.min(min, new Date(v.timestamp).getTime()),
+        Infinity
+      );
+      const dropBefore = oldest + 24 * 60 * MINUTE_MS;
+      console.warn(`Metric history for ${campaignId} is over the storage quota - dropping its oldest day`);
+      kept = kept.filter((v) => new Date(v.timestamp).getTime() >= dropBefore);
+    }
+  }
+
+  // Read back what was stored, so the cache matches its rounding
+  historyCache.delete(campaignId);
+  if (!storage) historyCache.set(campaignId, unpackHistory(campaignId, packHistory(kept)));
+}
+
 export function getMetricValues(): MetricValue[] {
-  return getCookie<MetricValue[]>(COOKIE_KEYS.METRIC_VALUES, []);
+  return getHistoryKeys().flatMap((key) => readHistory(key.slice(HISTORY_KEY_PREFIX.length)));
 }
 
+// Replace all stored history
 export function saveMetricValues(values: MetricValue[]): void {
-  setCookie(COOKIE_KEYS.METRIC_VALUES, values);
+  getHistoryKeys().forEach((key) => getLocalStorage()?.removeItem(key));
+  historyCache.clear();
+  const campaignIds = new Set(values.map((v) => v.campaignId));
+  campaignIds.forEach((id) => writeHistory(id, values.filter((v) => v.campaignId === id)));
 }
 
 export function getMetricValuesByCampaign(campaignId: string): MetricValue[] {
-  const values = getMetricValues();
-  return values.filter((v) => v.campaignId === campaignId);
+  return [...readHistory(campaignId)];
 }
 
 export function getMetricValuesByCampaignAndMetric(
   campaignId: string,
   metricId: string
 ): MetricValue[] {
-  const values = getMetricValues();
-  return values
-    .filter((v) => v.campaignId === campaignId && v.metricId === metricId)
+  return readHistory(campaignId)
+    .filter((v) => v.metricId === metricId)
     .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 }
 
+// Store a reading, replacing any earlier one for the same metric, slice and time
 export function saveMetricValue(value: MetricValue): void {
-  const values = getMetricValues();
-  values.push(value);
-
-  // Keep only last 7 days of data to prevent cookie size issues
-  const sevenDaysAgo = new Date();
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-  const filtered = values.filter((v) => new Date(v.timestamp) >= sevenDaysAgo);
-  saveMetricValues(filtered);
+  saveMetricReadings([value]);
+}
+
+// Store readings, each replacing any earlier one for the same metric, slice and time
+export function saveMetricReadings(values: MetricValue[]): void {
+  const campaignIds = new Set(values.map((v) => v.campaignId));
+  campaignIds.forEach((campaignId) => {
+    const readings = values.filter((v) => v.campaignId === campaignId);
+    const keys = new Set(readings.map(getPointKey));
+    writeHistory(campaignId, [
+      ...readHistory(campaignId).filter((v) => !keys.has(getPointKey(v))),
+      ...readings,
+    ]);
+  });
 }
 
+// Add points a campaign's history doesn't have yet; points already stored are kept
 export function bulkSaveMetricValues(values: MetricValue[]): void {
-  const existing = getMetricValues();
-  const combined = [...existing, ...values];
-
-  // Keep only last 7 days
-  const sevenDaysAgo = new Date();
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+  const campaignIds = new Set(values.map((v) => v.campaignId));
+  campaignIds.forEach((campaignId) => {
+    const existing = readHistory(campaignId);
+    const stored = new Set(existing.map(getPointKey));
+    const added = values.filter((v) => v.campaignId === campaignId && !stored.has(getPointKey(v)));
+    if (added.length > 0) writeHistory(campaignId, [...existing, ...added]);
+  });
+}
 
-  const filtered = combined.filter((v) => new Date(v.timestamp) >= sevenDaysAgo);
-  saveMetricValues(filtered);
+// Replace a campaign's history, e.g. after regenerating it for a scenario
+export function replaceMetricValuesByCampaign(campaignId: string, values: MetricValue[]): void {
+  writeHistory(campaignId, values);
 }
 
 // User Preferences
@@ -293,6 +678,12 @@ export function clearAllData(): void {
   Object.values(COOKIE_KEYS).forEach((key) => {
     removeCookie(key);
   });
+  Object.values(LOCAL_STORAGE_KEYS).forEach(removeStoredItem);
+  getBreakdownKeys().forEach(removeStoredItem);
+  removeCookie(ALARM_EVENTS_KEY);
+  getLocalStorage()?.removeItem(ALARM_EVENTS_KEY);
+  alarmEventsCache = undefined;
+  saveMetricValues([]);
 }
 
 // Export data (for backup/debugging)
@@ -302,6 +693,8 @@ export function exportAllData() {
     monitors: getMonitors(),
     monitorStates: getMonitorStates(),
     alarms: getAlarms(),
+    alarmEvents: getAlarmEvents(),
+    maintenanceWindows: getMaintenanceWindows(),
     metricValues: getMetricValues(),
     userPreferences: getUserPreferences(),
     onboardingState: getOnboardingState(),
@@ -314,6 +707,8 @@ export function importAllData(data: ReturnType<typeof exportAllData>): void {
   if (data.monitors) saveMonitors(data.monitors);
   if (data.monitorStates) saveMonitorStates(data.monitorStates);
   if (data.alarms) saveAlarms(data.alarms);
+  if (data.alarmEvents) saveAlarmEvents(data.alarmEvents);
+  if (data.maintenanceWindows) saveMaintenanceWindows(data.maintenanceWindows);
   if (data.metricValues) saveMetricValues(data.metricValues);
   if (data.userPreferences) saveUserPreferences(data.userPreferences);
   if (data.onboardingState) saveOnboardingState(data.onboardingState);
@@ -0,0 +1,231 @@
+/**
+ * Timezone helpers - wall-clock readings of instants in a campaign's or a
+ * market's IANA timezone (via Intl, so no timezone database is bundled)
+ */
+
+import type { Campaign, DimensionSlice } from '@/types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// UTC offsets are whole quarter hours, so an offset holds for a 15-minute block
+const OFFSET_BLOCK_MS = 15 * MINUTE_MS;
+const MAX_CACHED_OFFSETS = 50000;
+
+// Main market timezone of each geo - its traffic follows that local clock
+export const GEO_TIMEZONES: Record<string, string> = {
+  US: 'America/New_York',
+  UK: 'Europe/London',
+  GB: 'Europe/London',
+  CA: 'America/Toronto',
+  AU: 'Australia/Sydney',
+  DE: 'Europe/Berlin',
+  FR: 'Europe/Paris',
+  IN: 'Asia/Kolkata',
+  JP: 'Asia/Tokyo',
+  BR: 'America/Sao_Paulo',
+};
+
+// Reporting timezones offered for campaigns
+export const TIMEZONE_OPTIONS = [
+  'America/Los_Angeles',
+  'America/Chicago',
+  'America/New_York',
+  'America/Toronto',
+  'America/Sao_Paulo',
+  'UTC',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsets = new Map<string, number>();
+
+export function getBrowserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reporting timezone of a campaign: its own, else the browser's
+ */
+export function getCampaignTimezone(campaign: Campaign): string {
+  return campaign.timezone ?? getBrowserTimezone();
+}
+
+/**
+ * Timezone a slice's traffic follows: its geo's market, else the campaign's
+ */
+export function getSliceTimezone(campaign: Campaign, slice?: DimensionSlice): string {
+  return (slice?.geo && GEO_TIMEZONES[slice.geo]) || getCampaignTimezone(campaign);
+}
+
+/**
+ * Suggested reporting timezone for new targeting: the first geo's market
+ */
+export function getDefaultTimezone(geos: string[]): string {
+  return GEO_TIMEZONES[geos[0]] ?? getBrowserTimezone();
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Offset of the timezone from UTC at an instant, in ms (local = UTC + offset)
+ */
+export function getTimezoneOffset(ms: number, timeZone: string): number {
+  const blockStart = Math.floor(ms / OFFSET_BLOCK_MS) * OFFSET_BLOCK_MS;
+  const key = `${timeZone}|${blockStart}`;
+  const cached = offsets.get(key);
+  if (cached !== undefined) return cached;
+
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(blockStart))
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+  const offset =
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - blockStart;
+
+  if (offsets.size >= MAX_CACHED_OFFSETS) offsets.clear();
+  offsets.set(key, offset);
+  return offset;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone (the browser's when omitted)
+ */
+export function getZonedTime(date: Date | number, timeZone?: string): ZonedTime {
+  const ms = typeof date === 'number' ? date : date.getTime();
+  if (!timeZone) {
+    const local = new Date(ms);
+    return {
+      year: local.getFullYear(),
+      month: local.getMonth() + 1,
+      day: local.getDate(),
+      hour: local.getHours(),
+      minute: local.getMinutes(),
+      dayOfWeek: local.getDay(),
+    };
+  }
+
+  // Shift by the offset and read the UTC fields as the local clock
+  const shifted = new Date(ms + getTimezoneOffset(ms, timeZone));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    dayOfWeek: shifted.getUTCDay(),
+  };
+}
+
+/**
+ * Instant of local midnight on a calendar date in a timezone (the browser's
+ * when omitted). Out-of-range days roll over, e.g. day 32 of January.
+ */
+export function getZonedMidnight(year: number, month: number, day: number, timeZone?: string): Date {
+  if (!timeZone) return new Date(year, month - 1, day);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const guess = utcMidnight - getTimezoneOffset(utcMidnight, timeZone);
+  // Re-read the offset at the guess in case it changes (DST) between the two
+  return new Date(utcMidnight - getTimezoneOffset(guess, timeZone));
+}
+
+/**
+ * Start of the local day an instant falls on
+ */
+export function startOfZonedDay(date: Date | number, timeZone?: string): Date {
+  const { year, month, day } = getZonedTime(date, timeZone);
+  return getZonedMidnight(year, month, day, timeZone);
+}
+
+/**
+ * Local midnight `days` calendar days after the day an instant falls on
+ */
+export function addZonedDays(date: Date | number, days: number, timeZone?: string): Date {
+  const { year, month, day } = getZonedTime(date, timeZone);
+  return getZonedMidnight(year, month, day + days, timeZone);
+}
+
+/**
+ * Calendar days between two local midnights
+ */
+export function differenceInZonedDays(later: Date, earlier: Date): number {
+  return Math.round((later.getTime() - earlier.getTime()) / DAY_MS);
+}
+
+export function isZonedWeekend(date: Date | number, timeZone?: string): boolean {
+  const { dayOfWeek } = getZonedTime(date, timeZone);
+  return dayOfWeek === 0 || dayOfWeek === 6;
+}
+
+/**
+ * Local midnight of a stored calendar date (e.g. a flight's start date,
+ * saved as 'yyyy-MM-dd' or an ISO timestamp of that date)
+ */
+export function parseZonedDate(value: string, timeZone?: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return getZonedMidnight(year, month, day, timeZone);
+}
+
+/**
+ * Hour-of-day label ('14:00') for an instant in a timezone
+ */
+export function formatZonedHour(date: Date | number, timeZone?: string): string {
+  return `${getZonedTime(date, timeZone).hour}:00`;
+}
+
+/**
+ * Clock label ('14:05') for an instant in a timezone
+ */
+export function formatZonedClock(date: Date | number, timeZone?: string): string {
+  const { hour, minute } = getZonedTime(date, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Weekday and clock label ('Mon 14:00') for an instant in a timezone
+ */
+export function formatZonedDayTime(date: Date | number, timeZone?: string): string {
+  return `${WEEKDAYS[getZonedTime(date, timeZone).dayOfWeek]} ${formatZonedClock(date, timeZone)}`;
+}